@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+/**
+ * @title ReviewForwarder
+ * @notice Trusted forwarder for gasless reviews, votes and owner responses
+ * @dev Verifies EIP-712 signed ForwardRequests and relays them to YelpReviewV2 (EIP-2771).
+ *      The relayer service pays the gas; the signer stays the msg sender the review contract sees.
+ */
+contract ReviewForwarder is MinimalForwarder {}
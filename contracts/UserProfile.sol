@@ -86,7 +86,9 @@ contract UserProfile is Ownable, ReentrancyGuard {
     }
     
     // ============ Constructor ============
-    constructor(address initialOwner) Ownable(initialOwner) {
+    constructor(address initialOwner) {
+        _transferOwnership(initialOwner);
+        
         // Reserve common usernames
         reservedUsernames["admin"] = true;
         reservedUsernames["moderator"] = true;
@@ -6,23 +6,28 @@ import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/metatx/ERC2771ContextUpgradeable.sol";
 
 /**
  * @title YelpReviewV2
  * @notice Main contract for decentralized review system with enhanced security
- * @dev Implements comprehensive review management with spam prevention
+ * @dev Implements comprehensive review management with spam prevention.
+ *      Calls relayed through the trusted forwarder (EIP-2771) act on behalf of the signer.
  */
 contract YelpReviewV2 is 
     Initializable,
     AccessControlUpgradeable,
     PausableUpgradeable,
     ReentrancyGuardUpgradeable,
-    UUPSUpgradeable
+    UUPSUpgradeable,
+    ERC2771ContextUpgradeable
 {
     // ============ Constants ============
     bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE");
     bytes32 public constant BUSINESS_OWNER_ROLE = keccak256("BUSINESS_OWNER_ROLE");
     bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    // Relayer wallets trusted to sponsor first reviews through the forwarder; they enforce their own sybil limits
+    bytes32 public constant RELAYER_ROLE = keccak256("RELAYER_ROLE");
     
     uint256 public constant MAX_RATING = 5;
     uint256 public constant MIN_RATING = 1;
@@ -110,6 +115,12 @@ contract YelpReviewV2 is
         bool isUpvote
     );
     
+    event ReviewVoteCleared(
+        bytes32 indexed businessId,
+        address indexed reviewer,
+        address indexed voter
+    );
+    
     event BusinessRegistered(
         bytes32 indexed businessId,
         string name,
@@ -128,12 +139,30 @@ contract YelpReviewV2 is
         uint256 timestamp
     );
     
+    event ReviewFlagged(
+        bytes32 indexed businessId,
+        address indexed reviewer,
+        address indexed moderator
+    );
+    
+    event ReviewUnflagged(
+        bytes32 indexed businessId,
+        address indexed reviewer,
+        address indexed moderator
+    );
+    
+    event ReviewArchived(
+        bytes32 indexed businessId,
+        address indexed reviewer,
+        address indexed moderator
+    );
+    
     event UserBanned(address indexed user, string reason);
     event UserUnbanned(address indexed user);
     
     // ============ Modifiers ============
     modifier notBanned() {
-        require(!bannedUsers[msg.sender], "User is banned");
+        require(!bannedUsers[_msgSender()], "User is banned");
         _;
     }
     
@@ -149,7 +178,7 @@ contract YelpReviewV2 is
     
     modifier rateLimited() {
         require(
-            block.timestamp >= lastReviewTime[msg.sender] + REVIEW_COOLDOWN,
+            block.timestamp >= lastReviewTime[_msgSender()] + REVIEW_COOLDOWN,
             "Please wait before reviewing again"
         );
         _;
@@ -157,13 +186,18 @@ contract YelpReviewV2 is
     
     modifier accountAgeCheck() {
         // Check if account is old enough (would need oracle for real implementation)
-        require(userReviewCount[msg.sender] > 0 || msg.sender.balance > 0, "Account too new");
+        // Relayed reviews come from accounts without gas, so they pass when a trusted relayer paid for them.
+        // Anyone can call the forwarder, hence the check on who sent the transaction rather than on the forwarder
+        require(
+            userReviewCount[_msgSender()] > 0 || _msgSender().balance > 0 || _isSponsoredRelay(),
+            "Account too new"
+        );
         _;
     }
     
     // ============ Initialization ============
-    /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
+    /// @custom:oz-upgrades-unsafe-allow constructor state-variable-immutable
+    constructor(address _trustedForwarder) ERC2771ContextUpgradeable(_trustedForwarder) {
         _disableInitializers();
     }
     
@@ -177,9 +211,9 @@ contract YelpReviewV2 is
         __ReentrancyGuard_init();
         __UUPSUpgradeable_init();
         
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
-        _grantRole(MODERATOR_ROLE, msg.sender);
-        _grantRole(UPGRADER_ROLE, msg.sender);
+        _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
+        _grantRole(MODERATOR_ROLE, _msgSender());
+        _grantRole(UPGRADER_ROLE, _msgSender());
         
         userProfileContract = _userProfileContract;
         gameFiContract = _gameFiContract;
@@ -188,6 +222,41 @@ contract YelpReviewV2 is
         minimumStakeAmount = 0.01 ether; // For business verification
     }
     
+    // ============ Meta-Transactions ============
+    
+    function _msgSender()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (address)
+    {
+        return ERC2771ContextUpgradeable._msgSender();
+    }
+    
+    function _msgData()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (bytes calldata)
+    {
+        return ERC2771ContextUpgradeable._msgData();
+    }
+
+    // A call through the forwarder, submitted by a relayer holding RELAYER_ROLE
+    function _isSponsoredRelay() internal view returns (bool) {
+        // solhint-disable-next-line avoid-tx-origin
+        return isTrustedForwarder(msg.sender) && hasRole(RELAYER_ROLE, tx.origin);
+    }
+
+    function _contextSuffixLength()
+        internal
+        view
+        override(ContextUpgradeable, ERC2771ContextUpgradeable)
+        returns (uint256)
+    {
+        return ERC2771ContextUpgradeable._contextSuffixLength();
+    }
+
     // ============ Main Functions ============
     
     /**
@@ -215,7 +284,7 @@ contract YelpReviewV2 is
             category: _category,
             location: _location,
             description: _description,
-            owner: msg.sender,
+            owner: _msgSender(),
             isVerified: false,
             totalReviews: 0,
             totalRating: 0,
@@ -224,9 +293,9 @@ contract YelpReviewV2 is
         });
         
         businessIds.push(businessId);
-        _grantRole(BUSINESS_OWNER_ROLE, msg.sender);
+        _grantRole(BUSINESS_OWNER_ROLE, _msgSender());
         
-        emit BusinessRegistered(businessId, _name, msg.sender, block.timestamp);
+        emit BusinessRegistered(businessId, _name, _msgSender(), block.timestamp);
         return businessId;
     }
     
@@ -256,15 +325,15 @@ contract YelpReviewV2 is
         require(bytes(_comment).length <= MAX_COMMENT_LENGTH, "Comment too long");
         require(_tags.length <= MAX_TAGS, "Too many tags");
         require(_imageHashes.length <= MAX_IMAGES, "Too many images");
-        require(reviews[_businessId][msg.sender].timestamp == 0, "Already reviewed");
+        require(reviews[_businessId][_msgSender()].timestamp == 0, "Already reviewed");
         
         // Input sanitization
         for (uint i = 0; i < _tags.length; i++) {
             require(bytes(_tags[i]).length > 0 && bytes(_tags[i]).length <= 50, "Invalid tag");
         }
         
-        reviews[_businessId][msg.sender] = Review({
-            reviewer: msg.sender,
+        reviews[_businessId][_msgSender()] = Review({
+            reviewer: _msgSender(),
             timestamp: block.timestamp,
             lastEditTimestamp: block.timestamp,
             rating: _rating,
@@ -281,19 +350,19 @@ contract YelpReviewV2 is
             ownerResponseTimestamp: 0
         });
         
-        reviewers[_businessId].push(msg.sender);
+        reviewers[_businessId].push(_msgSender());
         businesses[_businessId].totalReviews++;
         businesses[_businessId].totalRating += _rating;
         totalReviewsCount++;
-        userReviewCount[msg.sender]++;
-        lastReviewTime[msg.sender] = block.timestamp;
+        userReviewCount[_msgSender()]++;
+        lastReviewTime[_msgSender()] = block.timestamp;
         
         // Call GameFi contract to award points
         if (gameFiContract != address(0)) {
-            try IGameFi(gameFiContract).awardReviewPoints(msg.sender, _rating) {} catch {}
+            try IGameFi(gameFiContract).awardReviewPoints(_msgSender(), _rating) {} catch {}
         }
         
-        emit ReviewAdded(_businessId, msg.sender, _rating, block.timestamp);
+        emit ReviewAdded(_businessId, _msgSender(), _rating, block.timestamp);
     }
     
     /**
@@ -314,7 +383,7 @@ contract YelpReviewV2 is
         businessExists(_businessId)
         validRating(_rating)
     {
-        Review storage review = reviews[_businessId][msg.sender];
+        Review storage review = reviews[_businessId][_msgSender()];
         require(review.timestamp > 0, "Review does not exist");
         require(!review.isArchived, "Review is archived");
         require(bytes(_comment).length <= MAX_COMMENT_LENGTH, "Comment too long");
@@ -329,7 +398,7 @@ contract YelpReviewV2 is
         review.lastEditTimestamp = block.timestamp;
         review.version++;
         
-        emit ReviewUpdated(_businessId, msg.sender, review.version, block.timestamp);
+        emit ReviewUpdated(_businessId, _msgSender(), review.version, block.timestamp);
     }
     
     /**
@@ -347,10 +416,10 @@ contract YelpReviewV2 is
         notBanned 
         businessExists(_businessId)
     {
-        require(_reviewer != msg.sender, "Cannot vote own review");
+        require(_reviewer != _msgSender(), "Cannot vote own review");
         require(reviews[_businessId][_reviewer].timestamp > 0, "Review does not exist");
         
-        ReviewVote storage vote = reviewVotes[_businessId][_reviewer][msg.sender];
+        ReviewVote storage vote = reviewVotes[_businessId][_reviewer][_msgSender()];
         Review storage review = reviews[_businessId][_reviewer];
         
         // Handle vote change
@@ -378,7 +447,35 @@ contract YelpReviewV2 is
             try IReputation(reputationContract).updateReputation(_reviewer, _isUpvote) {} catch {}
         }
         
-        emit ReviewVoted(_businessId, _reviewer, msg.sender, _isUpvote);
+        emit ReviewVoted(_businessId, _reviewer, _msgSender(), _isUpvote);
+    }
+    
+    /**
+     * @notice Withdraw a vote on a review
+     * @param _businessId Business identifier
+     * @param _reviewer Reviewer address
+     */
+    function clearVote(
+        bytes32 _businessId,
+        address _reviewer
+    ) external 
+        whenNotPaused 
+        notBanned 
+    {
+        ReviewVote storage vote = reviewVotes[_businessId][_reviewer][_msgSender()];
+        require(vote.hasVoted, "No vote to clear");
+        
+        Review storage review = reviews[_businessId][_reviewer];
+        if (vote.isUpvote) {
+            review.upvotes--;
+        } else {
+            review.downvotes--;
+        }
+        
+        // Reputation already granted for the vote is kept; IReputation has no way to take it back
+        delete reviewVotes[_businessId][_reviewer][_msgSender()];
+        
+        emit ReviewVoteCleared(_businessId, _reviewer, _msgSender());
     }
     
     /**
@@ -395,7 +492,7 @@ contract YelpReviewV2 is
         whenNotPaused 
         businessExists(_businessId)
     {
-        require(businesses[_businessId].owner == msg.sender, "Not business owner");
+        require(businesses[_businessId].owner == _msgSender(), "Not business owner");
         require(reviews[_businessId][_reviewer].timestamp > 0, "Review does not exist");
         require(bytes(_response).length <= MAX_COMMENT_LENGTH, "Response too long");
         
@@ -418,6 +515,21 @@ contract YelpReviewV2 is
         address _reviewer
     ) external onlyRole(MODERATOR_ROLE) {
         reviews[_businessId][_reviewer].isFlagged = true;
+        emit ReviewFlagged(_businessId, _reviewer, _msgSender());
+    }
+    
+    /**
+     * @notice Clear a flag after review found nothing wrong
+     * @param _businessId Business identifier
+     * @param _reviewer Reviewer address
+     */
+    function unflagReview(
+        bytes32 _businessId,
+        address _reviewer
+    ) external onlyRole(MODERATOR_ROLE) {
+        require(reviews[_businessId][_reviewer].isFlagged, "Review not flagged");
+        reviews[_businessId][_reviewer].isFlagged = false;
+        emit ReviewUnflagged(_businessId, _reviewer, _msgSender());
     }
     
     /**
@@ -430,6 +542,7 @@ contract YelpReviewV2 is
         address _reviewer
     ) external onlyRole(MODERATOR_ROLE) {
         reviews[_businessId][_reviewer].isArchived = true;
+        emit ReviewArchived(_businessId, _reviewer, _msgSender());
     }
     
     /**
@@ -465,7 +578,7 @@ contract YelpReviewV2 is
         payable 
         businessExists(_businessId)
     {
-        require(msg.sender == businesses[_businessId].owner, "Not owner");
+        require(_msgSender() == businesses[_businessId].owner, "Not owner");
         require(msg.value >= minimumStakeAmount, "Insufficient stake");
         require(!businesses[_businessId].isVerified, "Already verified");
         
@@ -474,6 +587,22 @@ contract YelpReviewV2 is
         emit BusinessVerified(_businessId, msg.value);
     }
     
+    /**
+     * @notice Verify a business after a moderator has checked it, without a stake
+     * @param _businessId Business identifier
+     */
+    function moderatorVerifyBusiness(bytes32 _businessId)
+        external
+        onlyRole(MODERATOR_ROLE)
+        businessExists(_businessId)
+    {
+        require(!businesses[_businessId].isVerified, "Already verified");
+        
+        businesses[_businessId].isVerified = true;
+        
+        emit BusinessVerified(_businessId, 0);
+    }
+    
     // ============ View Functions ============
     
     /**
@@ -571,7 +700,7 @@ contract YelpReviewV2 is
         onlyRole(DEFAULT_ADMIN_ROLE)
         whenPaused 
     {
-        payable(msg.sender).transfer(address(this).balance);
+        payable(_msgSender()).transfer(address(this).balance);
     }
 }
 
@@ -0,0 +1,31 @@
+// Hardhat configuration for compiling the contract suite and running it on a local node
+// Usage: npm run local (or npm run chain and npm run deploy:local separately)
+require("@nomicfoundation/hardhat-ethers");
+require("@openzeppelin/hardhat-upgrades");
+
+module.exports = {
+  solidity: {
+    version: "0.8.20",
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200
+      }
+    }
+  },
+  paths: {
+    sources: "./contracts",
+    artifacts: "./artifacts",
+    cache: "./cache"
+  },
+  networks: {
+    hardhat: {
+      chainId: 31337
+    },
+    // Hardhat or Anvil node on the LOCALHOST chain from src/config/contractsV2.ts
+    localhost: {
+      url: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337
+    }
+  }
+};
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { ClaimMessageFields, claimMessage, decisionMessage, inboxMessage } from '../../src/utils/claimMessages';
+import { RelayerConfig } from './config';
+import { RelayError, fieldsOf } from './relay';
+
+// Signed messages older than this are refused, so a leaked signature can't be replayed later
+const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+// Allow for clocks a little ahead of ours
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type ClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ClaimContact {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface OwnershipClaim {
+  id: string;
+  chainId: number;
+  businessId: string;
+  businessName: string;
+  claimant: string;
+  contact: ClaimContact;
+  evidence: string;
+  issuedAt: number;
+  // The claimant's personal_sign signature over claimMessage
+  signature: string;
+  status: ClaimStatus;
+  submittedAt: number;
+  decidedAt?: number;
+  decidedBy?: string;
+  reason?: string;
+  // The setBusinessOwner transaction for an approved claim
+  txHash?: string;
+}
+
+// What anyone may see about a claim: no contact details or evidence
+export type PublicClaim = Pick<
+  OwnershipClaim,
+  'id' | 'chainId' | 'businessId' | 'businessName' | 'claimant' | 'status' | 'submittedAt' | 'decidedAt' | 'reason' | 'txHash'
+>;
+
+const text = (value: unknown, field: string, maxLength: number, required = true): string => {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (required && !trimmed) {
+    throw new RelayError(`${field} is required`, 400, 'invalid');
+  }
+  if (trimmed.length > maxLength) {
+    throw new RelayError(`${field} is longer than ${maxLength} characters`, 400, 'invalid');
+  }
+  return trimmed;
+};
+
+const checkFresh = (issuedAt: unknown): number => {
+  const age = Date.now() - Number(issuedAt);
+  if (!Number.isFinite(age) || age > SIGNATURE_MAX_AGE_MS || age < -CLOCK_SKEW_MS) {
+    throw new RelayError('Signature has expired, sign again', 401, 'rejected');
+  }
+  return Number(issuedAt);
+};
+
+// Who signed the message, or null when the signature is unreadable
+const recoverSigner = (message: string, signature: unknown): string | null => {
+  if (typeof signature !== 'string') return null;
+  try {
+    return ethers.verifyMessage(message, signature);
+  } catch {
+    return null;
+  }
+};
+
+const toPublic = (claim: OwnershipClaim): PublicClaim => ({
+  id: claim.id,
+  chainId: claim.chainId,
+  businessId: claim.businessId,
+  businessName: claim.businessName,
+  claimant: claim.claimant,
+  status: claim.status,
+  submittedAt: claim.submittedAt,
+  decidedAt: claim.decidedAt,
+  reason: claim.reason,
+  txHash: claim.txHash,
+});
+
+// Ownership claims kept in a JSON file next to the relayer; admins are a fixed list of addresses
+export const createClaimStore = (config: RelayerConfig) => {
+  const admins = new Set(config.claimAdmins.map(address => ethers.getAddress(address)));
+  const claims: OwnershipClaim[] = fs.existsSync(config.claimsFile)
+    ? JSON.parse(fs.readFileSync(config.claimsFile, 'utf8'))
+    : [];
+
+  const save = () => {
+    fs.writeFileSync(config.claimsFile, JSON.stringify(claims, null, 2));
+  };
+
+  const checkAdmin = (signer: string | null) => {
+    if (admins.size === 0) {
+      throw new RelayError('No claim admins are configured', 403, 'rejected');
+    }
+    if (!signer || !admins.has(signer)) {
+      throw new RelayError('Only claim admins can do that', 403, 'rejected');
+    }
+    return signer;
+  };
+
+  const submit = (body: unknown): PublicClaim => {
+    const { claim: rawClaim, signature } = fieldsOf(body);
+    const claim = fieldsOf(rawClaim);
+    const contact = fieldsOf(claim.contact);
+    if (!rawClaim || !claim.contact || typeof signature !== 'string') {
+      throw new RelayError('Expected { claim, signature }', 400, 'invalid');
+    }
+    const { businessId, claimant } = claim;
+    if (
+      typeof businessId !== 'string' || !ethers.isHexString(businessId, 32) ||
+      typeof claimant !== 'string' || !ethers.isAddress(claimant)
+    ) {
+      throw new RelayError('Malformed business ID or claimant', 400, 'invalid');
+    }
+
+    const fields: ClaimMessageFields = {
+      chainId: Number(claim.chainId),
+      businessId: businessId.toLowerCase(),
+      businessName: text(claim.businessName, 'Business name', 100),
+      claimant: ethers.getAddress(claimant),
+      contact: {
+        name: text(contact.name, 'Contact name', 100),
+        email: text(contact.email, 'Email', 200),
+        phone: text(contact.phone, 'Phone', 30, false),
+      },
+      evidence: text(claim.evidence, 'Evidence', 2000),
+      issuedAt: checkFresh(claim.issuedAt),
+    };
+    if (!EMAIL_PATTERN.test(fields.contact.email)) {
+      throw new RelayError('Email is not valid', 400, 'invalid');
+    }
+    if (recoverSigner(claimMessage(fields), signature) !== fields.claimant) {
+      throw new RelayError('Signature does not match the claimant', 401, 'rejected');
+    }
+
+    const open = claims.find(existing =>
+      existing.chainId === fields.chainId &&
+      existing.businessId === fields.businessId &&
+      existing.claimant === fields.claimant &&
+      existing.status !== 'rejected'
+    );
+    if (open) {
+      throw new RelayError(`You already have a ${open.status} claim for this business`, 409, 'rejected');
+    }
+
+    const stored: OwnershipClaim = { ...fields, id: randomUUID(), signature, status: 'pending', submittedAt: Date.now() };
+    claims.push(stored);
+    save();
+    console.log(`Claim ${stored.id}: ${stored.claimant} claims ${stored.businessName}`);
+    return toPublic(stored);
+  };
+
+  const listForClaimant = (claimant: string): PublicClaim[] => {
+    const address = ethers.getAddress(claimant);
+    return claims.filter(claim => claim.claimant === address).map(toPublic);
+  };
+
+  // Full claims, contact details included, for an admin who signed inboxMessage recently
+  const listAll = (admin: string | undefined, signature: string | undefined, issuedAt: string | undefined) => {
+    if (!admin || !ethers.isAddress(admin)) {
+      throw new RelayError('Sign in as a claim admin to see the inbox', 401, 'rejected');
+    }
+    const issued = checkFresh(issuedAt);
+    checkAdmin(recoverSigner(inboxMessage(ethers.getAddress(admin), issued), signature));
+    return claims;
+  };
+
+  const decide = (id: string, body: unknown): PublicClaim => {
+    const claim = claims.find(existing => existing.id === id);
+    if (!claim) {
+      throw new RelayError('Claim not found', 404, 'invalid');
+    }
+    if (claim.status !== 'pending') {
+      throw new RelayError(`Claim was already ${claim.status}`, 409, 'rejected');
+    }
+
+    const { status, signature, ...decision } = fieldsOf(body);
+    if (status !== 'approved' && status !== 'rejected') {
+      throw new RelayError('Decision must be approved or rejected', 400, 'invalid');
+    }
+    const reason = text(decision.reason, 'Reason', 500, status === 'rejected');
+    const txHash = status === 'approved' ? text(decision.txHash, 'Transaction hash', 66) : '';
+    const issuedAt = checkFresh(decision.issuedAt);
+    const admin = checkAdmin(recoverSigner(decisionMessage(id, status, reason, txHash, issuedAt), signature));
+
+    Object.assign(claim, {
+      status,
+      reason: reason || undefined,
+      txHash: txHash || undefined,
+      decidedAt: Date.now(),
+      decidedBy: admin,
+    });
+    save();
+    console.log(`Claim ${id} ${status} by ${admin}`);
+    return toPublic(claim);
+  };
+
+  return { submit, listForClaimant, listAll, decide };
+};
@@ -0,0 +1,42 @@
+// Relayer settings, read from the environment
+export interface RelayerConfig {
+  port: number;
+  rpcUrl: string;
+  privateKey: string;
+  forwarderAddress: string;
+  // The only contract relayed requests may call
+  reviewContractAddress: string;
+  // Relayed transactions per address per day
+  dailyQuota: number;
+  // First reviews from accounts without ETH sponsored per day, across all accounts
+  dailyNewReviewers: number;
+  // Upper bound on the gas a request may ask the forwarder to pass on
+  maxGas: bigint;
+  allowedOrigin: string;
+  // Where ownership claims are kept between restarts
+  claimsFile: string;
+  // Addresses that may read the claims inbox and decide claims
+  claimAdmins: string[];
+}
+
+const required = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+};
+
+export const loadConfig = (): RelayerConfig => ({
+  port: Number(process.env.RELAYER_PORT) || 8787,
+  rpcUrl: process.env.RELAYER_RPC_URL || 'http://127.0.0.1:8545',
+  privateKey: required('RELAYER_PRIVATE_KEY'),
+  forwarderAddress: required('FORWARDER_ADDRESS'),
+  reviewContractAddress: required('REVIEW_CONTRACT_ADDRESS'),
+  dailyQuota: Number(process.env.RELAYER_DAILY_QUOTA) || 10,
+  dailyNewReviewers: Number(process.env.RELAYER_DAILY_NEW_REVIEWERS) || 50,
+  maxGas: BigInt(process.env.RELAYER_MAX_GAS || '1000000'),
+  allowedOrigin: process.env.RELAYER_ALLOWED_ORIGIN || '*',
+  claimsFile: process.env.CLAIMS_FILE || 'claims.json',
+  claimAdmins: (process.env.CLAIMS_ADMIN_ADDRESSES || '').split(',').map(address => address.trim()).filter(Boolean),
+});
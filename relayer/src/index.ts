@@ -0,0 +1,127 @@
+// Gasless relayer: accepts EIP-712 signed forward requests and submits them through ReviewForwarder.
+// Also keeps business ownership claims, which are off-chain until an admin approves one.
+// Usage: RELAYER_PRIVATE_KEY=... FORWARDER_ADDRESS=... REVIEW_CONTRACT_ADDRESS=... npm start
+import http from 'http';
+import { ethers } from 'ethers';
+import { createClaimStore } from './claims';
+import { loadConfig } from './config';
+import { RelayError, createRelayer } from './relay';
+
+// Signed requests carry at most a review's worth of calldata
+const MAX_BODY_BYTES = 64 * 1024;
+
+const config = loadConfig();
+const relayer = createRelayer(config);
+const claims = createClaimStore(config);
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Claims-Admin, X-Claims-Signature, X-Claims-Issued',
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: http.IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new RelayError('Request body too large', 413, 'invalid'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new RelayError('Body is not valid JSON', 400, 'invalid'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://relayer');
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204, null);
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    const [network, balance] = await Promise.all([
+      relayer.provider.getNetwork(),
+      relayer.provider.getBalance(relayer.address),
+    ]);
+    send(res, 200, {
+      relayer: relayer.address,
+      chainId: Number(network.chainId),
+      balance: ethers.formatEther(balance),
+    });
+    return;
+  }
+
+  const quotaMatch = /^\/quota\/(0x[0-9a-fA-F]{40})$/.exec(url.pathname);
+  if (req.method === 'GET' && quotaMatch) {
+    send(res, 200, relayer.getQuota(quotaMatch[1]));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/relay') {
+    send(res, 200, await relayer.relay(await readJson(req)));
+    return;
+  }
+
+  if (url.pathname === '/claims') {
+    if (req.method === 'POST') {
+      send(res, 201, claims.submit(await readJson(req)));
+      return;
+    }
+    if (req.method === 'GET') {
+      const claimant = url.searchParams.get('claimant');
+      if (claimant) {
+        if (!ethers.isAddress(claimant)) {
+          throw new RelayError('Malformed claimant address', 400, 'invalid');
+        }
+        send(res, 200, claims.listForClaimant(claimant));
+        return;
+      }
+      const header = (name: string) => req.headers[name] as string | undefined;
+      send(res, 200, claims.listAll(header('x-claims-admin'), header('x-claims-signature'), header('x-claims-issued')));
+      return;
+    }
+  }
+
+  const decisionMatch = /^\/claims\/([0-9a-f-]{36})\/decision$/.exec(url.pathname);
+  if (req.method === 'POST' && decisionMatch) {
+    send(res, 200, claims.decide(decisionMatch[1], await readJson(req)));
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+};
+
+const server = http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    if (error instanceof RelayError) {
+      send(res, error.status, { error: error.message, code: error.code, ...error.details });
+      return;
+    }
+    console.error('Relay failed:', error);
+    send(res, 502, { error: 'Could not submit the transaction' });
+  });
+});
+
+server.listen(config.port, () => {
+  console.log(`Relayer ${relayer.address} listening on http://localhost:${config.port}`);
+  console.log(`Forwarder ${config.forwarderAddress}, review contract ${config.reviewContractAddress}`);
+  console.log(`Quota: ${config.dailyQuota} relayed transactions per address per day`);
+  console.log(`Claims: ${config.claimsFile}, ${config.claimAdmins.length} claim admin(s)`);
+});
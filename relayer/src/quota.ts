@@ -0,0 +1,33 @@
+// Sliding-window count of relayed transactions per address, kept in memory
+export interface QuotaTracker {
+  remaining: (address: string) => number;
+  // Seconds until the oldest use in the window expires, 0 when there is nothing to wait for
+  retryAfter: (address: string) => number;
+  consume: (address: string) => void;
+}
+
+export const createQuotaTracker = (limit: number, windowMs: number): QuotaTracker => {
+  const usage = new Map<string, number[]>();
+
+  const recent = (address: string) => {
+    const cutoff = Date.now() - windowMs;
+    const key = address.toLowerCase();
+    const timestamps = (usage.get(key) || []).filter(timestamp => timestamp > cutoff);
+    usage.set(key, timestamps);
+    return timestamps;
+  };
+
+  return {
+    remaining: address => Math.max(0, limit - recent(address).length),
+
+    retryAfter: address => {
+      const timestamps = recent(address);
+      if (timestamps.length < limit) return 0;
+      return Math.ceil((timestamps[0] + windowMs - Date.now()) / 1000);
+    },
+
+    consume: address => {
+      recent(address).push(Date.now());
+    },
+  };
+};
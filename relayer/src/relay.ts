@@ -0,0 +1,237 @@
+import { ethers } from 'ethers';
+import { RelayerConfig } from './config';
+import { createQuotaTracker } from './quota';
+import { ContractLimits, LIMIT_CONSTANTS, ReviewLimits, getReviewLimits, validateReview } from '../../src/utils/reviewSchema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Extra gas for the forwarder's own signature check and bookkeeping around the inner call
+const FORWARDER_OVERHEAD_GAS = BigInt(60000);
+
+const FORWARDER_ABI = [
+  'function getNonce(address from) view returns (uint256)',
+  'function verify((address from, address to, uint256 value, uint256 gas, uint256 nonce, bytes data) req, bytes signature) view returns (bool)',
+  'function execute((address from, address to, uint256 value, uint256 gas, uint256 nonce, bytes data) req, bytes signature) payable returns (bool, bytes)',
+];
+
+// Review contract reads for the first-review check
+const REVIEWER_ABI = ['function userReviewCount(address user) view returns (uint256)'];
+
+// Key for the one quota window shared by every new reviewer
+const NEW_REVIEWERS = 'new-reviewers';
+
+// The review contract calls users may make without gas
+const RELAYABLE_ABI = [
+  'function addReview(bytes32 businessId, uint8 rating, string comment, string[] tags, string[] imageHashes)',
+  'function updateReview(bytes32 businessId, uint8 rating, string comment, string[] tags)',
+  'function voteReview(bytes32 businessId, address reviewer, bool isUpvote)',
+  'function clearVote(bytes32 businessId, address reviewer)',
+  'function addOwnerResponse(bytes32 businessId, address reviewer, string response)',
+];
+
+export type RelayErrorCode = 'invalid' | 'quota' | 'rejected';
+
+export class RelayError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: RelayErrorCode,
+    readonly details: { retryAfter?: number; revertData?: string } = {}
+  ) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+// Request bodies are untrusted JSON: anything other than an object reads as one without fields
+export const fieldsOf = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+
+interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  nonce: bigint;
+  data: string;
+}
+
+// Every forward request field travels as a string: addresses, hex data and decimal amounts
+const requireString = (value: unknown): string => {
+  if (typeof value !== 'string') throw new TypeError('Expected a string');
+  return value;
+};
+
+// Check the body's shape and turn its decimal strings into numbers
+const parseRequest = (body: unknown): { request: ForwardRequest; signature: string } => {
+  const { request, signature } = fieldsOf(body);
+  if (!request || typeof signature !== 'string' || !ethers.isHexString(signature)) {
+    throw new RelayError('Expected { request, signature }', 400, 'invalid');
+  }
+  const { from, to, value, gas, nonce, data } = fieldsOf(request);
+  try {
+    return {
+      request: {
+        from: ethers.getAddress(requireString(from)),
+        to: ethers.getAddress(requireString(to)),
+        value: BigInt(requireString(value)),
+        gas: BigInt(requireString(gas)),
+        nonce: BigInt(requireString(nonce)),
+        data: ethers.hexlify(requireString(data)),
+      },
+      signature,
+    };
+  } catch {
+    throw new RelayError('Malformed forward request', 400, 'invalid');
+  }
+};
+
+export const createRelayer = (config: RelayerConfig) => {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const wallet = new ethers.Wallet(config.privateKey, provider);
+  const forwarder = new ethers.Contract(config.forwarderAddress, FORWARDER_ABI, wallet);
+  const relayable = new ethers.Interface(RELAYABLE_ABI);
+  const quota = createQuotaTracker(config.dailyQuota, DAY_MS);
+  const newReviewers = createQuotaTracker(config.dailyNewReviewers, DAY_MS);
+  const reviewContract = ethers.getAddress(config.reviewContractAddress);
+  const reviewReader = new ethers.Contract(reviewContract, REVIEWER_ABI, provider);
+  const limitFields = Object.keys(LIMIT_CONSTANTS) as (keyof typeof LIMIT_CONSTANTS)[];
+  const limitsContract = new ethers.Contract(
+    reviewContract,
+    limitFields.map(field => `function ${LIMIT_CONSTANTS[field]}() view returns (uint256)`),
+    provider
+  );
+
+  // One transaction at a time, so the relayer's own nonces never collide
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Only pay for calls to the review contract that we agreed to sponsor
+  const checkPolicy = (request: ForwardRequest) => {
+    if (request.to !== reviewContract) {
+      throw new RelayError('Requests may only target the review contract', 403, 'rejected');
+    }
+    if (request.value !== BigInt(0)) {
+      throw new RelayError('Relayed requests cannot send ETH', 403, 'rejected');
+    }
+    if (request.gas > config.maxGas) {
+      throw new RelayError(`Requested gas exceeds ${config.maxGas}`, 403, 'rejected');
+    }
+    if (!relayable.getFunction(request.data.slice(0, 10))) {
+      throw new RelayError('Only reviews, votes and owner responses are relayed', 403, 'rejected');
+    }
+  };
+
+  // The deployed contract's limits, read once; the provider sends the calls as one JSON-RPC batch.
+  // Only V2 trusts the forwarder, so its table is the fallback
+  let limits: Promise<ReviewLimits> | null = null;
+  const getLimits = () => {
+    if (!limits) {
+      limits = Promise.all(limitFields.map(field => limitsContract.getFunction(LIMIT_CONSTANTS[field]).staticCall()))
+        .then(values => {
+          const read: ContractLimits = {};
+          limitFields.forEach((field, index) => {
+            read[field] = Number(values[index]);
+          });
+          return getReviewLimits('v2', 'inline', read);
+        })
+        .catch(error => {
+          console.warn(`Could not read the review limits, using the defaults: ${(error as Error).message}`);
+          // Try again on the next request
+          limits = null;
+          return getReviewLimits('v2', 'inline');
+        });
+    }
+    return limits;
+  };
+
+  // Refuse reviews the contract would reject, with the message the app shows for the same problem
+  const checkReview = async (request: ForwardRequest) => {
+    const call = relayable.parseTransaction({ data: request.data });
+    if (!call || (call.name !== 'addReview' && call.name !== 'updateReview')) return;
+
+    const [, rating, comment, tags, imageHashes] = call.args;
+    const [issue] = validateReview({
+      rating: Number(rating),
+      comment,
+      tags: [...tags],
+      ...(imageHashes ? { imageHashes: [...imageHashes] } : {}),
+    }, await getLimits());
+    if (issue) {
+      throw new RelayError(issue.message, 400, 'invalid');
+    }
+  };
+
+  const checkQuota = (address: string) => {
+    if (quota.remaining(address) === 0) {
+      throw new RelayError('Daily relay quota used up', 429, 'quota', { retryAfter: quota.retryAfter(address) });
+    }
+  };
+
+  /**
+   * The contract lets a first review from an account without ETH through only because our wallet holds
+   * RELAYER_ROLE and pays for it. Fresh keys cost nothing, so a per-address quota can't stop one person posting
+   * as many of them as they like; instead, how many we sponsor a day is capped across all accounts.
+   */
+  const isNewReviewer = async (request: ForwardRequest) => {
+    if (relayable.parseTransaction({ data: request.data })?.name !== 'addReview') return false;
+    const [reviewCount, balance] = await Promise.all([
+      reviewReader.userReviewCount(request.from) as Promise<bigint>,
+      provider.getBalance(request.from),
+    ]);
+    return reviewCount === BigInt(0) && balance === BigInt(0);
+  };
+
+  const checkNewReviewers = () => {
+    if (newReviewers.remaining(NEW_REVIEWERS) === 0) {
+      throw new RelayError('No more first reviews can be sponsored today', 429, 'quota', {
+        retryAfter: newReviewers.retryAfter(NEW_REVIEWERS),
+      });
+    }
+  };
+
+  const relay = async (body: unknown): Promise<{ txHash: string }> => {
+    const { request, signature } = parseRequest(body);
+    checkPolicy(request);
+    await checkReview(request);
+    checkQuota(request.from);
+    const newReviewer = await isNewReviewer(request);
+    if (newReviewer) checkNewReviewers();
+
+    // verify() checks the EIP-712 signature against the signer and their current forwarder nonce
+    if (!(await forwarder.verify(request, signature))) {
+      throw new RelayError('Signature does not match the request or the nonce is stale', 401, 'rejected');
+    }
+
+    // The forwarder doesn't revert when the inner call does, so run it first and refuse failures
+    const [success, returnData] = await forwarder.execute.staticCall(request, signature);
+    if (!success) {
+      throw new RelayError('The review contract rejected the request', 422, 'rejected', { revertData: returnData });
+    }
+
+    const tx = await enqueue(async () => {
+      // Checked again in the queue, in case the same address had requests in flight
+      checkQuota(request.from);
+      if (newReviewer) checkNewReviewers();
+      const sent = await forwarder.execute(request, signature, { gasLimit: request.gas + FORWARDER_OVERHEAD_GAS });
+      quota.consume(request.from);
+      if (newReviewer) newReviewers.consume(NEW_REVIEWERS);
+      return sent;
+    });
+    console.log(`Relayed ${request.data.slice(0, 10)} for ${request.from}: ${tx.hash}`);
+
+    return { txHash: tx.hash };
+  };
+
+  const getQuota = (address: string) => ({
+    limit: config.dailyQuota,
+    remaining: quota.remaining(address),
+    retryAfter: quota.retryAfter(address),
+  });
+
+  return { address: wallet.address, provider, relay, getQuota };
+};
@@ -0,0 +1,134 @@
+// Deploys the V2 contract suite to a local Hardhat or Anvil node, seeds it and records
+// the addresses in deployments/localhost.json and, for the frontend, .env.development.local
+// Usage: npm run deploy:local (expects a node on http://127.0.0.1:8545)
+const { ethers, upgrades, network } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+const { seedLocalChain } = require("./seed-local");
+
+const DEPLOYMENT_FILE = path.join(__dirname, "..", "deployments", "localhost.json");
+const ENV_FILE = path.join(__dirname, "..", ".env.development.local");
+const ENV_KEY = "REACT_APP_LOCAL_DEPLOYMENT";
+const LOCALHOST_CHAIN_ID = 31337;
+
+const deploy = async (name, args = []) => {
+  const contract = await ethers.deployContract(name, args);
+  await contract.waitForDeployment();
+  console.log(`${name} deployed to:`, await contract.getAddress());
+  return contract;
+};
+
+// Replaces the deployment line of the env file `npm start` loads, keeping any other lines.
+// The JSON is single-quoted, with ' and $ escaped so dotenv and dotenv-expand leave it alone
+const writeEnvDeployment = (deployment) => {
+  const value = JSON.stringify(deployment).replace(/'/g, "\\u0027").replace(/\$/g, "\\u0024");
+  const lines = fs.existsSync(ENV_FILE)
+    ? fs.readFileSync(ENV_FILE, "utf8").split("\n").filter(line => line && !line.startsWith(`${ENV_KEY}=`))
+    : [];
+  fs.writeFileSync(ENV_FILE, [...lines, `${ENV_KEY}='${value}'`].join("\n") + "\n");
+};
+
+// The block a contract was created in, so the frontend's event sync starts there
+const deployBlockOf = async (contract) => {
+  const receipt = await contract.deploymentTransaction().wait();
+  return receipt.blockNumber;
+};
+
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  if (Number(chainId) !== LOCALHOST_CHAIN_ID) {
+    throw new Error(`Expected the local chain (${LOCALHOST_CHAIN_ID}), connected to ${chainId} on ${network.name}`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying with account:", deployer.address);
+
+  // Deploy order matters due to dependencies
+  const rewardToken = await deploy("RewardToken", [deployer.address, deployer.address]);
+  const userProfile = await deploy("UserProfile", [deployer.address]);
+  const reputationEngine = await deploy("ReputationEngine");
+  const gameFi = await deploy("GameFi");
+  const reviewForwarder = await deploy("ReviewForwarder");
+
+  // YelpReviewV2 is UUPS upgradeable and disables initializers on the implementation, so it runs behind a proxy.
+  // The trusted forwarder is an immutable set in the implementation's constructor
+  const YelpReviewV2 = await ethers.getContractFactory("YelpReviewV2");
+  const yelpReviewV2 = await upgrades.deployProxy(
+    YelpReviewV2,
+    [await userProfile.getAddress(), await gameFi.getAddress(), await reputationEngine.getAddress()],
+    {
+      kind: "uups",
+      initializer: "initialize",
+      constructorArgs: [await reviewForwarder.getAddress()],
+      unsafeAllow: ["constructor", "state-variable-immutable"]
+    }
+  );
+  await yelpReviewV2.waitForDeployment();
+  console.log("YelpReviewV2 deployed to:", await yelpReviewV2.getAddress());
+
+  const addresses = {
+    RewardToken: await rewardToken.getAddress(),
+    UserProfile: await userProfile.getAddress(),
+    ReputationEngine: await reputationEngine.getAddress(),
+    GameFi: await gameFi.getAddress(),
+    ReviewForwarder: await reviewForwarder.getAddress(),
+    YelpReviewV2: await yelpReviewV2.getAddress()
+  };
+
+  // Configure contract interactions
+  console.log("\nConfiguring contract interactions...");
+  await (await userProfile.setContracts(addresses.YelpReviewV2, addresses.GameFi)).wait();
+  await (await reputationEngine.setContracts(addresses.YelpReviewV2, addresses.GameFi, addresses.UserProfile)).wait();
+  await (await gameFi.setReviewContract(addresses.YelpReviewV2)).wait();
+  await (await rewardToken.setContracts(addresses.YelpReviewV2, addresses.GameFi)).wait();
+
+  // Grant necessary roles
+  console.log("Granting roles...");
+  await (await rewardToken.grantRole(await rewardToken.DISTRIBUTOR_ROLE(), addresses.GameFi)).wait();
+  await (await reputationEngine.grantRole(await reputationEngine.UPDATER_ROLE(), addresses.YelpReviewV2)).wait();
+  await (await gameFi.grantRole(await gameFi.REVIEWER_CONTRACT_ROLE(), addresses.YelpReviewV2)).wait();
+  // The gasless relayer may sponsor first reviews from accounts without ETH
+  if (process.env.RELAYER_ADDRESS) {
+    await (await yelpReviewV2.grantRole(await yelpReviewV2.RELAYER_ROLE(), process.env.RELAYER_ADDRESS)).wait();
+  }
+
+  const seed = await seedLocalChain({ ethers, yelpReviewV2 });
+
+  const deployment = {
+    chainId: LOCALHOST_CHAIN_ID,
+    deployedAt: new Date().toISOString(),
+    contracts: {
+      // The V1 contract's source isn't part of this repository, so local mode runs V2 only
+      YelpReview: { address: "", deployBlock: 0 },
+      YelpReviewV2: { address: addresses.YelpReviewV2, deployBlock: await deployBlockOf(yelpReviewV2) },
+      UserProfile: { address: addresses.UserProfile, deployBlock: await deployBlockOf(userProfile) },
+      GameFi: { address: addresses.GameFi, deployBlock: await deployBlockOf(gameFi) },
+      ReputationEngine: { address: addresses.ReputationEngine, deployBlock: await deployBlockOf(reputationEngine) },
+      RewardToken: { address: addresses.RewardToken, deployBlock: await deployBlockOf(rewardToken) },
+      ReviewForwarder: { address: addresses.ReviewForwarder, deployBlock: await deployBlockOf(reviewForwarder) }
+    },
+    businesses: seed.businessIds
+  };
+
+  fs.mkdirSync(path.dirname(DEPLOYMENT_FILE), { recursive: true });
+  fs.writeFileSync(DEPLOYMENT_FILE, JSON.stringify(deployment, null, 2) + "\n");
+  writeEnvDeployment(deployment);
+
+  console.log("\n✅ Local deployment complete!");
+  console.log(`Deployment info saved to ${path.relative(process.cwd(), DEPLOYMENT_FILE)}`);
+  console.log(`Set ${ENV_KEY} in ${path.relative(process.cwd(), ENV_FILE)}; restart \`npm start\` to pick it up`);
+
+  console.log("\n📋 Test Accounts (import their keys from the node output):");
+  console.log("========================");
+  console.log(`Admin / moderator: ${deployer.address}`);
+  console.log(`Business owner:    ${seed.accounts.owner}`);
+  seed.accounts.reviewers.forEach((address, index) => console.log(`Reviewer ${index + 1}:        ${address}`));
+  console.log("========================");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
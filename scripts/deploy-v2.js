@@ -15,6 +15,7 @@ async function main() {
     "UserProfile", 
     "ReputationEngine",
     "GameFi",
+    "ReviewForwarder",
     "YelpReviewV2"
   ];
   
@@ -54,10 +55,18 @@ async function main() {
   deployedContracts.GameFi = gameFi.address;
   console.log("GameFi deployed to:", gameFi.address);
   
-  // 5. Deploy YelpReviewV2 (Main Contract)
-  console.log("\n5. Deploying YelpReviewV2...");
+  // 5. Deploy ReviewForwarder (trusted forwarder for gasless meta-transactions)
+  console.log("\n5. Deploying ReviewForwarder...");
+  const ReviewForwarder = await ethers.getContractFactory("ReviewForwarder");
+  const reviewForwarder = await ReviewForwarder.deploy();
+  await reviewForwarder.deployed();
+  deployedContracts.ReviewForwarder = reviewForwarder.address;
+  console.log("ReviewForwarder deployed to:", reviewForwarder.address);
+  
+  // 6. Deploy YelpReviewV2 (Main Contract)
+  console.log("\n6. Deploying YelpReviewV2...");
   const YelpReviewV2 = await ethers.getContractFactory("YelpReviewV2");
-  const yelpReviewV2 = await YelpReviewV2.deploy();
+  const yelpReviewV2 = await YelpReviewV2.deploy(reviewForwarder.address);
   await yelpReviewV2.deployed();
   
   // Initialize the upgradeable contract
@@ -71,7 +80,7 @@ async function main() {
   console.log("YelpReviewV2 deployed to:", yelpReviewV2.address);
   
   // Configure contract interactions
-  console.log("\n6. Configuring contract interactions...");
+  console.log("\n7. Configuring contract interactions...");
   
   // Set contracts in UserProfile
   await userProfile.setContracts(yelpReviewV2.address, gameFi.address);
@@ -94,7 +103,7 @@ async function main() {
   console.log("RewardToken contracts configured");
   
   // Grant necessary roles
-  console.log("\n7. Granting roles...");
+  console.log("\n8. Granting roles...");
   
   // Grant DISTRIBUTOR_ROLE to GameFi in RewardToken
   const DISTRIBUTOR_ROLE = await rewardToken.DISTRIBUTOR_ROLE();
@@ -111,6 +120,13 @@ async function main() {
   await gameFi.grantRole(REVIEWER_CONTRACT_ROLE, yelpReviewV2.address);
   console.log("Granted REVIEWER_CONTRACT_ROLE to YelpReviewV2");
   
+  // Let the gasless relayer sponsor first reviews from accounts without ETH
+  if (process.env.RELAYER_ADDRESS) {
+    const RELAYER_ROLE = await yelpReviewV2.RELAYER_ROLE();
+    await yelpReviewV2.grantRole(RELAYER_ROLE, process.env.RELAYER_ADDRESS);
+    console.log("Granted RELAYER_ROLE to", process.env.RELAYER_ADDRESS);
+  }
+  
   // Save deployment addresses
   const deploymentInfo = {
     network: (await ethers.provider.getNetwork()).name,
@@ -182,8 +198,10 @@ function getConstructorArgs(contractName, deployedContracts) {
       return [];
     case "GameFi":
       return [];
+    case "ReviewForwarder":
+      return [];
     case "YelpReviewV2":
-      return []; // Upgradeable proxy
+      return [deployedContracts.ReviewForwarder]; // trusted forwarder
     default:
       return [];
   }
@@ -0,0 +1,235 @@
+// Generates typed ethers v6 bindings for every ABI in src/config/abis
+// Usage: npm run generate:bindings
+const fs = require("fs");
+const path = require("path");
+
+const ABI_DIR = path.join(__dirname, "..", "src", "config", "abis");
+const OUT_DIR = path.join(__dirname, "..", "src", "types", "contracts");
+
+// Members of ethers' BaseContract that a generated method must not shadow
+const RESERVED_NAMES = new Set([
+  "target", "interface", "runner", "filters", "fallback", "connect", "attach",
+  "getAddress", "getDeployedCode", "waitForDeployment", "deploymentTransaction",
+  "getFunction", "getEvent", "queryTransaction", "queryFilter", "on", "once",
+  "emit", "listenerCount", "listeners", "off", "removeAllListeners",
+  "addListener", "removeListener",
+]);
+
+const HEADER = (source) =>
+  `// Generated by scripts/generate-bindings.js${source ? ` from ${source}` : ""} - do not edit by hand\n`;
+
+// "struct YelpReviewV2.Review" -> "Review"
+const structName = (param) => {
+  const match = /^struct (?:\w+\.)?(\w+)/.exec(param.internalType || "");
+  return match ? match[1] : null;
+};
+
+const paramName = (param, index) => param.name || `arg${index}`;
+
+const collectStructs = (params, structs, direction) => {
+  for (const param of params || []) {
+    const name = structName(param);
+    if (name && param.components) {
+      const entry = structs.get(name) || { components: param.components, input: false, output: false };
+      entry[direction] = true;
+      structs.set(name, entry);
+    }
+    collectStructs(param.components, structs, direction);
+  }
+};
+
+// Solidity type -> TypeScript type, inputs accept anything ethers can encode
+const inputType = (param) => {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) return `${inputType({ ...param, type: array[1] })}[]`;
+  if (param.type === "tuple") {
+    const name = structName(param);
+    return name ? `${name}Struct` : `{ ${objectFields(param.components, inputType)} }`;
+  }
+  if (param.type === "address") return "AddressLike";
+  if (param.type === "bool") return "boolean";
+  if (param.type === "string") return "string";
+  if (/^u?int\d*$/.test(param.type)) return "BigNumberish";
+  if (/^bytes\d*$/.test(param.type)) return "BytesLike";
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+};
+
+// Solidity type -> TypeScript type as decoded by ethers v6
+const outputType = (param) => {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) return `${outputType({ ...param, type: array[1] })}[]`;
+  if (param.type === "tuple") {
+    const name = structName(param);
+    return name ? `${name}StructOutput` : resultType(param.components);
+  }
+  if (param.type === "bool") return "boolean";
+  if (/^u?int\d*$/.test(param.type)) return "bigint";
+  if (param.type === "address" || param.type === "string" || /^bytes\d*$/.test(param.type)) return "string";
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+};
+
+const objectFields = (params, mapType) =>
+  params.map((param, index) => `${paramName(param, index)}: ${mapType(param)};`).join(" ");
+
+const tupleFields = (params, mapType) =>
+  params.map((param, index) => `${paramName(param, index)}: ${mapType(param)}`).join(", ");
+
+// Decoded results are positional and, where the ABI names them, keyed
+const resultType = (params) => {
+  if (params.every((param) => param.name)) {
+    return `[${tupleFields(params, outputType)}] & { ${objectFields(params, outputType)} }`;
+  }
+  return `[${tupleFields(params, outputType)}]`;
+};
+
+const returnType = (outputs) => {
+  if (!outputs || outputs.length === 0) return "void";
+  if (outputs.length === 1) return outputType(outputs[0]);
+  return resultType(outputs);
+};
+
+// Older ABI encoders only emit the legacy constant/payable flags
+const stateMutability = (fragment) => {
+  const mutability = fragment.stateMutability || (fragment.constant ? "view" : fragment.payable ? "payable" : "nonpayable");
+  return mutability === "pure" ? "view" : mutability;
+};
+
+const signature = (fragment) =>
+  `${fragment.name}(${(fragment.inputs || []).map((input) => input.type).join(",")})`;
+
+const generateContract = (contractName, abiFile, abi) => {
+  const functions = abi.filter((item) => item.type === "function");
+  const events = abi.filter((item) => item.type === "event");
+  const typeName = `${contractName}Contract`;
+
+  const structs = new Map();
+  for (const fragment of functions) {
+    collectStructs(fragment.inputs, structs, "input");
+    collectStructs(fragment.outputs, structs, "output");
+  }
+  for (const fragment of events) {
+    collectStructs(fragment.inputs, structs, "output");
+  }
+
+  const lines = [HEADER(`src/config/abis/${abiFile}`)];
+  lines.push(
+    "import { AddressLike, BaseContract, BigNumberish, BytesLike, Contract, ContractEvent, ContractRunner } from 'ethers';",
+    `import abi from '../../config/abis/${abiFile}';`,
+    "import { TypedContractMethod, TypedListener } from './common';",
+    ""
+  );
+
+  for (const [name, struct] of structs) {
+    if (struct.input) {
+      lines.push(`export interface ${name}Struct {`);
+      struct.components.forEach((param, index) => lines.push(`  ${paramName(param, index)}: ${inputType(param)};`));
+      lines.push("}", "");
+    }
+    if (struct.output) {
+      lines.push(`export type ${name}StructOutput = ${resultType(struct.components)};`, "");
+    }
+  }
+
+  lines.push(`export interface ${contractName}Events {`);
+  for (const fragment of events) {
+    lines.push(`  ${fragment.name}: [${tupleFields(fragment.inputs, outputType)}];`);
+  }
+  lines.push("}", "");
+
+  lines.push(`export interface ${typeName} extends BaseContract {`);
+  const byName = new Map();
+  for (const fragment of functions) {
+    byName.set(fragment.name, [...(byName.get(fragment.name) || []), fragment]);
+  }
+  for (const [name, overloads] of byName) {
+    if (RESERVED_NAMES.has(name)) {
+      console.warn(`Skipping ${contractName}.${name}: shadows a BaseContract member, use getFunction()`);
+      continue;
+    }
+    for (const fragment of overloads) {
+      // Overloaded functions are only reachable by their full signature
+      const key = overloads.length > 1 ? `'${signature(fragment)}'` : name;
+      const mutability = stateMutability(fragment);
+      lines.push(
+        `  ${key}: TypedContractMethod<[${tupleFields(fragment.inputs, inputType)}], ${returnType(fragment.outputs)}, '${mutability}'>;`
+      );
+    }
+  }
+  lines.push("");
+  lines.push("  readonly filters: {");
+  for (const fragment of events) {
+    lines.push(`    ${fragment.name}: ContractEvent<[${tupleFields(fragment.inputs, inputType)}]>;`);
+  }
+  lines.push("  };", "");
+  lines.push(
+    `  on<E extends keyof ${contractName}Events>(event: E, listener: TypedListener<${contractName}Events[E]>): Promise<this>;`,
+    `  once<E extends keyof ${contractName}Events>(event: E, listener: TypedListener<${contractName}Events[E]>): Promise<this>;`,
+    `  off<E extends keyof ${contractName}Events>(event: E, listener?: TypedListener<${contractName}Events[E]>): Promise<this>;`,
+    "}",
+    ""
+  );
+
+  lines.push(
+    `export const connect${contractName} = (address: string, runner?: ContractRunner | null): ${typeName} =>`,
+    `  new Contract(address, abi, runner) as unknown as ${typeName};`,
+    ""
+  );
+
+  return lines.join("\n");
+};
+
+const COMMON = `${HEADER()}import {
+  ContractEventPayload,
+  ContractTransaction,
+  ContractTransactionResponse,
+  FunctionFragment,
+  Overrides,
+  Result,
+} from 'ethers';
+
+export type StateMutability = 'view' | 'nonpayable' | 'payable';
+
+// Every method accepts transaction overrides as an optional trailing argument
+export type MethodArgs<A extends any[]> = A | [...A, Overrides];
+
+export interface TypedContractMethod<A extends any[], R, S extends StateMutability> {
+  (...args: MethodArgs<A>): Promise<S extends 'view' ? R : ContractTransactionResponse>;
+  name: string;
+  fragment: FunctionFragment;
+  getFragment(...args: MethodArgs<A>): FunctionFragment;
+  populateTransaction(...args: MethodArgs<A>): Promise<ContractTransaction>;
+  staticCall(...args: MethodArgs<A>): Promise<R>;
+  staticCallResult(...args: MethodArgs<A>): Promise<Result>;
+  send(...args: MethodArgs<A>): Promise<ContractTransactionResponse>;
+  estimateGas(...args: MethodArgs<A>): Promise<bigint>;
+}
+
+// Decoded return type of a method, e.g. for batched reads that bypass the method itself
+export type MethodOutput<M> = M extends TypedContractMethod<any, infer R, any> ? R : never;
+
+// Listeners receive the decoded event arguments followed by the raw payload
+export type TypedListener<A extends any[]> = (...args: [...A, ContractEventPayload]) => void;
+`;
+
+function main() {
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  fs.writeFileSync(path.join(OUT_DIR, "common.ts"), COMMON);
+
+  const exports = [];
+  for (const abiFile of fs.readdirSync(ABI_DIR).filter((file) => file.endsWith(".json")).sort()) {
+    const contractName = path.basename(abiFile, ".json");
+    const abi = JSON.parse(fs.readFileSync(path.join(ABI_DIR, abiFile), "utf8"));
+    fs.writeFileSync(path.join(OUT_DIR, `${contractName}.ts`), generateContract(contractName, abiFile, abi));
+    // Struct types share names across contracts, so they are imported from each contract's module
+    exports.push(
+      `export type { ${contractName}Contract, ${contractName}Events } from './${contractName}';`,
+      `export { connect${contractName} } from './${contractName}';`
+    );
+    console.log(`Generated bindings for ${contractName}`);
+  }
+
+  const index = [HEADER(), "export * from './common';", ...exports].join("\n");
+  fs.writeFileSync(path.join(OUT_DIR, "index.ts"), `${index}\n`);
+}
+
+main();
@@ -0,0 +1,120 @@
+// One-command local mode: starts a Hardhat node (unless one is already running on
+// 127.0.0.1:8545, e.g. Anvil), deploys and seeds the contracts, starts the gasless relayer
+// when its dependencies are installed, then starts the app on LOCALHOST
+// Usage: npm run local
+const { spawn } = require("child_process");
+const { Wallet } = require("ethers");
+const fs = require("fs");
+const path = require("path");
+
+const RPC_URL = process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545";
+const LOCALHOST_CHAIN_ID = 31337;
+const NODE_START_TIMEOUT_MS = 60000;
+const RELAYER_DIR = path.join(__dirname, "..", "relayer");
+const DEPLOYMENT_FILE = path.join(__dirname, "..", "deployments", "localhost.json");
+
+// Private key of the last default Hardhat/Anvil test account, which the seed data never uses
+const LOCAL_RELAYER_KEY = "0xdf57089febbacf7ba0bc227dafbffa9fc08a93fdc68e1e42411a14efcf23656e";
+const RELAYER_KEY = process.env.RELAYER_PRIVATE_KEY || LOCAL_RELAYER_KEY;
+
+const children = [];
+
+const run = (command, args, options = {}) => {
+  const child = spawn(command, args, { stdio: "inherit", shell: process.platform === "win32", ...options });
+  children.push(child);
+  return child;
+};
+
+const stopAll = () => {
+  for (const child of children) {
+    if (child.exitCode === null) child.kill("SIGINT");
+  }
+};
+
+const getChainId = async () => {
+  try {
+    const response = await fetch(RPC_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] })
+    });
+    const { result } = await response.json();
+    return parseInt(result, 16);
+  } catch {
+    return null;
+  }
+};
+
+const waitForNode = async () => {
+  const deadline = Date.now() + NODE_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const chainId = await getChainId();
+    if (chainId !== null) return chainId;
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`No node answered on ${RPC_URL} within ${NODE_START_TIMEOUT_MS / 1000}s`);
+};
+
+const startRelayer = () => {
+  if (!fs.existsSync(path.join(RELAYER_DIR, "node_modules"))) {
+    console.log("Skipping the gasless relayer; run `npm install` in relayer/ to enable it");
+    return;
+  }
+  const { contracts } = JSON.parse(fs.readFileSync(DEPLOYMENT_FILE, "utf8"));
+  console.log("\nStarting the gasless relayer...");
+  run("npm", ["start"], {
+    cwd: RELAYER_DIR,
+    env: {
+      ...process.env,
+      RELAYER_RPC_URL: RPC_URL,
+      RELAYER_PRIVATE_KEY: RELAYER_KEY,
+      FORWARDER_ADDRESS: contracts.ReviewForwarder.address,
+      REVIEW_CONTRACT_ADDRESS: contracts.YelpReviewV2.address
+    }
+  });
+};
+
+const waitForExit = (child) =>
+  new Promise((resolve, reject) => {
+    child.on("exit", code => (code === 0 ? resolve() : reject(new Error(`${child.spawnargs.join(" ")} exited with ${code}`))));
+  });
+
+async function main() {
+  if ((await getChainId()) === null) {
+    console.log("Starting Hardhat node...");
+    run("npx", ["hardhat", "node"], { stdio: ["ignore", "ignore", "inherit"] });
+  } else {
+    console.log(`Using the node already running on ${RPC_URL}`);
+  }
+
+  const chainId = await waitForNode();
+  if (chainId !== LOCALHOST_CHAIN_ID) {
+    throw new Error(`The node on ${RPC_URL} is chain ${chainId}, expected ${LOCALHOST_CHAIN_ID}`);
+  }
+
+  // The deployment grants the relayer's wallet RELAYER_ROLE
+  await waitForExit(run("npx", ["hardhat", "run", "scripts/deploy-local.js", "--network", "localhost"], {
+    env: { ...process.env, RELAYER_ADDRESS: new Wallet(RELAYER_KEY).address }
+  }));
+  startRelayer();
+
+  console.log("\nStarting the app on the local chain...");
+  const app = run("npx", ["react-scripts", "start"], {
+    env: { ...process.env, REACT_APP_DEFAULT_CHAIN_ID: String(LOCALHOST_CHAIN_ID) }
+  });
+  await waitForExit(app);
+}
+
+process.on("SIGINT", stopAll);
+process.on("SIGTERM", stopAll);
+
+main()
+  .then(() => {
+    stopAll();
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error);
+    stopAll();
+    process.exit(1);
+  });
@@ -0,0 +1,116 @@
+// Deterministic seed data for the local chain: KENYAN_BUSINESSES plus reviews from the node's test accounts
+// Used by scripts/deploy-local.js; every run produces the same businesses, reviewers, ratings and comments
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const BUSINESSES_SOURCE = path.join(__dirname, "..", "src", "data", "kenyanBusinesses.ts");
+
+// Test accounts 2-9 write reviews; account 0 deploys and account 1 owns the seeded businesses
+const REVIEWER_ACCOUNTS = [2, 3, 4, 5, 6, 7, 8, 9];
+const OWNER_ACCOUNT = 1;
+
+const RATINGS = [5, 4, 5, 3, 4, 2, 5, 4, 1, 4, 5, 3];
+
+const COMMENTS = {
+  1: [
+    "Waited over an hour and the order still came out wrong. Would not come back.",
+    "Staff were dismissive and nobody followed up on my complaint."
+  ],
+  2: [
+    "Decent location but the service was slow and prices felt too high.",
+    "Had high hopes after the recommendations, but it fell short this time."
+  ],
+  3: [
+    "Solid and reliable. Nothing special, but nothing to complain about either.",
+    "Good on a quiet day, crowded and a bit chaotic on weekends."
+  ],
+  4: [
+    "Friendly staff and great value. Parking can be tricky at peak hours.",
+    "Really enjoyed the experience, will be back with friends next month."
+  ],
+  5: [
+    "Absolutely fantastic, one of the best in the city. Highly recommended!",
+    "Everything was spot on, from the welcome at the door to the final bill."
+  ]
+};
+
+const OWNER_RESPONSE = "Thank you for the honest feedback. We have shared it with the team and would love to welcome you back.";
+
+// kenyanBusinesses.ts has no imports, so transpiling it on the fly keeps a single source of truth
+const loadBusinesses = () => {
+  const source = fs.readFileSync(BUSINESSES_SOURCE, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 }
+  });
+  const module = { exports: {} };
+  new Function("module", "exports", outputText)(module, module.exports);
+  return module.exports.KENYAN_BUSINESSES;
+};
+
+// Move the node's clock forward so the next round of reviews clears the contract's cooldown
+const advanceTime = async (provider, seconds) => {
+  await provider.send("evm_increaseTime", [seconds]);
+  await provider.send("evm_mine", []);
+};
+
+const registerBusiness = async (yelpReviewV2, owner, business) => {
+  const tx = await yelpReviewV2
+    .connect(owner)
+    .registerBusiness(business.name, business.category, `${business.location}, ${business.city}`, business.description);
+  const receipt = await tx.wait();
+  const event = receipt.logs
+    .map(log => yelpReviewV2.interface.parseLog(log))
+    .find(parsed => parsed && parsed.name === "BusinessRegistered");
+  return event.args.businessId;
+};
+
+async function seedLocalChain({ ethers, yelpReviewV2 }) {
+  const signers = await ethers.getSigners();
+  const owner = signers[OWNER_ACCOUNT];
+  const reviewers = REVIEWER_ACCOUNTS.map(index => signers[index]);
+  const cooldown = Number(await yelpReviewV2.REVIEW_COOLDOWN());
+  const businesses = loadBusinesses();
+
+  const businessIds = {};
+  let reviewCount = 0;
+  let responseCount = 0;
+
+  console.log(`\nSeeding ${businesses.length} businesses owned by ${owner.address}...`);
+
+  for (const [index, business] of businesses.entries()) {
+    const businessId = await registerBusiness(yelpReviewV2, owner, business);
+    businessIds[business.name] = businessId;
+
+    // Between two and five reviews per business, rotating through the reviewer accounts
+    const count = 2 + (index % 4);
+    for (let k = 0; k < count; k++) {
+      const reviewer = reviewers[(index + k) % reviewers.length];
+      const rating = RATINGS[(index * 3 + k) % RATINGS.length];
+      const comment = COMMENTS[rating][(index + k) % COMMENTS[rating].length];
+      const tags = (business.tags || []).slice(0, 1 + (k % 2));
+
+      await (await yelpReviewV2.connect(reviewer).addReview(businessId, rating, comment, tags, [])).wait();
+      reviewCount++;
+
+      if (rating <= 2) {
+        await (await yelpReviewV2.connect(owner).addOwnerResponse(businessId, reviewer.address, OWNER_RESPONSE)).wait();
+        responseCount++;
+      }
+    }
+
+    await advanceTime(ethers.provider, cooldown + 1);
+  }
+
+  console.log(`Seeded ${reviewCount} reviews and ${responseCount} owner responses`);
+
+  return {
+    businessIds,
+    accounts: {
+      owner: owner.address,
+      reviewers: reviewers.map(reviewer => reviewer.address)
+    }
+  };
+}
+
+module.exports = { seedLocalChain };
@@ -2,12 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useContract } from '../hooks/useContract';
 import { useWallet } from '../hooks/useWallet';
+import { useReviewForm } from '../hooks/useReviewForm';
+import { ImagePicker } from './ImagePicker';
+import { SubRatingsInput } from './SubRatings';
 import { 
-  Star, Upload, X, Plus, Sparkles, Heart, Camera, 
-  Award, MessageSquare, Hash, Image as ImageIcon,
+  Star, X, Plus, Sparkles, Heart, Camera, 
+  Award, MessageSquare, Hash, BarChart3,
   CheckCircle, AlertCircle, Zap, Gift, Shield
 } from 'lucide-react';
-import toast from 'react-hot-toast';
 
 interface AddReviewModernProps {
   businessName: string;
@@ -43,33 +45,26 @@ const MOTIVATIONAL_MESSAGES = [
 ];
 
 export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName, onReviewAdded, isInModal = false }) => {
-  const [rating, setRating] = useState(0);
   const [hoverRating, setHoverRating] = useState(0);
   const [selectedEmoji, setSelectedEmoji] = useState<string | null>(null);
-  const [comment, setComment] = useState('');
-  const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasExistingReview, setHasExistingReview] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
-  const [characterCount, setCharacterCount] = useState(0);
   const [motivationalMessage] = useState(
     MOTIVATIONAL_MESSAGES[Math.floor(Math.random() * MOTIVATIONAL_MESSAGES.length)]
   );
   
-  const { addReview, getReviews } = useContract();
-  const { account } = useWallet();
+  const { getReviews } = useContract();
+  const { account, repository } = useWallet();
+  const {
+    rating, setRating, comment, setComment, commentLength, tags, addTag: addFormTag, removeTag, canAddTag,
+    canAttachImages, images, setImages, dimensions, subRatings, setSubRatings, limits, isValid, isSubmitting, uploadProgress, submit, reset,
+  } = useReviewForm(businessName);
 
   useEffect(() => {
     checkExistingReview();
   }, [businessName, account]);
 
-  useEffect(() => {
-    setCharacterCount(comment.length);
-  }, [comment]);
-
   const checkExistingReview = async () => {
     if (!account || !businessName) return;
     
@@ -85,102 +80,28 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
     setSelectedEmoji(EMOJI_REACTIONS[5 - value]?.emoji || '😊');
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast.error('Image size must be less than 5MB');
-        return;
-      }
-      
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
-
-  const uploadToIPFS = async (file: File): Promise<string> => {
-    console.log('Uploading file to IPFS:', file.name);
-    return 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
-  };
-
   const addTag = (tag: string) => {
-    const trimmedTag = tag.trim();
-    
-    if (!trimmedTag) return;
-    if (tags.length >= 5) {
-      toast.error('Maximum 5 tags allowed');
-      return;
-    }
-    if (trimmedTag.length > 20) {
-      toast.error('Tag must be 20 characters or less');
-      return;
-    }
-    if (tags.includes(trimmedTag)) {
-      toast.error('Tag already added');
-      return;
-    }
-    
-    setTags([...tags, trimmedTag]);
-    setTagInput('');
-  };
-
-  const removeTag = (index: number) => {
-    setTags(tags.filter((_, i) => i !== index));
+    if (addFormTag(tag)) setTagInput('');
   };
 
   const handleQuickTag = (tag: string) => {
-    if (!tags.includes(tag) && tags.length < 5) {
-      setTags([...tags, tag]);
+    if (!tags.includes(tag) && canAddTag) {
+      addFormTag(tag);
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (rating < 1 || rating > 5) {
-      toast.error('Please select a rating');
-      return;
-    }
-    if (!comment.trim()) {
-      toast.error('Please write a comment');
-      return;
-    }
-    if (comment.length > 1000) {
-      toast.error('Comment must be 1000 characters or less');
-      return;
-    }
-    
-    setIsSubmitting(true);
-    
-    try {
-      let imageHash = '';
-      if (imageFile) {
-        imageHash = await uploadToIPFS(imageFile);
-      }
-      
-      await addReview(businessName, rating, comment, tags, imageHash);
-      
+    if (await submit()) {
       setShowSuccess(true);
       setTimeout(() => {
-        setRating(0);
-        setComment('');
-        setTags([]);
-        setImageFile(null);
-        setImagePreview(null);
+        reset();
         setSelectedEmoji(null);
         setShowSuccess(false);
         onReviewAdded();
         checkExistingReview();
       }, 3000);
-      
-    } catch (error) {
-      console.error('Error submitting review:', error);
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -189,7 +110,7 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
     if (rating > 0) progress += 25;
     if (comment.length > 10) progress += 25;
     if (tags.length > 0) progress += 25;
-    if (imageFile) progress += 25;
+    if (images.length > 0) progress += 25;
     return progress;
   };
 
@@ -206,6 +127,7 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
             <h3 className="font-semibold text-green-900">You've Already Reviewed This Business!</h3>
             <p className="text-green-700 text-sm mt-1">
               Thank you for contributing to the community. Each wallet can only review a business once.
+              {repository?.capabilities.editing && ' To change it, use the edit button on your review.'}
             </p>
           </div>
         </div>
@@ -345,6 +267,25 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
           </div>
         </div>
 
+        {/* Sub-ratings */}
+        {dimensions.length > 0 && (
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-purple-100">
+            <label className="block text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <BarChart3 className="w-5 h-5 mr-2 text-purple-500" />
+              Rate the details
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                (Optional)
+              </span>
+            </label>
+            <SubRatingsInput
+              dimensions={dimensions}
+              value={subRatings}
+              onChange={setSubRatings}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
+
         {/* Comment Section */}
         <div className="bg-white rounded-xl p-6 shadow-sm border border-purple-100">
           <label className="block text-lg font-semibold text-gray-800 mb-4 flex items-center justify-between">
@@ -353,16 +294,16 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
               Tell us more
             </span>
             <span className={`text-sm font-normal ${
-              characterCount > 900 ? 'text-red-500' : 'text-gray-500'
+              commentLength > limits.maxCommentLength * 0.9 ? 'text-red-500' : 'text-gray-500'
             }`}>
-              {characterCount}/1000
+              {commentLength}/{limits.maxCommentLength}
             </span>
           </label>
           <textarea
             value={comment}
             onChange={(e) => setComment(e.target.value)}
             rows={5}
-            maxLength={1000}
+            maxLength={limits.maxCommentLength}
             placeholder="What made your visit special? Share details about the food, service, ambiance..."
             className="w-full px-4 py-3 border-2 border-purple-100 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none transition-all"
             required
@@ -386,7 +327,7 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
             <Hash className="w-5 h-5 mr-2 text-blue-500" />
             Add Tags
             <span className="ml-2 text-sm font-normal text-gray-500">
-              ({tags.length}/5)
+              ({tags.length}/{limits.maxTags})
             </span>
           </label>
           
@@ -432,7 +373,7 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={() => handleQuickTag(quickTag.tag)}
-                  disabled={tags.includes(quickTag.tag) || tags.length >= 5}
+                  disabled={tags.includes(quickTag.tag) || !canAddTag}
                   className={`px-3 py-1.5 rounded-full text-sm transition-all ${
                     tags.includes(quickTag.tag)
                       ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
@@ -447,14 +388,14 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
           </div>
 
           {/* Custom tag input */}
-          {tags.length < 5 && (
+          {canAddTag && (
             <div className="flex space-x-2">
               <input
                 type="text"
                 value={tagInput}
                 onChange={(e) => setTagInput(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag(tagInput))}
-                maxLength={20}
+                maxLength={limits.maxTagLength}
                 placeholder="Add custom tag..."
                 className="flex-1 px-4 py-2 border-2 border-purple-100 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               />
@@ -472,67 +413,34 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
         </div>
 
         {/* Image Upload */}
-        <div className="bg-white rounded-xl p-6 shadow-sm border border-purple-100">
-          <label className="block text-lg font-semibold text-gray-800 mb-4 flex items-center">
-            <Camera className="w-5 h-5 mr-2 text-indigo-500" />
-            Add Photo
-            <span className="ml-2 text-sm font-normal text-gray-500">
-              (Optional but helpful!)
-            </span>
-          </label>
-          
-          {!imagePreview ? (
-            <motion.label 
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-purple-300 rounded-xl cursor-pointer bg-gradient-to-br from-purple-50 to-pink-50 hover:from-purple-100 hover:to-pink-100 transition-all"
-            >
-              <Upload className="w-10 h-10 text-purple-500 mb-3" />
-              <span className="text-sm text-gray-700 font-medium">Click to upload image</span>
-              <span className="text-xs text-gray-500 mt-1">Max 5MB • JPG, PNG</span>
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleImageChange}
-                className="hidden"
-              />
-            </motion.label>
-          ) : (
-            <div className="relative group">
-              <img
-                src={imagePreview}
-                alt="Preview"
-                className="w-full h-48 object-cover rounded-xl shadow-lg"
-              />
-              <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent rounded-xl opacity-0 group-hover:opacity-100 transition-opacity" />
-              <motion.button
-                type="button"
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-                onClick={() => {
-                  setImageFile(null);
-                  setImagePreview(null);
-                }}
-                className="absolute top-3 right-3 p-2 bg-red-500 text-white rounded-full hover:bg-red-600 shadow-lg"
-              >
-                <X className="w-5 h-5" />
-              </motion.button>
-              <div className="absolute bottom-3 left-3 flex items-center text-white">
-                <ImageIcon className="w-5 h-5 mr-2" />
-                <span className="text-sm font-medium">Photo added!</span>
-              </div>
-            </div>
-          )}
-        </div>
+        {canAttachImages && (
+          <div className="bg-white rounded-xl p-6 shadow-sm border border-purple-100">
+            <label className="block text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <Camera className="w-5 h-5 mr-2 text-indigo-500" />
+              {limits.maxImages > 1 ? 'Add Photos' : 'Add Photo'}
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                (Optional but helpful!)
+              </span>
+            </label>
+
+            <ImagePicker
+              images={images}
+              onChange={setImages}
+              maxImages={limits.maxImages}
+              businessName={businessName}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
 
         {/* Submit Button */}
         <motion.button
           type="submit"
-          disabled={isSubmitting || rating === 0 || !comment.trim()}
+          disabled={isSubmitting || !isValid}
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
           className={`w-full py-4 rounded-xl font-bold text-lg transition-all shadow-lg flex items-center justify-center space-x-3 ${
-            isSubmitting || rating === 0 || !comment.trim()
+            isSubmitting || !isValid
               ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
               : 'bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:from-purple-700 hover:to-pink-700'
           }`}
@@ -540,7 +448,7 @@ export const AddReviewModern: React.FC<AddReviewModernProps> = ({ businessName,
           {isSubmitting ? (
             <>
               <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white" />
-              <span>Submitting to Blockchain...</span>
+              <span>{uploadProgress !== null ? `Uploading Images ${uploadProgress}%...` : 'Submitting to Blockchain...'}</span>
             </>
           ) : (
             <>
@@ -1,9 +1,11 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { BusinessDetails } from '../data/kenyanBusinesses';
+import { getRatingDimensions } from '../data/ratingDimensions';
+import { SubRatingsSummary } from './SubRatings';
 import { 
   Star, MapPin, Clock, DollarSign, Phone, Globe, 
-  MessageSquare, Award, TrendingUp, Users, Camera
+  MessageSquare, Award, TrendingUp, Users, Camera, BadgeCheck
 } from 'lucide-react';
 
 interface BusinessCardProps {
@@ -13,6 +15,8 @@ interface BusinessCardProps {
   index: number;
   averageRating?: number;
   reviewCount?: number;
+  // Average per rating dimension
+  subRatings?: Record<string, number>;
 }
 
 export const BusinessCard: React.FC<BusinessCardProps> = ({ 
@@ -21,7 +25,8 @@ export const BusinessCard: React.FC<BusinessCardProps> = ({
   onWriteReview,
   index,
   averageRating = 4.2,
-  reviewCount = Math.floor(Math.random() * 50) + 5
+  reviewCount = Math.floor(Math.random() * 50) + 5,
+  subRatings = {}
 }) => {
   const getCategoryColor = (category: string) => {
     const colors: Record<string, string> = {
@@ -94,6 +99,15 @@ export const BusinessCard: React.FC<BusinessCardProps> = ({
             <span className="px-2 py-1 bg-white/20 backdrop-blur rounded-full">
               {business.category}
             </span>
+            {business.isVerified && (
+              <span
+                className="px-2 py-1 bg-blue-500/80 rounded-full font-medium flex items-center"
+                title="The owner staked to verify this business on chain"
+              >
+                <BadgeCheck className="w-3 h-3 mr-1" />
+                Verified
+              </span>
+            )}
             {(business as any).featured && (
               <span className="px-2 py-1 bg-yellow-400/80 text-yellow-900 rounded-full font-medium flex items-center">
                 <Award className="w-3 h-3 mr-1" />
@@ -107,7 +121,7 @@ export const BusinessCard: React.FC<BusinessCardProps> = ({
         <div className="absolute top-4 right-4 bg-white/90 backdrop-blur rounded-xl px-3 py-2 shadow-lg">
           <div className="flex items-center space-x-1">
             <Star className="w-4 h-4 text-yellow-500 fill-current" />
-            <span className="font-bold text-gray-900">{averageRating}</span>
+            <span className="font-bold text-gray-900">{averageRating.toFixed(1)}</span>
             <span className="text-gray-500 text-sm">({reviewCount})</span>
           </div>
         </div>
@@ -120,6 +134,13 @@ export const BusinessCard: React.FC<BusinessCardProps> = ({
           {business.description}
         </p>
 
+        {/* Sub-rating averages */}
+        <SubRatingsSummary
+          scores={subRatings}
+          dimensions={getRatingDimensions(business.category)}
+          className="mb-4"
+        />
+
         {/* Info Grid */}
         <div className="space-y-2 mb-4">
           <div className="flex items-center text-sm text-gray-600">
@@ -1,13 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
-  KENYAN_BUSINESSES, 
   BUSINESS_CATEGORIES, 
   BusinessDetails,
   getBusinessesByCategory,
   searchBusinesses 
 } from '../data/kenyanBusinesses';
 import { BusinessCard } from './BusinessCard';
-import { useContract } from '../hooks/useContract';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { BusinessStats } from '../types';
 import { Search, Filter, MapPin, TrendingUp, Store } from 'lucide-react';
 
 interface BusinessExplorerProps {
@@ -21,48 +22,38 @@ export const BusinessExplorer: React.FC<BusinessExplorerProps> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All Categories');
-  const [filteredBusinesses, setFilteredBusinesses] = useState<BusinessDetails[]>(KENYAN_BUSINESSES);
+  const { businesses: catalog } = useBusinessCatalog();
+  const [filteredBusinesses, setFilteredBusinesses] = useState<BusinessDetails[]>(catalog);
   const [showFilters, setShowFilters] = useState(false);
-  const [businessStats, setBusinessStats] = useState<Map<string, { reviews: number; rating: number }>>(new Map());
-  const { getReviews } = useContract();
+  const { getBusinessStats } = useReviewCache();
 
   // Filter businesses based on search and category
   useEffect(() => {
     let businesses: BusinessDetails[] = [];
     
     if (searchTerm) {
-      businesses = searchBusinesses(searchTerm);
+      businesses = searchBusinesses(searchTerm, catalog);
     } else {
-      businesses = getBusinessesByCategory(selectedCategory);
+      businesses = getBusinessesByCategory(selectedCategory, catalog);
     }
     
     setFilteredBusinesses(businesses);
-  }, [searchTerm, selectedCategory]);
+  }, [searchTerm, selectedCategory, catalog]);
 
-  // Fetch review stats for displayed businesses
-  useEffect(() => {
-    const fetchStats = async () => {
-      const stats = new Map<string, { reviews: number; rating: number }>();
-      
-      for (const business of filteredBusinesses.slice(0, 10)) { // Limit to first 10 for performance
-        try {
-          const reviews = await getReviews(business.name);
-          if (reviews.length > 0) {
-            const avgRating = reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length;
-            stats.set(business.id, { reviews: reviews.length, rating: avgRating });
-          }
-        } catch (error) {
-          console.error(`Error fetching reviews for ${business.name}:`, error);
-        }
+  // Review stats for displayed businesses, read from the local cache
+  const businessStats = useMemo(() => {
+    const statsByName = getBusinessStats(filteredBusinesses.map(b => b.name));
+    const stats = new Map<string, BusinessStats>();
+    filteredBusinesses.forEach(business => {
+      const businessStats = statsByName.get(business.name);
+      if (businessStats) {
+        stats.set(business.id, businessStats);
       }
-      
-      setBusinessStats(stats);
-    };
-
-    fetchStats();
-  }, [filteredBusinesses, getReviews]);
+    });
+    return stats;
+  }, [filteredBusinesses, getBusinessStats]);
 
-  const popularBusinesses = KENYAN_BUSINESSES
+  const popularBusinesses = catalog
     .filter(b => ['Carnivore Restaurant', 'Java House', 'Sarit Centre', 'Nairobi National Park'].includes(b.name))
     .slice(0, 4);
 
@@ -187,6 +178,7 @@ export const BusinessExplorer: React.FC<BusinessExplorerProps> = ({
                   index={0}
                   reviewCount={stats?.reviews}
                   averageRating={stats?.rating}
+                  subRatings={stats?.subRatings}
                 />
               );
             })
@@ -0,0 +1,68 @@
+import React, { useState, useMemo } from 'react';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useUsernames } from '../hooks/useUsernames';
+import { getReviewPhotos } from '../utils/reviews';
+import { ImageLightbox, LightboxImage } from './ImageLightbox';
+import { IpfsImage } from './IpfsImage';
+import { Camera, Star } from 'lucide-react';
+
+interface BusinessPhotosProps {
+  businessName: string;
+}
+
+// Photo tab of a business page: every photo from its reviews, opening in the lightbox
+export const BusinessPhotos: React.FC<BusinessPhotosProps> = ({ businessName }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const { getBusinessReviews } = useReviewCache();
+  const { getUserDisplay } = useUsernames();
+
+  const photos = useMemo(() => getReviewPhotos(getBusinessReviews(businessName)), [getBusinessReviews, businessName]);
+
+  const lightboxImages: LightboxImage[] = photos.map(({ hash, review }) => ({
+    hash,
+    caption: (
+      <div className="flex items-center justify-center space-x-2">
+        <span>{getUserDisplay(review.reviewer)}</span>
+        <span className="flex items-center">
+          {review.rating}
+          <Star className="w-3 h-3 ml-0.5 fill-yellow-400 text-yellow-400" />
+        </span>
+        <span className="text-white/60">{new Date(review.timestamp * 1000).toLocaleDateString()}</span>
+      </div>
+    ),
+  }));
+
+  if (photos.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <Camera className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+        No photos yet. Add some with your review!
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {photos.map(({ hash, review }, index) => (
+          <button
+            key={`${review.reviewer}-${index}`}
+            onClick={() => setOpenIndex(index)}
+            className="aspect-square rounded-lg overflow-hidden bg-gray-100 hover:opacity-90 transition-opacity"
+            title={`Photo by ${getUserDisplay(review.reviewer)}`}
+          >
+            <IpfsImage
+              cid={hash}
+              alt={`${businessName}, ${index + 1} of ${photos.length}`}
+              className="w-full h-full object-cover"
+            />
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && (
+        <ImageLightbox images={lightboxImages} startIndex={openIndex} onClose={() => setOpenIndex(null)} />
+      )}
+    </>
+  );
+};
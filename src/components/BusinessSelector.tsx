@@ -2,29 +2,25 @@ import React, { useState, useEffect } from 'react';
 import { Search, Plus } from 'lucide-react';
 import { useContract } from '../hooks/useContract';
 import { useWallet } from '../hooks/useWallet';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { RegisterBusinessModal } from './RegisterBusinessModal';
 
 interface BusinessSelectorProps {
   selectedBusiness: string;
   onBusinessSelect: (businessName: string) => void;
 }
 
-// Predefined businesses for demo purposes
-const DEMO_BUSINESSES = [
-  'Pizza Palace',
-  'Coffee Corner',
-  'Tech Hub Restaurant',
-  'Green Garden Cafe',
-  'Sunset Sushi Bar',
-];
-
 export const BusinessSelector: React.FC<BusinessSelectorProps> = ({
   selectedBusiness,
   onBusinessSelect,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [businessOwner, setBusinessOwner] = useState<string | null>(null);
+  const [showRegisterModal, setShowRegisterModal] = useState(false);
   const { getBusinessOwner, getBusinessId } = useContract();
-  const { account, userRole } = useWallet();
+  const { account, userRole, repository } = useWallet();
+  const { businesses } = useBusinessCatalog();
+  const businessNames = businesses.map(business => business.name);
 
   useEffect(() => {
     if (selectedBusiness) {
@@ -37,12 +33,17 @@ export const BusinessSelector: React.FC<BusinessSelectorProps> = ({
     setBusinessOwner(owner);
   };
 
-  const filteredBusinesses = DEMO_BUSINESSES.filter(business =>
+  const filteredBusinesses = businessNames.filter(business =>
     business.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // With a registry, new businesses are registered on chain rather than made up by name
+  const canRegister = !!repository?.capabilities.businessRegistry;
+
   const handleCustomBusiness = () => {
-    if (searchTerm && !DEMO_BUSINESSES.includes(searchTerm)) {
+    if (canRegister) {
+      setShowRegisterModal(true);
+    } else if (searchTerm && !businessNames.includes(searchTerm)) {
       onBusinessSelect(searchTerm);
     }
   };
@@ -88,7 +89,9 @@ export const BusinessSelector: React.FC<BusinessSelectorProps> = ({
               className="w-full text-left px-4 py-2 hover:bg-gray-100 rounded flex items-center space-x-2"
             >
               <Plus className="w-4 h-4" />
-              <span>Add "{searchTerm}" as new business</span>
+              <span>
+                {canRegister ? `Register "${searchTerm}" as a new business` : `Add "${searchTerm}" as new business`}
+              </span>
             </button>
           )}
         </div>
@@ -123,6 +126,16 @@ export const BusinessSelector: React.FC<BusinessSelectorProps> = ({
           )}
         </div>
       )}
+
+      <RegisterBusinessModal
+        isOpen={showRegisterModal}
+        onClose={() => setShowRegisterModal(false)}
+        onRegistered={(name) => {
+          setSearchTerm('');
+          onBusinessSelect(name);
+        }}
+        initialName={searchTerm}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useWallet } from '../hooks/useWallet';
+
+interface ChainSelectorProps {
+  className?: string;
+}
+
+// Switches the connected wallet's chain, or the read-only view when no wallet is connected
+export const ChainSelector: React.FC<ChainSelectorProps> = ({ className = '' }) => {
+  const { chainId, supportedChains, switchChain } = useWallet();
+
+  return (
+    <select
+      value={chainId}
+      onChange={(e) => switchChain(Number(e.target.value))}
+      aria-label="Network"
+      className={`bg-transparent text-xs font-medium cursor-pointer focus:outline-none ${className}`}
+    >
+      {supportedChains.map(chain => (
+        <option key={chain.id} value={chain.id} className="text-gray-900">
+          {chain.name}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ClaimContact } from '../types';
+import { X, KeyRound } from 'lucide-react';
+
+interface ClaimBusinessModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessName: string;
+  // Signs and submits the claim; resolves true once the claims service accepted it
+  onSubmit: (contact: ClaimContact, evidence: string) => Promise<boolean>;
+}
+
+export const ClaimBusinessModal: React.FC<ClaimBusinessModalProps> = ({
+  isOpen,
+  onClose,
+  businessName,
+  onSubmit,
+}) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [evidence, setEvidence] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit({ name, email, phone }, evidence)) {
+        setEvidence('');
+        onClose();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none p-4 overflow-y-auto"
+          >
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-2xl shadow-2xl max-w-lg w-full pointer-events-auto my-8"
+            >
+              <div className="flex items-center justify-between p-5 border-b">
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="w-5 h-5 text-purple-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">Claim {businessName}</h2>
+                </div>
+                <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
+
+              <div className="p-5 space-y-4">
+                <p className="text-sm text-gray-600">
+                  Your wallet signs the claim to prove you control this address. Your contact details and
+                  evidence are only shared with the admins who review claims, never published on chain.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Phone (optional)</label>
+                    <input
+                      type="tel"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Evidence of ownership</label>
+                  <textarea
+                    value={evidence}
+                    onChange={(e) => setEvidence(e.target.value)}
+                    placeholder="e.g. business permit number, KRA PIN, or a link to your official website or social page mentioning this address"
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none"
+                    rows={4}
+                    maxLength={2000}
+                    disabled={isSubmitting}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2 p-5 border-t">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                  disabled={isSubmitting || !name.trim() || !email.trim() || !evidence.trim()}
+                >
+                  {isSubmitting ? 'Signing...' : 'Sign and Submit Claim'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useOwnershipClaims } from '../hooks/useOwnershipClaims';
+import { ClaimBusinessModal } from './ClaimBusinessModal';
+import { ClaimStatusBadge } from './ClaimStatusBadge';
+import { KeyRound } from 'lucide-react';
+
+interface ClaimOwnershipButtonProps {
+  businessName: string;
+}
+
+// Lets an owner ask for a business, and shows where their claim stands
+export const ClaimOwnershipButton: React.FC<ClaimOwnershipButtonProps> = ({ businessName }) => {
+  const [showModal, setShowModal] = useState(false);
+  const { account, connectWallet } = useWallet();
+  const { getBusinessOwner } = useReviewCache();
+  const { isAvailable, getMyClaim, submit } = useOwnershipClaims();
+
+  if (!isAvailable) return null;
+
+  const owner = getBusinessOwner(businessName);
+  if (owner && account && owner.toLowerCase() === account.toLowerCase()) return null;
+
+  const claim = getMyClaim(businessName);
+  const canClaim = !claim || claim.status === 'rejected';
+
+  const handleClaim = async () => {
+    if (!account && !(await connectWallet())) return;
+    setShowModal(true);
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      {claim && (
+        <span title={claim.reason}>
+          <ClaimStatusBadge status={claim.status} />
+        </span>
+      )}
+      {canClaim && (
+        <button
+          onClick={handleClaim}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-purple-600 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors"
+        >
+          <KeyRound className="w-4 h-4" />
+          <span>{claim ? 'Claim Again' : 'Own this business?'}</span>
+        </button>
+      )}
+
+      <ClaimBusinessModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        businessName={businessName}
+        onSubmit={(contact, evidence) => submit(businessName, contact, evidence)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { ClaimStatus } from '../types';
+import { Clock, CheckCircle, XCircle } from 'lucide-react';
+
+const STATUS_STYLES: Record<ClaimStatus, { label: string; className: string; icon: typeof Clock }> = {
+  pending: { label: 'Claim pending', className: 'bg-yellow-100 text-yellow-800', icon: Clock },
+  approved: { label: 'Claim approved', className: 'bg-green-100 text-green-700', icon: CheckCircle },
+  rejected: { label: 'Claim rejected', className: 'bg-red-100 text-red-700', icon: XCircle },
+};
+
+export const ClaimStatusBadge: React.FC<{ status: ClaimStatus }> = ({ status }) => {
+  const { label, className, icon: Icon } = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${className}`}>
+      <Icon className="w-3 h-3 mr-1" />
+      {label}
+    </span>
+  );
+};
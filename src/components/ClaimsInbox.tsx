@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useOwnershipClaims } from '../hooks/useOwnershipClaims';
+import { OwnershipClaim } from '../types';
+import { ClaimStatusBadge } from './ClaimStatusBadge';
+import { Inbox, Check, X, Loader2, RefreshCw } from 'lucide-react';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Admin-only: ownership claims waiting for a decision, with the claimant's contact details and evidence
+export const ClaimsInbox: React.FC = () => {
+  const [claims, setClaims] = useState<OwnershipClaim[] | null>(null);
+  const [showDecided, setShowDecided] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const { userRole } = useWallet();
+  const { getBusinessOwner, refresh } = useReviewCache();
+  const { isAvailable, loadInbox, approve, reject } = useOwnershipClaims();
+
+  if (!isAvailable || userRole !== 'admin') return null;
+
+  // Reading the inbox needs a signature, so it loads on request rather than on mount
+  const handleLoad = async () => {
+    setIsLoading(true);
+    try {
+      setClaims(await loadInbox());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApprove = async (claim: OwnershipClaim) => {
+    const owner = getBusinessOwner(claim.businessName);
+    const replaces = owner && owner.toLowerCase() !== claim.claimant.toLowerCase() ? ` This replaces the current owner ${owner}.` : '';
+    if (!window.confirm(`Make ${claim.claimant} the owner of ${claim.businessName}?${replaces}`)) return;
+
+    setDeciding(claim.id);
+    try {
+      if (await approve(claim)) {
+        refresh();
+        await handleLoad();
+      }
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const handleReject = async (claim: OwnershipClaim) => {
+    setDeciding(claim.id);
+    try {
+      if (await reject(claim, reason)) {
+        setRejecting(null);
+        setReason('');
+        await handleLoad();
+      }
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const visible = (claims || []).filter(claim => showDecided || claim.status === 'pending').reverse();
+  const pendingCount = (claims || []).filter(claim => claim.status === 'pending').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Inbox className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold">Ownership Claims</h3>
+          {claims && <span className="text-sm text-gray-500">({pendingCount} pending)</span>}
+        </div>
+        <div className="flex items-center space-x-3">
+          {claims && (
+            <label className="flex items-center space-x-1 text-sm text-gray-600">
+              <input type="checkbox" checked={showDecided} onChange={(e) => setShowDecided(e.target.checked)} />
+              <span>Show decided</span>
+            </label>
+          )}
+          <button
+            onClick={handleLoad}
+            disabled={isLoading}
+            className="px-3 py-1 border rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            <span>{claims ? 'Refresh' : 'Open Inbox'}</span>
+          </button>
+        </div>
+      </div>
+
+      {!claims ? (
+        <p className="text-sm text-gray-500">Opening the inbox asks your wallet to sign in as a claim admin.</p>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No claims waiting for a decision.</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(claim => (
+            <div key={claim.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-gray-900">{claim.businessName}</p>
+                  <p className="text-xs text-gray-500 font-mono">{claim.claimant}</p>
+                </div>
+                <ClaimStatusBadge status={claim.status} />
+              </div>
+
+              {claim.contact && (
+                <p className="text-sm text-gray-700 mt-2">
+                  {claim.contact.name} · <a href={`mailto:${claim.contact.email}`} className="text-purple-700 hover:underline">{claim.contact.email}</a>
+                  {claim.contact.phone && ` · ${claim.contact.phone}`}
+                </p>
+              )}
+              {claim.evidence && <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap bg-gray-50 rounded p-2">{claim.evidence}</p>}
+              <p className="text-xs text-gray-500 mt-2">
+                Submitted {formatDate(claim.submittedAt)}
+                {claim.decidedAt && ` · decided ${formatDate(claim.decidedAt)}`}
+                {claim.reason && ` · ${claim.reason}`}
+              </p>
+
+              {claim.status === 'pending' && (
+                rejecting === claim.id ? (
+                  <div className="flex space-x-2 mt-3">
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Reason, shown to the claimant"
+                      maxLength={500}
+                      className="flex-1 px-3 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                      disabled={deciding === claim.id}
+                    />
+                    <button
+                      onClick={() => handleReject(claim)}
+                      disabled={deciding === claim.id || !reason.trim()}
+                      className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                    <button
+                      onClick={() => setRejecting(null)}
+                      className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded text-sm transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2 mt-3">
+                    <button
+                      onClick={() => handleApprove(claim)}
+                      disabled={!!deciding}
+                      className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      {deciding === claim.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      <span>Approve</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRejecting(claim.id);
+                        setReason('');
+                      }}
+                      disabled={!!deciding}
+                      className="px-3 py-1 border border-red-600 text-red-700 rounded text-sm hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Reject</span>
+                    </button>
+                  </div>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
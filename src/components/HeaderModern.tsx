@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { useWallet } from '../hooks/useWallet';
 import { useUsernames } from '../hooks/useUsernames';
 import { UsernameModal } from './UsernameModal';
+import { ChainSelector } from './ChainSelector';
 import { 
   Wallet, LogOut, Shield, User, Briefcase, ShieldAlert, 
   Sparkles, Star, Globe, Zap, Menu, X, AtSign, Edit2
@@ -84,9 +85,7 @@ export const HeaderModern: React.FC = () => {
                 </span>
                 <div className="flex items-center space-x-1">
                   <Globe className={`w-3 h-3 ${scrolled ? 'text-green-500' : 'text-green-300'}`} />
-                  <span className={`text-xs ${scrolled ? 'text-green-600' : 'text-green-300'} font-medium`}>
-                    Sepolia
-                  </span>
+                  <ChainSelector className={scrolled ? 'text-green-600' : 'text-green-300'} />
                 </div>
               </div>
             </div>
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
+import { useReviewLimits } from '../hooks/useReviewLimits';
+import { hasContentBackend } from '../content';
 import { HelpCircle, ChevronDown, ChevronRight, Shield, Flag, Archive, MessageCircle, Star, Tag } from 'lucide-react';
 
 export const HelpSection: React.FC = () => {
   const [openSection, setOpenSection] = useState<string | null>(null);
+  const limits = useReviewLimits();
 
   const toggleSection = (section: string) => {
     setOpenSection(openSection === section ? null : section);
@@ -16,10 +19,12 @@ export const HelpSection: React.FC = () => {
       content: (
         <div className="space-y-2 text-sm text-gray-600">
           <p>• Each account can only submit one review per business</p>
-          <p>• Reviews must include a rating (1-5 stars) and a non-empty comment</p>
-          <p>• Comments are limited to 1000 characters</p>
-          <p>• You can add up to 5 tags (max 20 characters each)</p>
-          <p>• Optional: Attach an image via IPFS</p>
+          <p>• Reviews must include a rating ({limits.minRating}-{limits.maxRating} stars) and a non-empty comment</p>
+          <p>• Comments are limited to {limits.maxCommentLength} characters</p>
+          <p>• You can add up to {limits.maxTags} tags (max {limits.maxTagLength} characters each)</p>
+          {hasContentBackend && (
+            <p>• Optional: Attach {limits.maxImages > 1 ? `up to ${limits.maxImages} images` : 'an image'} via IPFS</p>
+          )}
           <p>• Reviews are permanent once submitted (but can be archived by admins)</p>
         </div>
       )
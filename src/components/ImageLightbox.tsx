@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence, PanInfo } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useIpfsUrl } from '../hooks/useIpfsUrl';
+
+export interface LightboxImage {
+  hash: string;
+  // Shown under the image, e.g. who posted it
+  caption?: React.ReactNode;
+}
+
+interface ImageLightboxProps {
+  images: LightboxImage[];
+  startIndex: number;
+  onClose: () => void;
+}
+
+// How far a drag has to travel, in pixels, before it counts as a swipe
+const SWIPE_DISTANCE = 80;
+
+// Keyed by the direction of travel; the leaving image reads it through AnimatePresence's custom prop
+const SLIDE = {
+  enter: (direction: number) => ({ x: direction >= 0 ? 300 : -300, opacity: 0 }),
+  center: { x: 0, opacity: 1 },
+  exit: (direction: number) => ({ x: direction >= 0 ? -300 : 300, opacity: 0 }),
+};
+
+// Full-screen viewer for a set of IPFS images: swipe, arrow keys or the side buttons move between them
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, startIndex, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  // Which way the last move went, so the next image slides in from that side
+  const [direction, setDirection] = useState(0);
+
+  const go = useCallback((step: number) => {
+    setDirection(step);
+    setIndex(current => (current + step + images.length) % images.length);
+  }, [images.length]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') go(-1);
+      if (e.key === 'ArrowRight') go(1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [go, onClose]);
+
+  const handleDragEnd = (_: unknown, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_DISTANCE) go(1);
+    else if (info.offset.x > SWIPE_DISTANCE) go(-1);
+  };
+
+  const image = images[index];
+  const { url, error } = useIpfsUrl(image?.hash);
+  if (!image) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center" onClick={onClose}>
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 text-white/80 hover:text-white"
+        title="Close"
+      >
+        <X className="w-6 h-6" />
+      </button>
+
+      <div className="relative w-full max-w-4xl h-[75vh] overflow-hidden" onClick={e => e.stopPropagation()}>
+        <AnimatePresence initial={false} custom={direction}>
+          <motion.img
+            key={index}
+            src={url ?? undefined}
+            alt={`${index + 1} of ${images.length}`}
+            custom={direction}
+            variants={SLIDE}
+            initial="enter"
+            animate="center"
+            exit="exit"
+            transition={{ duration: 0.25 }}
+            drag={images.length > 1 ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.7}
+            onDragEnd={handleDragEnd}
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-contain select-none"
+          />
+        </AnimatePresence>
+        {!url && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm pointer-events-none">
+            {error ? 'This photo could not be loaded from IPFS' : 'Loading...'}
+          </div>
+        )}
+
+        {images.length > 1 && (
+          <>
+            <button
+              onClick={() => go(-1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 text-white rounded-full hover:bg-black/60"
+              title="Previous photo"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button
+              onClick={() => go(1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 text-white rounded-full hover:bg-black/60"
+              title="Next photo"
+            >
+              <ChevronRight className="w-6 h-6" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="mt-4 text-center text-white/90 text-sm space-y-1" onClick={e => e.stopPropagation()}>
+        {image.caption}
+        {images.length > 1 && (
+          <div className="text-white/60">{index + 1} / {images.length}</div>
+        )}
+      </div>
+    </div>
+  );
+};
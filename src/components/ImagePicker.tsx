@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { findDuplicates, getFingerprints, isSimilar, MAX_SOURCE_SIZE, processImage, ProcessedImage } from '../images';
+import { getReviewPhotos } from '../utils/reviews';
+import { Upload, X, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ImagePickerProps {
+  images: ProcessedImage[];
+  onChange: (images: ProcessedImage[]) => void;
+  maxImages: number;
+  // Photos already posted for this business are checked for duplicates
+  businessName: string;
+  disabled?: boolean;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * Thumbnails of the images picked for a review, which can be removed and reordered by dragging or with the arrows.
+ * Picked files go through the image pipeline straight away, so what is shown is exactly what will be published.
+ */
+export const ImagePicker: React.FC<ImagePickerProps> = ({ images, onChange, maxImages, businessName, disabled = false }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Number of files still being processed
+  const [processing, setProcessing] = useState(0);
+  const [fingerprints, setFingerprints] = useState<Map<string, string>>(new Map());
+  const { account } = useWallet();
+  const { reviews, getBusinessReviews } = useReviewCache();
+
+  const previews = useMemo(() => images.map(image => URL.createObjectURL(image.thumbnail)), [images]);
+  useEffect(() => () => previews.forEach(preview => URL.revokeObjectURL(preview)), [previews]);
+
+  // This business's photos, plus the reviewer's own photos anywhere else
+  const publishedKey = useMemo(() => {
+    const own = reviews.filter(review => account && review.reviewer.toLowerCase() === account.toLowerCase());
+    const cids = [...getReviewPhotos(getBusinessReviews(businessName)), ...getReviewPhotos(own)].map(photo => photo.hash);
+    return [...new Set(cids)].join(',');
+  }, [reviews, getBusinessReviews, businessName, account]);
+
+  // Only fetched once there is something to compare
+  const hasImages = images.length > 0;
+  useEffect(() => {
+    if (!hasImages || !publishedKey) return;
+
+    let cancelled = false;
+    getFingerprints(publishedKey.split(',')).then(result => {
+      if (!cancelled) setFingerprints(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hasImages, publishedKey]);
+
+  const duplicates = images.map(image => findDuplicates(image.perceptualHash, fingerprints).length > 0);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Let the same file be picked again after it was removed
+    e.target.value = '';
+
+    const accepted = files.filter(file => file.size <= MAX_SOURCE_SIZE);
+    if (accepted.length < files.length) {
+      toast.error(`Images must be less than ${MAX_SOURCE_SIZE / (1024 * 1024)}MB each`);
+    }
+
+    const room = maxImages - images.length;
+    if (accepted.length > room) {
+      toast.error(`You can attach up to ${maxImages} image${maxImages === 1 ? '' : 's'}`);
+    }
+    const toProcess = accepted.slice(0, Math.max(room, 0));
+    if (toProcess.length === 0) return;
+
+    setProcessing(toProcess.length);
+    const added: ProcessedImage[] = [];
+    for (const file of toProcess) {
+      try {
+        const image = await processImage(file);
+        if ([...images, ...added].some(other => isSimilar(other.perceptualHash, image.perceptualHash))) {
+          toast.error(`${file.name} looks the same as an image you already added`);
+        } else {
+          added.push(image);
+        }
+      } catch (error) {
+        toast.error(`Could not prepare ${file.name}: ${(error as Error).message}`);
+      }
+      setProcessing(count => count - 1);
+    }
+
+    if (added.length > 0) onChange([...images, ...added]);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(images, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const locked = disabled || processing > 0;
+
+  return (
+    <div className="space-y-3">
+      {(images.length > 0 || processing > 0) && (
+        <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+          {previews.map((preview, index) => (
+            <div
+              key={preview}
+              draggable={!locked}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative group aspect-square rounded-lg overflow-hidden shadow ${
+                dragIndex === index ? 'opacity-50' : ''
+              } ${duplicates[index] ? 'ring-2 ring-amber-400' : ''} ${locked ? '' : 'cursor-move'}`}
+            >
+              <img src={preview} alt={`Attachment ${index + 1}`} className="w-full h-full object-cover" />
+              {index === 0 && (
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/60 text-white text-xs rounded">Cover</span>
+              )}
+              {duplicates[index] && (
+                <span
+                  className="absolute bottom-1 left-1 p-1 bg-amber-400 text-white rounded-full group-hover:hidden"
+                  title="Looks like a photo already posted in another review"
+                >
+                  <AlertTriangle className="w-3 h-3" />
+                </span>
+              )}
+              {!locked && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onChange(images.filter((_, i) => i !== index))}
+                    className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
+                    title="Remove image"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                  <div className="absolute bottom-1 inset-x-1 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      type="button"
+                      onClick={() => onChange(moveItem(images, index, index - 1))}
+                      disabled={index === 0}
+                      className="p-1 bg-white/90 rounded-full disabled:invisible"
+                      title="Move earlier"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(moveItem(images, index, index + 1))}
+                      disabled={index === images.length - 1}
+                      className="p-1 bg-white/90 rounded-full disabled:invisible"
+                      title="Move later"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+          {Array.from({ length: processing }, (_, i) => (
+            <div key={`processing-${i}`} className="aspect-square rounded-lg bg-gray-100 animate-pulse flex items-center justify-center">
+              <span className="text-xs text-gray-500">Preparing...</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {duplicates.some(Boolean) && (
+        <p className="flex items-center text-sm text-amber-700">
+          <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+          Highlighted photos look like ones already posted in other reviews. Please only share photos you took.
+        </p>
+      )}
+
+      {images.length + processing < maxImages && !locked && (
+        <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+          <Upload className="w-8 h-8 text-gray-400 mb-2" />
+          <span className="text-sm text-gray-500">
+            {images.length === 0 ? 'Click to upload images' : 'Add more images'}
+          </span>
+          <span className="text-xs text-gray-400">
+            {images.length}/{maxImages} • Location data is removed before upload
+          </span>
+          <input
+            type="file"
+            accept="image/*"
+            multiple={maxImages > 1}
+            onChange={handleFiles}
+            className="hidden"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
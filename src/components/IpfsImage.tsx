@@ -0,0 +1,22 @@
+import React from 'react';
+import { useIpfsUrl } from '../hooks/useIpfsUrl';
+import { ImageOff } from 'lucide-react';
+
+interface IpfsImageProps {
+  cid: string;
+  alt: string;
+  className?: string;
+}
+
+// An image loaded through the gateway resolver, with a placeholder while it loads and if it can't be verified
+export const IpfsImage: React.FC<IpfsImageProps> = ({ cid, alt, className = '' }) => {
+  const { url, error } = useIpfsUrl(cid);
+
+  if (url) return <img src={url} alt={alt} className={className} />;
+
+  return (
+    <div className={`${className} flex items-center justify-center bg-gray-100 ${error ? '' : 'animate-pulse'}`}>
+      {error && <ImageOff className="w-5 h-5 text-gray-400" aria-label={`${alt} could not be loaded`} />}
+    </div>
+  );
+};
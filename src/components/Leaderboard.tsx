@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useContract } from '../hooks/useContract';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { CachedReview } from '../utils/reviewStore';
+import { CONTRACT_FEATURES } from '../config/contractsV2';
 import { useWallet } from '../hooks/useWallet';
 import { useUsernames } from '../hooks/useUsernames';
 import { 
   Trophy, Medal, Award, Crown, Star, TrendingUp, 
   Clock, Calendar, Flame, Zap, Target, Gift,
-  User, ChevronUp, ChevronDown, Timer, Edit2
+  User, ChevronUp, ChevronDown, Timer, Edit2, ThumbsUp
 } from 'lucide-react';
 import { KENYAN_BUSINESSES } from '../data/kenyanBusinesses';
 import { UsernameModal } from './UsernameModal';
@@ -15,6 +17,8 @@ interface ReviewerStats {
   address: string;
   reviewCount: number;
   averageRating: number;
+  // Upvotes other readers gave this reviewer's reviews
+  helpfulVotes: number;
   totalScore: number;
   streak: number;
   badges: string[];
@@ -32,6 +36,7 @@ const BADGES = {
   explorer: { icon: '🗺️', name: 'Explorer', description: 'Reviewed 10+ businesses' },
   photographer: { icon: '📸', name: 'Photographer', description: 'Added 5+ photos' },
   helpful: { icon: '💪', name: 'Helpful', description: 'Detailed reviews' },
+  popular: { icon: '👍', name: 'Popular Critic', description: '50+ helpful votes' },
   champion: { icon: '🏆', name: 'Champion', description: 'Top reviewer' },
   rising: { icon: '📈', name: 'Rising Star', description: 'Fast growing' },
 };
@@ -55,6 +60,7 @@ const generateMockLeaderboard = (): ReviewerStats[] => {
     address,
     reviewCount: Math.floor(Math.random() * 50) + 10,
     averageRating: +(Math.random() * 2 + 3).toFixed(1),
+    helpfulVotes: Math.floor(Math.random() * 80),
     totalScore: Math.floor(Math.random() * 5000) + 1000,
     streak: Math.floor(Math.random() * 30) + 1,
     badges: Object.keys(BADGES).slice(0, Math.floor(Math.random() * 4) + 1),
@@ -64,6 +70,77 @@ const generateMockLeaderboard = (): ReviewerStats[] => {
   })).sort((a, b) => b.totalScore - a.totalScore);
 };
 
+const TIME_FILTER_SECONDS: Record<TimeFilter, number> = {
+  today: 86400,
+  week: 7 * 86400,
+  month: 30 * 86400,
+  all: Infinity,
+};
+
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`.toLowerCase();
+
+// Longest run of consecutive days (ending on the latest review day) with at least one review
+const calculateStreak = (timestamps: number[]) => {
+  const days = Array.from(new Set(timestamps.map(t => Math.floor(t / 86400)))).sort((a, b) => b - a);
+  let streak = days.length > 0 ? 1 : 0;
+  for (let i = 1; i < days.length && days[i - 1] - days[i] === 1; i++) {
+    streak++;
+  }
+  return streak;
+};
+
+// Aggregate cached on-chain reviews into leaderboard rows
+const buildLeaderboard = (reviews: CachedReview[], timeFilter: TimeFilter): ReviewerStats[] => {
+  const since = Date.now() / 1000 - TIME_FILTER_SECONDS[timeFilter];
+  const byReviewer = new Map<string, CachedReview[]>();
+
+  reviews
+    .filter(r => !r.isArchived && r.timestamp >= since)
+    .forEach(review => {
+      const key = review.reviewer.toLowerCase();
+      byReviewer.set(key, [...(byReviewer.get(key) || []), review]);
+    });
+
+  return Array.from(byReviewer.entries())
+    .map(([reviewer, reviewerReviews]) => {
+      const timestamps = reviewerReviews.map(r => r.timestamp);
+      const totalStars = reviewerReviews.reduce((sum, r) => sum + r.rating, 0);
+      const photos = reviewerReviews.filter(r => r.imageHash).length;
+      const detailed = reviewerReviews.filter(r => r.comment.length > 200).length;
+      const upvotes = reviewerReviews.reduce((sum, r) => sum + (r.upvotes ?? 0), 0);
+      const badges = [
+        reviewerReviews.length >= 5 && 'consistent',
+        new Set(reviewerReviews.map(r => r.businessId)).size >= 10 && 'explorer',
+        photos >= 5 && 'photographer',
+        detailed >= 3 && 'helpful',
+        upvotes >= 50 && 'popular',
+      ].filter(Boolean) as string[];
+
+      return {
+        address: shortenAddress(reviewer),
+        reviewCount: reviewerReviews.length,
+        averageRating: +(totalStars / reviewerReviews.length).toFixed(1),
+        helpfulVotes: upvotes,
+        totalScore: reviewerReviews.length * CONTRACT_FEATURES.gamification.pointsPerReview +
+          totalStars * CONTRACT_FEATURES.gamification.pointsPerRatingStar +
+          photos * CONTRACT_FEATURES.gamification.pointsPerPhoto +
+          upvotes * CONTRACT_FEATURES.gamification.pointsPerUpvote,
+        streak: calculateStreak(timestamps),
+        badges,
+        rank: 0,
+        movement: 'same' as const,
+        lastReviewTime: Math.max(...timestamps) * 1000,
+      };
+    })
+    .sort((a, b) => b.totalScore - a.totalScore)
+    .map((stats, index) => ({
+      ...stats,
+      rank: index + 1,
+      badges: index === 0 ? ['champion', ...stats.badges] : stats.badges,
+    }));
+};
+
 export const Leaderboard: React.FC = () => {
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
   const [leaderboardData, setLeaderboardData] = useState<ReviewerStats[]>([]);
@@ -71,26 +148,24 @@ export const Leaderboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [showUsernameModal, setShowUsernameModal] = useState(false);
   const { account } = useWallet();
-  const { getReviews } = useContract();
+  const { reviews } = useReviewCache();
   const { getUserDisplay, currentUsername } = useUsernames();
 
   useEffect(() => {
     fetchLeaderboardData();
-  }, [timeFilter]);
+  }, [timeFilter, reviews]);
 
   const fetchLeaderboardData = async () => {
     setLoading(true);
     
-    // In production, this would aggregate data from the blockchain
-    // For demo, using mock data
-    const mockData = generateMockLeaderboard();
-    setLeaderboardData(mockData);
+    // Aggregate from the local review cache; fall back to demo data until reviews exist
+    const cachedData = buildLeaderboard(reviews, timeFilter);
+    const data = cachedData.length > 0 ? cachedData : generateMockLeaderboard();
+    setLeaderboardData(data);
     
     // Find user's rank if connected
     if (account) {
-      const userIndex = mockData.findIndex(
-        r => r.address.toLowerCase() === account.slice(0, 6).toLowerCase() + '...' + account.slice(-4).toLowerCase()
-      );
+      const userIndex = data.findIndex(r => r.address.toLowerCase() === shortenAddress(account));
       setUserRank(userIndex >= 0 ? userIndex + 1 : null);
     }
     
@@ -128,6 +203,7 @@ export const Leaderboard: React.FC = () => {
       reviews: stats.reviewCount * 100,
       quality: stats.averageRating * 200,
       streak: stats.streak * 50,
+      helpful: stats.helpfulVotes * CONTRACT_FEATURES.gamification.pointsPerUpvote,
       badges: stats.badges.length * 150,
     };
   };
@@ -288,6 +364,10 @@ export const Leaderboard: React.FC = () => {
                               <Flame className="w-3 h-3 mr-1" />
                               {reviewer.streak} day streak
                             </span>
+                            <span className="flex items-center">
+                              <ThumbsUp className="w-3 h-3 mr-1" />
+                              {reviewer.helpfulVotes} helpful
+                            </span>
                             <span>⭐ {reviewer.averageRating} avg</span>
                           </div>
                         </div>
@@ -332,7 +412,7 @@ export const Leaderboard: React.FC = () => {
                     className="overflow-hidden"
                   >
                     <div className="mt-3 pt-3 border-t border-white/10">
-                      <div className="grid grid-cols-4 gap-2 text-xs">
+                      <div className="grid grid-cols-5 gap-2 text-xs">
                         <div className="text-center">
                           <p className="text-white/50">Reviews</p>
                           <p className="font-bold">{scoreBreakdown.reviews}</p>
@@ -345,6 +425,10 @@ export const Leaderboard: React.FC = () => {
                           <p className="text-white/50">Streak</p>
                           <p className="font-bold">{scoreBreakdown.streak}</p>
                         </div>
+                        <div className="text-center">
+                          <p className="text-white/50">Helpful</p>
+                          <p className="font-bold">{scoreBreakdown.helpful}</p>
+                        </div>
                         <div className="text-center">
                           <p className="text-white/50">Badges</p>
                           <p className="font-bold">{scoreBreakdown.badges}</p>
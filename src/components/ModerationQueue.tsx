@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useContract } from '../hooks/useContract';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { ModerationAction } from '../types';
+import { getReviewKey } from '../utils/reviewStore';
+import { FlagSeverity, QueueItem, buildModerationQueue, countResolutions } from '../utils/moderation';
+import { Flag, Archive, CheckCircle, Star, Keyboard, Award } from 'lucide-react';
+
+type QueueSort = 'severity' | 'oldest' | 'newest';
+
+const SEVERITY_STYLES: Record<FlagSeverity, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-orange-100 text-orange-700',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatAge = (timestamp: number) => {
+  const seconds = Math.max(0, Date.now() / 1000 - timestamp);
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
+const itemKey = (item: QueueItem) => getReviewKey(item.review.businessId, item.review.reviewer);
+
+const sortQueue = (items: QueueItem[], sortBy: QueueSort) => [...items].sort((a, b) => {
+  if (sortBy === 'severity') return b.severityScore - a.severityScore || a.flaggedAt - b.flaggedAt;
+  if (sortBy === 'newest') return b.flaggedAt - a.flaggedAt;
+  return a.flaggedAt - b.flaggedAt;
+});
+
+export const ModerationQueue: React.FC = () => {
+  const [log, setLog] = useState<ModerationAction[]>([]);
+  const [sortBy, setSortBy] = useState<QueueSort>('severity');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [isResolving, setIsResolving] = useState(false);
+  const { getModerationLog, resolveFlags } = useContract();
+  const { account, repository } = useWallet();
+  const { reviews, getBusinessId, refresh } = useReviewCache();
+  const { businesses: catalog } = useBusinessCatalog();
+
+  const canUnflag = !!repository?.capabilities.unflagging;
+
+  const businessNames = useMemo(() => {
+    const names = new Map<string, string>();
+    catalog.forEach(business => names.set(getBusinessId(business.name).toLowerCase(), business.name));
+    return names;
+  }, [catalog, getBusinessId]);
+
+  // The log only needs reloading when the set of open flags changes
+  const openFlagsKey = reviews
+    .filter(review => review.isFlagged && !review.isArchived)
+    .map(review => getReviewKey(review.businessId, review.reviewer))
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    getModerationLog().then(actions => {
+      if (!cancelled) setLog(actions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getModerationLog, openFlagsKey]);
+
+  const queue = useMemo(() => sortQueue(buildModerationQueue(reviews, log), sortBy), [reviews, log, sortBy]);
+  const resolutions = useMemo(
+    () => Array.from(countResolutions(log).entries()).sort((a, b) => b[1] - a[1]),
+    [log]
+  );
+  const myResolutions = account ? resolutions.find(([moderator]) => moderator === account.toLowerCase())?.[1] ?? 0 : 0;
+
+  // Keep the focus and selection pointing at items that are still in the queue
+  useEffect(() => {
+    setFocusIndex(index => Math.min(index, Math.max(0, queue.length - 1)));
+    setSelected(current => {
+      const keys = new Set(queue.map(itemKey));
+      const next = new Set(Array.from(current).filter(key => keys.has(key)));
+      return next.size === current.size ? current : next;
+    });
+  }, [queue]);
+
+  const toggleSelected = (key: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Acts on the selection when there is one, otherwise on the focused item
+  const resolve = useCallback(async (decision: 'archive' | 'unflag') => {
+    if (isResolving || queue.length === 0) return;
+    if (decision === 'unflag' && !canUnflag) return;
+
+    const targets = selected.size > 0 ? queue.filter(item => selected.has(itemKey(item))) : [queue[focusIndex]];
+    if (decision === 'archive' && targets.length > 1 &&
+      !window.confirm(`Archive ${targets.length} reviews? Each one is a separate transaction.`)) {
+      return;
+    }
+
+    setIsResolving(true);
+    try {
+      const refs = targets.map(item => ({ businessId: item.review.businessId, reviewer: item.review.reviewer }));
+      // Resolved items drop out of the queue on refresh; any that failed stay selected
+      if (await resolveFlags(refs, decision)) await refresh();
+    } finally {
+      setIsResolving(false);
+    }
+  }, [isResolving, queue, selected, focusIndex, canUnflag, resolveFlags, refresh]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    switch (e.key) {
+      case 'j':
+      case 'ArrowDown':
+        setFocusIndex(index => Math.min(index + 1, queue.length - 1));
+        break;
+      case 'k':
+      case 'ArrowUp':
+        setFocusIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'x':
+      case ' ':
+        if (queue[focusIndex]) toggleSelected(itemKey(queue[focusIndex]));
+        break;
+      case 'a':
+        resolve('archive');
+        break;
+      case 'u':
+        resolve('unflag');
+        break;
+      case 'Escape':
+        setSelected(new Set());
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Flag className="w-5 h-5 text-yellow-600" />
+          <h3 className="text-lg font-semibold">Moderation Queue</h3>
+          <span className="text-sm text-gray-500">({queue.length} open)</span>
+        </div>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as QueueSort)}
+          className="px-3 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+        >
+          <option value="severity">Most severe</option>
+          <option value="oldest">Oldest flag</option>
+          <option value="newest">Newest flag</option>
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex items-center justify-between mb-3 text-sm">
+        <span className="text-gray-500">
+          {selected.size > 0 ? `${selected.size} selected` : 'Actions apply to the highlighted review'}
+        </span>
+        <div className="flex space-x-2">
+          {canUnflag && (
+            <button
+              onClick={() => resolve('unflag')}
+              disabled={isResolving || queue.length === 0}
+              className="px-3 py-1 border border-green-600 text-green-700 rounded hover:bg-green-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Unflag{selected.size > 1 ? ` ${selected.size}` : ''}</span>
+            </button>
+          )}
+          <button
+            onClick={() => resolve('archive')}
+            disabled={isResolving || queue.length === 0}
+            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center space-x-1"
+          >
+            <Archive className="w-4 h-4" />
+            <span>Archive{selected.size > 1 ? ` ${selected.size}` : ''}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="border rounded-lg divide-y max-h-[32rem] overflow-y-auto focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {queue.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">Nothing flagged. The queue is clear.</p>
+        ) : (
+          queue.map((item, index) => {
+            const key = itemKey(item);
+            const { review } = item;
+            return (
+              <div
+                key={key}
+                onClick={() => setFocusIndex(index)}
+                className={`p-3 flex items-start space-x-3 cursor-pointer ${
+                  index === focusIndex ? 'bg-purple-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(key)}
+                  onChange={() => toggleSelected(key)}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium truncate">
+                      {businessNames.get(review.businessId.toLowerCase()) || shortenAddress(review.businessId)}
+                    </span>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${SEVERITY_STYLES[item.severity]}`}>
+                        {item.severity}
+                      </span>
+                      <span className="text-xs text-gray-500" title={new Date(item.flaggedAt * 1000).toLocaleString()}>
+                        {formatAge(item.flaggedAt)} ago
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-1 line-clamp-2">{review.comment}</p>
+                  <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+                    <span className="flex items-center">
+                      {review.rating}
+                      <Star className="w-3 h-3 ml-0.5 fill-yellow-400 text-yellow-400" />
+                    </span>
+                    <span>by {shortenAddress(review.reviewer)}</span>
+                    {item.flaggedBy && <span>flagged by {shortenAddress(item.flaggedBy)}</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500 flex items-center">
+        <Keyboard className="w-3 h-3 mr-1" />
+        Click the list, then j/k to move, x to select, a to archive{canUnflag ? ', u to unflag' : ''}, Esc to clear
+      </p>
+
+      {/* Resolved counts */}
+      {resolutions.length > 0 && (
+        <div className="mt-4 pt-4 border-t">
+          <div className="flex items-center space-x-2 mb-2 text-sm">
+            <Award className="w-4 h-4 text-purple-600" />
+            <span className="font-semibold">Resolved flags</span>
+            {account && <span className="text-gray-500">· you: {myResolutions}</span>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {resolutions.map(([moderator, count]) => (
+              <span
+                key={moderator}
+                className={`px-2 py-1 rounded-full text-xs ${
+                  account && moderator === account.toLowerCase() ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {shortenAddress(moderator)}: {count}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '../hooks/useContract';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { BanRecord, RegisteredBusiness, UserRole } from '../types';
+import { ModerationQueue } from './ModerationQueue';
+import { ModeratorManager } from './ModeratorManager';
+import { ClaimsInbox } from './ClaimsInbox';
+import {
+  Shield, BadgeCheck, Ban, UserCheck, History, Search, Star, Loader2
+} from 'lucide-react';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderator',
+  business_owner: 'Business owner',
+  user: 'User',
+};
+
+const BanHistoryTable: React.FC<{ records: BanRecord[] }> = ({ records }) => {
+  if (records.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No bans recorded.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium">Address</th>
+            <th className="py-2 pr-4 font-medium">Action</th>
+            <th className="py-2 pr-4 font-medium">Reason</th>
+            <th className="py-2 pr-4 font-medium">Moderator</th>
+            <th className="py-2 font-medium">Date</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...records].reverse().map(record => (
+            <tr key={`${record.txHash}-${record.user}`} className="border-b last:border-0">
+              <td className="py-2 pr-4 font-mono text-xs">{shortenAddress(record.user)}</td>
+              <td className="py-2 pr-4">
+                <span className={`px-2 py-1 rounded-full text-xs ${
+                  record.banned ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                }`}>
+                  {record.banned ? 'Banned' : 'Unbanned'}
+                </span>
+              </td>
+              <td className="py-2 pr-4 text-gray-700">{record.reason || '—'}</td>
+              <td className="py-2 pr-4 font-mono text-xs">{shortenAddress(record.moderator)}</td>
+              <td className="py-2 text-gray-500 whitespace-nowrap">{formatDate(record.timestamp)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const ModeratorConsole: React.FC = () => {
+  const [banAddress, setBanAddress] = useState('');
+  const [banReason, setBanReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [verifying, setVerifying] = useState<string | null>(null);
+  const [banHistory, setBanHistory] = useState<BanRecord[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [lookupInput, setLookupInput] = useState('');
+  const [lookupAddress, setLookupAddress] = useState<string | null>(null);
+  const [lookupStatus, setLookupStatus] = useState<{ role: UserRole; isBanned: boolean } | null>(null);
+  const { verifyBusiness, banUser, unbanUser, getBanHistory, getAccountStatus } = useContract();
+  const { userRole, repository } = useWallet();
+  const { businesses: registered, reviews, getBusinessId, refresh } = useReviewCache();
+  const { businesses: catalog } = useBusinessCatalog();
+
+  const canModerate = userRole === 'moderator' || userRole === 'admin';
+  const canBan = !!repository?.capabilities.userBans;
+  const hasRegistry = !!repository?.capabilities.businessRegistry;
+
+  const unverified = useMemo(
+    () => registered.filter(business => !business.isVerified).sort((a, b) => a.createdAt - b.createdAt),
+    [registered]
+  );
+
+  // Review business IDs back to catalog names for the address lookup
+  const businessNames = useMemo(() => {
+    const names = new Map<string, string>();
+    catalog.forEach(business => names.set(getBusinessId(business.name).toLowerCase(), business.name));
+    return names;
+  }, [catalog, getBusinessId]);
+
+  const loadBanHistory = useCallback(async () => {
+    setIsLoadingHistory(true);
+    setBanHistory(await getBanHistory());
+    setIsLoadingHistory(false);
+  }, [getBanHistory]);
+
+  useEffect(() => {
+    if (canModerate && canBan) loadBanHistory();
+  }, [canModerate, canBan, loadBanHistory]);
+
+  if (!canModerate) return null;
+
+  const handleVerify = async (business: RegisteredBusiness) => {
+    setVerifying(business.id);
+    try {
+      const txHash = await verifyBusiness(business);
+      if (txHash) refresh();
+    } catch (error) {
+      console.error('Error verifying business:', error);
+    } finally {
+      setVerifying(null);
+    }
+  };
+
+  const handleBan = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      const txHash = await banUser(banAddress, banReason);
+      if (txHash) {
+        setBanAddress('');
+        setBanReason('');
+        loadBanHistory();
+      }
+    } catch (error) {
+      console.error('Error banning user:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUnban = async () => {
+    setIsSubmitting(true);
+    try {
+      const txHash = await unbanUser(banAddress);
+      if (txHash) {
+        setBanAddress('');
+        setBanReason('');
+        loadBanHistory();
+      }
+    } catch (error) {
+      console.error('Error unbanning user:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ethers.isAddress(lookupInput)) return;
+
+    setLookupAddress(lookupInput);
+    setLookupStatus(await getAccountStatus(lookupInput));
+  };
+
+  const lookupReviews = lookupAddress
+    ? reviews.filter(review => review.reviewer.toLowerCase() === lookupAddress.toLowerCase())
+    : [];
+  const lookupBans = lookupAddress
+    ? banHistory.filter(record => record.user.toLowerCase() === lookupAddress.toLowerCase())
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center space-x-2">
+          <Shield className="w-6 h-6 text-purple-600" />
+          <h2 className="text-2xl font-semibold">Moderator Console</h2>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Every action here is an on-chain transaction signed by your {ROLE_LABELS[userRole].toLowerCase()} account.
+        </p>
+      </div>
+
+      <ModerationQueue />
+
+      {/* Business verification */}
+      {hasRegistry && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <BadgeCheck className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold">Unverified Businesses</h3>
+            <span className="text-sm text-gray-500">({unverified.length})</span>
+          </div>
+
+          {unverified.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">Every registered business is verified.</p>
+          ) : (
+            <div className="divide-y">
+              {unverified.map(business => (
+                <div key={business.id} className="py-3 flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{business.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {business.category} · {business.location}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Owner {shortenAddress(business.owner)} · registered {formatDate(business.createdAt)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleVerify(business)}
+                    disabled={verifying !== null}
+                    className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center space-x-1"
+                  >
+                    {verifying === business.id
+                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                      : <BadgeCheck className="w-4 h-4" />}
+                    <span>Verify</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bans */}
+      {canBan && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Ban className="w-5 h-5 text-red-600" />
+            <h3 className="text-lg font-semibold">Ban or Unban</h3>
+          </div>
+
+          <form onSubmit={handleBan} className="space-y-3">
+            <input
+              type="text"
+              value={banAddress}
+              onChange={(e) => setBanAddress(e.target.value)}
+              placeholder="0x..."
+              className="w-full px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-red-500 focus:outline-none"
+              disabled={isSubmitting}
+            />
+            <textarea
+              value={banReason}
+              onChange={(e) => setBanReason(e.target.value)}
+              placeholder="Reason for the ban (published on chain)"
+              className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:outline-none resize-none"
+              rows={2}
+              disabled={isSubmitting}
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={handleUnban}
+                disabled={isSubmitting || !banAddress}
+                className="px-4 py-2 border border-green-600 text-green-700 rounded-lg hover:bg-green-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+              >
+                <UserCheck className="w-4 h-4" />
+                <span>Unban</span>
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !banAddress || !banReason.trim()}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center space-x-1"
+              >
+                <Ban className="w-4 h-4" />
+                <span>{isSubmitting ? 'Submitting...' : 'Ban'}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Ban history */}
+      {canBan && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <History className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold">Ban History</h3>
+          </div>
+          {isLoadingHistory ? (
+            <div className="flex items-center justify-center py-6 text-gray-500">
+              <Loader2 className="w-5 h-5 animate-spin mr-2" />
+              <span>Loading history...</span>
+            </div>
+          ) : (
+            <BanHistoryTable records={banHistory} />
+          )}
+        </div>
+      )}
+
+      {/* Address lookup */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <Search className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold">Look Up an Address</h3>
+        </div>
+
+        <form onSubmit={handleLookup} className="flex space-x-2">
+          <input
+            type="text"
+            value={lookupInput}
+            onChange={(e) => setLookupInput(e.target.value)}
+            placeholder="0x..."
+            className="flex-1 px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={!ethers.isAddress(lookupInput)}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            Look Up
+          </button>
+        </form>
+
+        {lookupAddress && (
+          <div className="mt-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-mono">{lookupAddress}</span>
+              {lookupStatus && (
+                <>
+                  <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">
+                    {ROLE_LABELS[lookupStatus.role]}
+                  </span>
+                  {lookupStatus.isBanned && (
+                    <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full">Banned</span>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Reviews ({lookupReviews.length})</h4>
+              {lookupReviews.length === 0 ? (
+                <p className="text-sm text-gray-500">No reviews from this address.</p>
+              ) : (
+                <div className="divide-y border rounded-lg">
+                  {lookupReviews.map(review => (
+                    <div key={`${review.businessId}-${review.reviewer}`} className="p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          {businessNames.get(review.businessId.toLowerCase()) || shortenAddress(review.businessId)}
+                        </span>
+                        <span className="flex items-center text-gray-600">
+                          {review.rating}
+                          <Star className="w-3 h-3 ml-1 fill-yellow-400 text-yellow-400" />
+                        </span>
+                      </div>
+                      <p className="text-gray-700 mt-1 line-clamp-2">{review.comment}</p>
+                      <div className="flex space-x-2 mt-1 text-xs text-gray-500">
+                        <span>{formatDate(review.timestamp)}</span>
+                        {review.isFlagged && <span className="text-yellow-700">Flagged</span>}
+                        {review.isArchived && <span>Archived</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {canBan && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Bans</h4>
+                <BanHistoryTable records={lookupBans} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Admins only */}
+      <ModeratorManager />
+      <ClaimsInbox />
+    </div>
+  );
+};
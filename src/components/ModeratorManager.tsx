@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useContract } from '../hooks/useContract';
+import { useWallet } from '../hooks/useWallet';
+import { ModeratorChange } from '../types';
+import { getCurrentModerators } from '../utils/moderation';
+import { Users, UserPlus, UserMinus, Loader2 } from 'lucide-react';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Admin-only: grant and revoke the moderator role, with the on-chain history of every change
+export const ModeratorManager: React.FC = () => {
+  const [address, setAddress] = useState('');
+  const [history, setHistory] = useState<ModeratorChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const { setModerator, getModeratorHistory } = useContract();
+  const { account, userRole } = useWallet();
+
+  const isAdmin = userRole === 'admin';
+  const moderators = useMemo(() => getCurrentModerators(history), [history]);
+  const isModerator = (candidate: string) =>
+    moderators.some(moderator => moderator.account.toLowerCase() === candidate.toLowerCase());
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setHistory(await getModeratorHistory());
+    setIsLoading(false);
+  }, [getModeratorHistory]);
+
+  useEffect(() => {
+    if (isAdmin) loadHistory();
+  }, [isAdmin, loadHistory]);
+
+  if (!isAdmin) return null;
+
+  const changeRole = async (target: string, enabled: boolean) => {
+    const self = account?.toLowerCase() === target.toLowerCase();
+    const prompt = enabled
+      ? `Make ${target} a moderator? They will be able to flag, archive and ban.`
+      : `Remove moderator rights from ${target}?${self ? ' This is your own account.' : ''}`;
+    if (!window.confirm(prompt)) return;
+
+    setPending(target.toLowerCase());
+    try {
+      const txHash = await setModerator(target, enabled);
+      if (txHash) {
+        setAddress('');
+        loadHistory();
+      }
+    } catch (error) {
+      console.error('Error changing moderator role:', error);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeRole(address.trim(), true);
+  };
+
+  const isValid = ethers.isAddress(address.trim());
+  const alreadyModerator = isValid && isModerator(address.trim());
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Users className="w-5 h-5 text-purple-600" />
+        <h3 className="text-lg font-semibold">Moderators</h3>
+        <span className="text-sm text-gray-500">({moderators.length})</span>
+      </div>
+
+      <form onSubmit={handleGrant} className="flex space-x-2 mb-1">
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="0x..."
+          className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          disabled={!!pending}
+        />
+        <button
+          type="submit"
+          disabled={!!pending || !isValid || alreadyModerator}
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+        >
+          <UserPlus className="w-4 h-4" />
+          <span>Add Moderator</span>
+        </button>
+      </form>
+      {alreadyModerator && <p className="text-xs text-gray-500">That address is already a moderator.</p>}
+
+      {/* Current moderators */}
+      <div className="mt-4 divide-y border rounded-lg">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-gray-500">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            <span>Loading moderators...</span>
+          </div>
+        ) : moderators.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">No moderators found in the contract's events.</p>
+        ) : (
+          moderators.map(moderator => (
+            <div key={moderator.account} className="flex items-center justify-between p-3 text-sm">
+              <div>
+                <span className="font-mono">{moderator.account}</span>
+                {account?.toLowerCase() === moderator.account.toLowerCase() && (
+                  <span className="ml-2 px-2 py-0.5 bg-purple-100 text-purple-800 rounded-full text-xs">You</span>
+                )}
+                <p className="text-xs text-gray-500">Since {formatDate(moderator.timestamp)}</p>
+              </div>
+              <button
+                onClick={() => changeRole(moderator.account, false)}
+                disabled={!!pending}
+                className="px-3 py-1 border border-red-600 text-red-700 rounded hover:bg-red-50 transition-colors disabled:opacity-50 flex items-center space-x-1"
+              >
+                {pending === moderator.account.toLowerCase()
+                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                  : <UserMinus className="w-4 h-4" />}
+                <span>Remove</span>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Audit trail */}
+      {history.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Role changes</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Address</th>
+                <th className="py-2 pr-4 font-medium">Change</th>
+                <th className="py-2 pr-4 font-medium">By</th>
+                <th className="py-2 font-medium">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...history].reverse().map(change => (
+                <tr key={`${change.txHash}-${change.account}`} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-mono text-xs">{shortenAddress(change.account)}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-1 rounded-full text-xs ${
+                      change.granted ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                    }`}>
+                      {change.granted ? 'Added' : 'Removed'}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-xs">{shortenAddress(change.admin)}</td>
+                  <td className="py-2 text-gray-500 whitespace-nowrap">{formatDate(change.timestamp)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
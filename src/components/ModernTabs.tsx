@@ -2,10 +2,10 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Home, Trophy, User, TrendingUp, Sparkles, 
-  Star, Award, ChartBar, Globe, Zap
+  Star, Award, ChartBar, Globe, Zap, Shield
 } from 'lucide-react';
 
-export type TabType = 'explore' | 'leaderboard' | 'profile' | 'activity';
+export type TabType = 'explore' | 'leaderboard' | 'profile' | 'activity' | 'moderation';
 
 interface ModernTabsProps {
   activeTab: TabType;
@@ -15,7 +15,10 @@ interface ModernTabsProps {
     leaderboard?: number;
     profile?: number;
     activity?: number;
+    moderation?: number;
   };
+  // Shows the moderator-only tabs
+  canModerate?: boolean;
 }
 
 const tabs = [
@@ -46,17 +49,27 @@ const tabs = [
     icon: TrendingUp,
     color: 'from-green-500 to-emerald-500',
     description: 'Recent reviews'
+  },
+  { 
+    id: 'moderation' as TabType, 
+    label: 'Moderation', 
+    icon: Shield,
+    color: 'from-red-500 to-rose-500',
+    description: 'Verify and ban',
+    moderatorOnly: true
   }
 ];
 
 export const ModernTabs: React.FC<ModernTabsProps> = ({ 
   activeTab, 
   onTabChange,
-  notifications = {}
+  notifications = {},
+  canModerate = false
 }) => {
   const [hoveredTab, setHoveredTab] = useState<TabType | null>(null);
-  const activeIndex = tabs.findIndex(tab => tab.id === activeTab);
-  const tabWidth = 100 / tabs.length;
+  const visibleTabs = tabs.filter(tab => !tab.moderatorOnly || canModerate);
+  const activeIndex = visibleTabs.findIndex(tab => tab.id === activeTab);
+  const tabWidth = 100 / visibleTabs.length;
 
   return (
     <div className="relative">
@@ -79,7 +92,7 @@ export const ModernTabs: React.FC<ModernTabsProps> = ({
           />
 
           {/* Tab Items */}
-          {tabs.map((tab, index) => {
+          {visibleTabs.map((tab, index) => {
             const Icon = tab.icon;
             const isActive = activeTab === tab.id;
             const isHovered = hoveredTab === tab.id;
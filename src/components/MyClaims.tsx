@@ -0,0 +1,41 @@
+import React from 'react';
+import { useOwnershipClaims } from '../hooks/useOwnershipClaims';
+import { ClaimStatusBadge } from './ClaimStatusBadge';
+import { KeyRound } from 'lucide-react';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// The connected account's ownership claims on this chain, newest first
+export const MyClaims: React.FC = () => {
+  const { isAvailable, myClaims } = useOwnershipClaims();
+
+  if (!isAvailable || myClaims.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <KeyRound className="w-5 h-5 text-purple-600" />
+        <h3 className="text-lg font-semibold">Your Ownership Claims</h3>
+      </div>
+
+      <div className="divide-y">
+        {[...myClaims].reverse().map(claim => (
+          <div key={claim.id} className="py-3 flex items-start justify-between">
+            <div>
+              <p className="font-medium text-gray-900">{claim.businessName}</p>
+              <p className="text-xs text-gray-500">
+                Submitted {formatDate(claim.submittedAt)}
+                {claim.decidedAt && ` · decided ${formatDate(claim.decidedAt)}`}
+              </p>
+              {claim.status === 'rejected' && claim.reason && (
+                <p className="text-sm text-red-700 mt-1">Reason: {claim.reason}</p>
+              )}
+            </div>
+            <ClaimStatusBadge status={claim.status} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useWallet } from '../hooks/useWallet';
+import { getChainConfig, isSupportedChain } from '../config/contractsV2';
+
+// Shown while the wallet sits on a chain without a review deployment; writes stay blocked until it switches
+export const NetworkBanner: React.FC = () => {
+  const { isUnsupportedChain, walletChainId, chainId, supportedChains, switchChain } = useWallet();
+
+  if (!isUnsupportedChain) return null;
+
+  const walletChainName = walletChainId !== null && isSupportedChain(walletChainId)
+    ? getChainConfig(walletChainId).name
+    : `chain ${walletChainId}`;
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-3 text-yellow-800">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">
+            <span className="font-semibold">DecentReview isn't deployed on {walletChainName}.</span>{' '}
+            You can keep browsing {getChainConfig(chainId).name}, but reviews and other actions are disabled until you switch.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          {supportedChains.map(chain => (
+            <button
+              key={chain.id}
+              onClick={() => switchChain(chain.id)}
+              className="px-3 py-1.5 text-sm font-medium bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+            >
+              Switch to {chain.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useContract } from '../hooks/useContract';
+import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { Review } from '../types';
+import { buildOwnerAnalytics, formatDuration } from '../utils/ownerAnalytics';
+import { ReviewCard } from './ReviewCard';
+import { Briefcase, Star, MessageCircle, Clock, Hash, TrendingUp, Loader2 } from 'lucide-react';
+
+const StatTile: React.FC<{ icon: React.ReactNode; label: string; value: string }> = ({ icon, label, value }) => (
+  <div className="bg-gray-50 rounded-lg p-4">
+    <div className="flex items-center space-x-2 text-gray-500 text-sm mb-1">
+      {icon}
+      <span>{label}</span>
+    </div>
+    <div className="text-2xl font-bold text-gray-900">{value}</div>
+  </div>
+);
+
+// Rating analytics and unanswered reviews for the businesses the connected account owns
+export const OwnerDashboard: React.FC = () => {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [responseTimes, setResponseTimes] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const { getReviews, getOwnerResponseTimes } = useContract();
+  const { account } = useWallet();
+  const { getBusinessOwner } = useReviewCache();
+  const { businesses } = useBusinessCatalog();
+
+  const owned = useMemo(() => {
+    if (!account) return [];
+    return businesses.filter(business => getBusinessOwner(business.name)?.toLowerCase() === account.toLowerCase());
+  }, [businesses, account, getBusinessOwner]);
+
+  const businessName = selected && owned.some(business => business.name === selected) ? selected : owned[0]?.name;
+
+  const load = useCallback(async () => {
+    if (!businessName) return;
+    const [loadedReviews, times] = await Promise.all([getReviews(businessName), getOwnerResponseTimes(businessName)]);
+    setReviews(loadedReviews);
+    setResponseTimes(times);
+  }, [businessName, getReviews, getOwnerResponseTimes]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    load().finally(() => setIsLoading(false));
+  }, [load]);
+
+  const analytics = useMemo(() => buildOwnerAnalytics(reviews, responseTimes), [reviews, responseTimes]);
+
+  if (!businessName) return null;
+
+  const maxCount = Math.max(1, ...analytics.ratingDistribution);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Briefcase className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold">Owner Dashboard</h3>
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+        </div>
+        {owned.length > 1 ? (
+          <select
+            value={businessName}
+            onChange={(e) => setSelected(e.target.value)}
+            className="px-3 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          >
+            {owned.map(business => (
+              <option key={business.name} value={business.name}>{business.name}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-sm font-medium text-gray-700">{businessName}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatTile
+          icon={<Star className="w-4 h-4" />}
+          label="Average rating"
+          value={analytics.totalReviews ? analytics.averageRating.toFixed(1) : '—'}
+        />
+        <StatTile icon={<MessageCircle className="w-4 h-4" />} label="Reviews" value={String(analytics.totalReviews)} />
+        <StatTile
+          icon={<TrendingUp className="w-4 h-4" />}
+          label="Response rate"
+          value={analytics.totalReviews ? `${Math.round(analytics.responseRate * 100)}%` : '—'}
+        />
+        <StatTile
+          icon={<Clock className="w-4 h-4" />}
+          label="Median response time"
+          value={analytics.medianResponseTime !== null ? formatDuration(analytics.medianResponseTime) : '—'}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Rating distribution */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Rating distribution</h4>
+          <div className="space-y-1">
+            {[5, 4, 3, 2, 1].map(stars => {
+              const count = analytics.ratingDistribution[stars - 1];
+              return (
+                <div key={stars} className="flex items-center space-x-2 text-sm">
+                  <span className="w-4 text-gray-600">{stars}</span>
+                  <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                  <div className="flex-1 bg-gray-100 rounded-full h-2">
+                    <div className="bg-yellow-400 h-2 rounded-full" style={{ width: `${(count / maxCount) * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-gray-500">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Rating trend */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Average rating by month</h4>
+          <div className="flex items-end justify-between h-28 space-x-2">
+            {analytics.ratingTrend.map(point => (
+              <div key={point.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-xs text-gray-600 mb-1">{point.count ? point.average.toFixed(1) : ''}</span>
+                <div
+                  className="w-full bg-purple-500 rounded-t"
+                  style={{ height: `${(point.average / 5) * 100}%` }}
+                  title={`${point.count} review${point.count === 1 ? '' : 's'}`}
+                />
+                <span className="text-xs text-gray-500 mt-1">
+                  {new Date(point.month * 1000).toLocaleDateString('en-US', { month: 'short' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Top tags */}
+      {analytics.topTags.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+            <Hash className="w-4 h-4 mr-1" />
+            What reviewers mention most
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {analytics.topTags.map(({ tag, count }) => (
+              <span key={tag} className="px-3 py-1 bg-purple-50 text-purple-700 rounded-full text-sm">
+                {tag} <span className="text-purple-400">×{count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Unanswered reviews */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">
+          Waiting for your response ({analytics.unanswered.length})
+        </h4>
+        {analytics.unanswered.length === 0 ? (
+          <p className="text-sm text-gray-500">You've answered every review.</p>
+        ) : (
+          <div className="space-y-4">
+            {analytics.unanswered.map(review => (
+              <ReviewCard
+                key={review.reviewer}
+                review={review}
+                businessName={businessName}
+                businessOwner={account}
+                onUpdate={load}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
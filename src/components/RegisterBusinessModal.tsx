@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useContract } from '../hooks/useContract';
+import { useBusinessCatalog } from '../hooks/useBusinessCatalog';
+import { BUSINESS_CATEGORIES } from '../data/kenyanBusinesses';
+import { findCatalogEntry, normalizeBusinessName } from '../utils/businessCatalog';
+import { X, Store, AlertCircle } from 'lucide-react';
+
+interface RegisterBusinessModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRegistered: (name: string) => void;
+  // Prefills the name, e.g. from a search that found nothing
+  initialName?: string;
+}
+
+// 'All Categories' is a filter option, not something a business can be
+const CATEGORY_OPTIONS = BUSINESS_CATEGORIES.filter(category => category !== 'All Categories');
+
+export const RegisterBusinessModal: React.FC<RegisterBusinessModalProps> = ({
+  isOpen,
+  onClose,
+  onRegistered,
+  initialName = '',
+}) => {
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState(CATEGORY_OPTIONS[0]);
+  const [location, setLocation] = useState('');
+  const [city, setCity] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { registerBusiness } = useContract();
+  const { businesses } = useBusinessCatalog();
+
+  useEffect(() => {
+    if (isOpen && initialName) setName(initialName);
+  }, [isOpen, initialName]);
+
+  const existing = name.trim() && city.trim() ? findCatalogEntry(businesses, name, city) : undefined;
+  const isTaken = !!existing?.registryId;
+  // What the catalog will list the registration as: a curated entry keeps its name, and a name used elsewhere gets the city
+  const listedName = existing?.name ||
+    (businesses.some(business => normalizeBusinessName(business.name) === normalizeBusinessName(name))
+      ? `${name.trim()} (${city.trim()})`
+      : name.trim());
+
+  const resetForm = () => {
+    setName('');
+    setCategory(CATEGORY_OPTIONS[0]);
+    setLocation('');
+    setCity('');
+    setDescription('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isTaken) return;
+
+    setIsSubmitting(true);
+    try {
+      const txHash = await registerBusiness({
+        name,
+        category,
+        // Stored as one string on chain; the catalog splits the city back off
+        location: [location.trim(), city.trim()].filter(Boolean).join(', '),
+        description: description.trim(),
+      });
+      if (txHash) {
+        resetForm();
+        onRegistered(listedName);
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error registering business:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none p-4 overflow-y-auto"
+          >
+            <form
+              onSubmit={handleSubmit}
+              className="bg-white rounded-2xl shadow-2xl max-w-lg w-full pointer-events-auto my-8"
+            >
+              <div className="flex items-center justify-between p-5 border-b">
+                <div className="flex items-center space-x-2">
+                  <Store className="w-5 h-5 text-purple-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">Register a Business</h2>
+                </div>
+                <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
+
+              <div className="p-5 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Business name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    disabled={isSubmitting}
+                    required
+                  />
+                  {isTaken && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center">
+                      <AlertCircle className="w-4 h-4 mr-1" />
+                      {existing!.name} in {existing!.city} is already registered on this network.
+                    </p>
+                  )}
+                  {existing && !isTaken && (
+                    <p className="mt-1 text-sm text-gray-500">
+                      {existing.name} is already listed. Registering it records you as its owner on chain, and
+                      the listing switches to your registration once you verify it.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                  <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                    disabled={isSubmitting}
+                  >
+                    {CATEGORY_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                    <input
+                      type="text"
+                      value={location}
+                      onChange={(e) => setLocation(e.target.value)}
+                      placeholder="e.g. Westlands"
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+                    <input
+                      type="text"
+                      value={city}
+                      onChange={(e) => setCity(e.target.value)}
+                      placeholder="e.g. Nairobi"
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                      disabled={isSubmitting}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:outline-none resize-none"
+                    rows={3}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2 p-5 border-t">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+                  disabled={isSubmitting || isTaken || !name.trim() || !city.trim()}
+                >
+                  {isSubmitting ? 'Registering...' : 'Register Business'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,31 +1,52 @@
 import React, { useState } from 'react';
-import { Review } from '../types';
+import { Review, ReviewVote } from '../types';
 import { useContract } from '../hooks/useContract';
 import { useWallet } from '../hooks/useWallet';
-import { IPFS_GATEWAY } from '../config/contract';
+import { useRatingDimensions } from '../hooks/useRatingDimensions';
+import { REVIEW_STORAGE } from '../config/contract';
+import { applyVote } from '../utils/reviews';
+import { ReviewHistoryModal } from './ReviewHistoryModal';
+import { ReviewGallery } from './ReviewGallery';
+import { SubRatingsInput, SubRatingsSummary } from './SubRatings';
 import { 
   Star, Flag, Archive, MessageCircle, User, Calendar, 
-  Image as ImageIcon, AlertCircle, CheckCircle, Briefcase
+  AlertCircle, CheckCircle, Briefcase, Edit2, History,
+  ThumbsUp, ThumbsDown
 } from 'lucide-react';
 
 interface ReviewCardProps {
   review: Review;
   businessName: string;
   businessOwner: string | null;
-  onUpdate: () => void;
+  // The connected account's vote on this review
+  myVote?: ReviewVote | null;
+  // Called with null when the vote was withdrawn
+  onVoted?: (reviewer: string, vote: ReviewVote | null) => void;
+  onUpdate: () => void | Promise<void>;
 }
 
 export const ReviewCard: React.FC<ReviewCardProps> = ({
   review,
   businessName,
   businessOwner,
+  myVote = null,
+  onVoted,
   onUpdate,
 }) => {
   const [showResponse, setShowResponse] = useState(false);
   const [responseText, setResponseText] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { addOwnerResponse, flagReview, archiveReview } = useContract();
-  const { account, userRole } = useWallet();
+  const [isEditing, setIsEditing] = useState(false);
+  const [editRating, setEditRating] = useState(review.rating);
+  const [editComment, setEditComment] = useState(review.comment);
+  const [editTags, setEditTags] = useState(review.tags.join(', '));
+  const [editSubRatings, setEditSubRatings] = useState(review.subRatings || {});
+  const [showHistory, setShowHistory] = useState(false);
+  // Shown straight away while the vote transaction is in flight; a null vote is being withdrawn
+  const [pendingVote, setPendingVote] = useState<{ vote: ReviewVote | null } | null>(null);
+  const { addOwnerResponse, flagReview, archiveReview, updateReview, voteReview, clearVote } = useContract();
+  const { account, userRole, repository } = useWallet();
+  const dimensions = useRatingDimensions(businessName);
 
   const isBusinessOwner = businessOwner && account && 
     businessOwner.toLowerCase() === account.toLowerCase();
@@ -33,6 +54,67 @@ export const ReviewCard: React.FC<ReviewCardProps> = ({
     !review.isFlagged && !review.isArchived;
   const canArchive = userRole === 'admin' && !review.isArchived;
   const canRespond = isBusinessOwner && !review.hasOwnerResponse;
+  const isAuthor = account !== null && review.reviewer.toLowerCase() === account.toLowerCase();
+  // An edit rewrites the whole body, so it needs the current one
+  const canEdit = isAuthor && !review.isArchived && review.documentLoaded !== false && !!repository?.capabilities.editing;
+  const isEdited = (review.version ?? 1) > 1;
+  const canVote = !!repository?.capabilities.voting && !review.isArchived;
+  const currentVote = pendingVote ? pendingVote.vote : myVote;
+  const votes = pendingVote ? applyVote(review, myVote, pendingVote.vote) : {
+    upvotes: review.upvotes ?? 0,
+    downvotes: review.downvotes ?? 0,
+  };
+
+  // Voting the way you already voted withdraws the vote
+  const handleVote = async (vote: ReviewVote) => {
+    if (pendingVote) return;
+
+    const next = vote === myVote ? null : vote;
+    setPendingVote({ vote: next });
+    try {
+      const txHash = next
+        ? await voteReview(businessName, review.reviewer, next)
+        : await clearVote(businessName, review.reviewer);
+      if (txHash) {
+        // Keep the optimistic totals until the cache has the confirmed ones
+        await onUpdate();
+        onVoted?.(review.reviewer, next);
+      }
+    } catch (error) {
+      console.error('Error voting on review:', error);
+    } finally {
+      // Without a confirmed vote this rolls the totals back
+      setPendingVote(null);
+    }
+  };
+
+  const startEditing = () => {
+    setEditRating(review.rating);
+    setEditComment(review.comment);
+    setEditTags(review.tags.join(', '));
+    setEditSubRatings(review.subRatings || {});
+    setIsEditing(true);
+  };
+
+  const handleUpdate = async () => {
+    const tags = editTags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+    setIsSubmitting(true);
+    try {
+      const txHash = await updateReview(businessName, editRating, editComment, tags, review.imageHashes, {
+        subRatings: editSubRatings,
+        language: review.language,
+      });
+      if (txHash) {
+        setIsEditing(false);
+        onUpdate();
+      }
+    } catch (error) {
+      console.error('Error updating review:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   const handleOwnerResponse = async () => {
     if (!responseText.trim()) return;
@@ -114,6 +196,15 @@ export const ReviewCard: React.FC<ReviewCardProps> = ({
 
         {/* Action buttons */}
         <div className="flex space-x-2">
+          {canEdit && !isEditing && (
+            <button
+              onClick={startEditing}
+              className="p-1 hover:bg-gray-100 rounded transition-colors"
+              title="Edit Review"
+            >
+              <Edit2 className="w-4 h-4 text-gray-600" />
+            </button>
+          )}
           {canRespond && (
             <button
               onClick={() => setShowResponse(!showResponse)}
@@ -157,17 +248,91 @@ export const ReviewCard: React.FC<ReviewCardProps> = ({
             <Calendar className="w-4 h-4 text-gray-400" />
             <span className="text-sm text-gray-500">{formatDate(review.timestamp)}</span>
           </div>
+          {isEdited && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-purple-600 transition-colors"
+              title="View edit history"
+            >
+              <History className="w-3 h-3" />
+              <span>
+                Edited{review.lastEditTimestamp ? ` ${formatDate(review.lastEditTimestamp)}` : ''}
+              </span>
+            </button>
+          )}
         </div>
         <div className="flex items-center">
           {renderStars(review.rating)}
         </div>
       </div>
 
-      {/* Review content */}
-      <p className="text-gray-800 mb-3">{review.comment}</p>
+      {/* Edit form */}
+      {isEditing ? (
+        <div className="mb-3 p-3 bg-gray-50 rounded-lg space-y-3">
+          <div className="flex items-center space-x-1">
+            {Array(5).fill(0).map((_, i) => (
+              <button key={i} onClick={() => setEditRating(i + 1)} disabled={isSubmitting}>
+                <Star
+                  className={`w-5 h-5 ${i < editRating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                />
+              </button>
+            ))}
+          </div>
+          {REVIEW_STORAGE === 'document' && (
+            <SubRatingsInput
+              dimensions={dimensions}
+              value={editSubRatings}
+              onChange={setEditSubRatings}
+              disabled={isSubmitting}
+            />
+          )}
+          <textarea
+            value={editComment}
+            onChange={(e) => setEditComment(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+            rows={4}
+            disabled={isSubmitting}
+          />
+          <input
+            type="text"
+            value={editTags}
+            onChange={(e) => setEditTags(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            disabled={isSubmitting}
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1 text-gray-600 hover:bg-gray-200 rounded transition-colors"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleUpdate}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={isSubmitting || !editComment.trim()}
+            >
+              {isSubmitting ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+      ) : review.documentLoaded === false ? (
+        <p className="text-gray-500 italic mb-3">
+          This review is stored on IPFS and could not be loaded yet. It will be retried shortly.
+        </p>
+      ) : (
+        <p className="text-gray-800 mb-3">{review.comment}</p>
+      )}
+
+      {/* Sub-ratings */}
+      {!isEditing && review.subRatings && (
+        <SubRatingsSummary scores={review.subRatings} className="mb-3 max-w-sm" />
+      )}
 
       {/* Tags */}
-      {review.tags.length > 0 && (
+      {!isEditing && review.tags.length > 0 && (
         <div className="flex flex-wrap gap-2 mb-3">
           {review.tags.map((tag, index) => (
             <span
@@ -180,18 +345,40 @@ export const ReviewCard: React.FC<ReviewCardProps> = ({
         </div>
       )}
 
-      {/* Image */}
-      {review.imageHash && review.imageHash !== '' && (
+      {/* Images */}
+      {review.imageHashes.length > 0 && (
         <div className="mb-3">
-          <a
-            href={`${IPFS_GATEWAY}${review.imageHash}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="inline-flex items-center space-x-2 text-blue-600 hover:underline"
+          <ReviewGallery imageHashes={review.imageHashes} />
+        </div>
+      )}
+
+      {/* Votes */}
+      {canVote && (
+        <div className="flex items-center space-x-2 mb-3 text-sm">
+          <span className="text-gray-500">Helpful?</span>
+          <button
+            onClick={() => handleVote('up')}
+            disabled={isAuthor || !!pendingVote}
+            className={`flex items-center space-x-1 px-2 py-1 rounded-full border transition-colors disabled:cursor-not-allowed ${
+              currentVote === 'up' ? 'bg-green-50 border-green-300 text-green-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+            title={isAuthor ? 'You cannot vote on your own review' : currentVote === 'up' ? 'Withdraw your vote' : 'Helpful'}
           >
-            <ImageIcon className="w-4 h-4" />
-            <span className="text-sm">View attached image</span>
-          </a>
+            <ThumbsUp className={`w-4 h-4 ${currentVote === 'up' ? 'fill-green-200' : ''}`} />
+            <span>{votes.upvotes}</span>
+          </button>
+          <button
+            onClick={() => handleVote('down')}
+            disabled={isAuthor || !!pendingVote}
+            className={`flex items-center space-x-1 px-2 py-1 rounded-full border transition-colors disabled:cursor-not-allowed ${
+              currentVote === 'down' ? 'bg-red-50 border-red-300 text-red-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+            title={isAuthor ? 'You cannot vote on your own review' : currentVote === 'down' ? 'Withdraw your vote' : 'Not helpful'}
+          >
+            <ThumbsDown className={`w-4 h-4 ${currentVote === 'down' ? 'fill-red-200' : ''}`} />
+            <span>{votes.downvotes}</span>
+          </button>
+          {pendingVote && <span className="text-xs text-gray-400">Saving vote...</span>}
         </div>
       )}
 
@@ -240,6 +427,15 @@ export const ReviewCard: React.FC<ReviewCardProps> = ({
           </div>
         </div>
       )}
+
+      {isEdited && (
+        <ReviewHistoryModal
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          businessName={businessName}
+          review={review}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
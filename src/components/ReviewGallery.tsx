@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { ImageLightbox } from './ImageLightbox';
+import { IpfsImage } from './IpfsImage';
+
+interface ReviewGalleryProps {
+  imageHashes: string[];
+}
+
+// A review's photos as thumbnails, opening the lightbox at the one clicked
+export const ReviewGallery: React.FC<ReviewGalleryProps> = ({ imageHashes }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (imageHashes.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {imageHashes.map((hash, index) => (
+          <button
+            key={`${index}-${hash}`}
+            onClick={() => setOpenIndex(index)}
+            className="w-20 h-20 rounded-lg overflow-hidden bg-gray-100 hover:opacity-90 transition-opacity"
+            title="View photo"
+          >
+            <IpfsImage
+              cid={hash}
+              alt={`Attachment ${index + 1} of ${imageHashes.length}`}
+              className="w-full h-full object-cover"
+            />
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && (
+        <ImageLightbox
+          images={imageHashes.map(hash => ({ hash }))}
+          startIndex={openIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Review, ReviewVersion } from '../types';
+import { useContract } from '../hooks/useContract';
+import { diffWords } from '../utils/textDiff';
+import { X, History, Star, Loader2 } from 'lucide-react';
+
+interface ReviewHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  businessName: string;
+  review: Review;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const VersionDiff: React.FC<{ previous?: ReviewVersion; current: ReviewVersion }> = ({ previous, current }) => {
+  // The first version has nothing to compare against, so it reads as plain text
+  const segments = previous ? diffWords(previous.comment, current.comment) : [{ type: 'same' as const, text: current.comment }];
+  const addedTags = current.tags.filter(tag => !previous?.tags.includes(tag));
+  const removedTags = previous ? previous.tags.filter(tag => !current.tags.includes(tag)) : [];
+
+  return (
+    <div className="space-y-2">
+      {previous && previous.rating !== current.rating && (
+        <p className="text-sm text-gray-600 flex items-center space-x-1">
+          <span>Rating</span>
+          <span className="line-through text-red-600">{previous.rating}</span>
+          <span>→</span>
+          <span className="text-green-700 font-medium">{current.rating}</span>
+          <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+        </p>
+      )}
+      <p className="text-gray-800 whitespace-pre-wrap">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={
+              segment.type === 'added'
+                ? 'bg-green-100 text-green-800'
+                : segment.type === 'removed'
+                  ? 'bg-red-100 text-red-700 line-through'
+                  : undefined
+            }
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+      {previous && (addedTags.length > 0 || removedTags.length > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {removedTags.map(tag => (
+            <span key={`-${tag}`} className="px-2 py-1 bg-red-50 text-red-700 text-xs rounded-full line-through">{tag}</span>
+          ))}
+          {addedTags.map(tag => (
+            <span key={`+${tag}`} className="px-2 py-1 bg-green-50 text-green-700 text-xs rounded-full">{tag}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ReviewHistoryModal: React.FC<ReviewHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  businessName,
+  review,
+}) => {
+  const { getReviewHistory } = useContract();
+  const [versions, setVersions] = useState<ReviewVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    getReviewHistory(businessName, review.reviewer)
+      .then(history => {
+        if (!cancelled) setVersions(history);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, businessName, review.reviewer, review.version, getReviewHistory]);
+
+  // Newest first, each compared with the version before it
+  const entries = versions.map((version, index) => ({ version, previous: versions[index - 1] })).reverse();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="fixed inset-0 flex items-center justify-center z-50 pointer-events-none p-4"
+          >
+            <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col pointer-events-auto">
+              <div className="flex items-center justify-between p-5 border-b">
+                <div className="flex items-center space-x-2">
+                  <History className="w-5 h-5 text-purple-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">Edit History</h2>
+                </div>
+                <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+                  <X className="w-5 h-5 text-gray-600" />
+                </button>
+              </div>
+
+              <div className="p-5 overflow-y-auto space-y-4">
+                {isLoading && (
+                  <div className="flex items-center justify-center py-8 text-gray-500">
+                    <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                    <span>Loading history...</span>
+                  </div>
+                )}
+
+                {!isLoading && entries.length === 0 && (
+                  <p className="text-center text-gray-500 py-8">No earlier versions found for this review.</p>
+                )}
+
+                {!isLoading && entries.map(({ version, previous }) => (
+                  <div key={version.txHash} className="border rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-semibold text-gray-900">
+                        {version.version === 1 ? 'Original' : `Version ${version.version}`}
+                      </span>
+                      <span className="text-xs text-gray-500">{formatDateTime(version.timestamp)}</span>
+                    </div>
+                    <VersionDiff previous={previous} current={version} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,51 +1,88 @@
-import React, { useState, useEffect } from 'react';
-import { Review } from '../types';
-import { useContract } from '../hooks/useContract';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Review, ReviewVote } from '../types';
 import { useWallet } from '../hooks/useWallet';
+import { useReviewCache } from '../hooks/useReviewCache';
 import { useEventListener } from '../hooks/useEventListener';
+import { useContract } from '../hooks/useContract';
+import { getHelpfulness } from '../utils/reviews';
 import { ReviewCard } from './ReviewCard';
 import { Eye, EyeOff } from 'lucide-react';
 
+type ReviewSort = 'newest' | 'helpful';
+
 interface ReviewListProps {
   businessName: string;
 }
 
 export const ReviewList: React.FC<ReviewListProps> = ({ businessName }) => {
-  const [reviews, setReviews] = useState<Review[]>([]);
   const [filteredReviews, setFilteredReviews] = useState<Review[]>([]);
-  const [loading, setLoading] = useState(false);
   const [showArchived, setShowArchived] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTag, setSelectedTag] = useState('');
-  const { getReviews, getBusinessOwner } = useContract();
-  const { account, userRole } = useWallet();
-  const [businessOwner, setBusinessOwner] = useState<string | null>(null);
-
-  // Fetch reviews
-  const fetchReviews = async () => {
-    setLoading(true);
-    try {
-      const fetchedReviews = await getReviews(businessName);
-      setReviews(fetchedReviews);
-      
-      // Get business owner
-      const owner = await getBusinessOwner(businessName);
-      setBusinessOwner(owner);
-    } catch (error) {
-      console.error('Error fetching reviews:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [sortBy, setSortBy] = useState<ReviewSort>('newest');
+  const [myVotes, setMyVotes] = useState<Map<string, ReviewVote>>(new Map());
+  const { getBusinessReviews, getBusinessOwner, refresh, isLoaded, lastSyncedBlock, error: cacheError } = useReviewCache();
+  const { account, userRole, repository } = useWallet();
+  const { getMyVotes, getReviews, getBusinessOwner: readBusinessOwner } = useContract();
+  const canVote = !!repository?.capabilities.voting;
+
+  // The cache failed before it synced anything, so the reviews are read from the contract instead
+  const readDirectly = cacheError !== null && lastSyncedBlock === null;
+  const [directReads, setDirectReads] = useState<{ reviews: Review[]; owner: string | null } | null>(null);
+
+  useEffect(() => {
+    setDirectReads(null);
+    if (!readDirectly) return;
+
+    let cancelled = false;
+    Promise.all([getReviews(businessName), readBusinessOwner(businessName)]).then(([reviews, owner]) => {
+      if (!cancelled) setDirectReads({ reviews, owner });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [readDirectly, businessName, getReviews, readBusinessOwner]);
+
+  // Served from the local cache, which keeps syncing in the background
+  const reviews = useMemo(
+    () => (readDirectly ? directReads?.reviews ?? [] : getBusinessReviews(businessName)),
+    [readDirectly, directReads, getBusinessReviews, businessName]
+  );
+  const businessOwner = readDirectly ? directReads?.owner ?? null : getBusinessOwner(businessName);
+  const loading = readDirectly
+    ? directReads === null
+    : !isLoaded || (lastSyncedBlock === null && reviews.length === 0);
 
   // Listen for events and refresh
-  useEventListener(fetchReviews);
+  useEventListener(refresh);
 
+  // Only refetch the connected account's votes when the set of reviewers changes, not on every sync
+  const reviewerKey = reviews.map(r => r.reviewer).join(',');
   useEffect(() => {
-    if (businessName) {
-      fetchReviews();
+    if (!canVote || !account) {
+      setMyVotes(new Map());
+      return;
     }
-  }, [businessName]);
+
+    let cancelled = false;
+    getMyVotes(businessName, reviewerKey ? reviewerKey.split(',') : []).then(votes => {
+      if (!cancelled) setMyVotes(votes);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canVote, account, businessName, reviewerKey, getMyVotes]);
+
+  const handleVoted = useCallback((reviewer: string, vote: ReviewVote | null) => {
+    setMyVotes(votes => {
+      const next = new Map(votes);
+      if (vote) next.set(reviewer.toLowerCase(), vote);
+      else next.delete(reviewer.toLowerCase());
+      return next;
+    });
+  }, []);
 
   // Filter reviews
   useEffect(() => {
@@ -69,11 +106,13 @@ export const ReviewList: React.FC<ReviewListProps> = ({ businessName }) => {
       filtered = filtered.filter(r => r.tags.includes(selectedTag));
     }
 
-    // Sort by timestamp (newest first)
-    filtered.sort((a, b) => b.timestamp - a.timestamp);
+    // Most helpful first when asked, falling back to newest first
+    filtered.sort((a, b) =>
+      (sortBy === 'helpful' ? getHelpfulness(b) - getHelpfulness(a) : 0) || b.timestamp - a.timestamp
+    );
 
     setFilteredReviews(filtered);
-  }, [reviews, showArchived, searchTerm, selectedTag]);
+  }, [reviews, showArchived, searchTerm, selectedTag, sortBy]);
 
   // Get all unique tags
   const allTags = [...new Set(reviews.flatMap(r => r.tags))];
@@ -120,6 +159,13 @@ export const ReviewList: React.FC<ReviewListProps> = ({ businessName }) => {
         )}
       </div>
 
+      {readDirectly && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+          <p className="text-sm text-yellow-800">Showing reviews read directly from the contract.</p>
+          <p className="text-xs text-yellow-700">{cacheError}</p>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="mb-4 space-y-2">
         <div className="flex space-x-2">
@@ -143,6 +189,17 @@ export const ReviewList: React.FC<ReviewListProps> = ({ businessName }) => {
               ))}
             </select>
           )}
+
+          {canVote && (
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as ReviewSort)}
+              className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              <option value="newest">Newest</option>
+              <option value="helpful">Most Helpful</option>
+            </select>
+          )}
         </div>
       </div>
 
@@ -159,7 +216,9 @@ export const ReviewList: React.FC<ReviewListProps> = ({ businessName }) => {
               review={review}
               businessName={businessName}
               businessOwner={businessOwner}
-              onUpdate={fetchReviews}
+              myVote={myVotes.get(review.reviewer.toLowerCase()) ?? null}
+              onVoted={handleVoted}
+              onUpdate={refresh}
             />
           ))}
         </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { RatingDimension, getDimensionLabel } from '../data/ratingDimensions';
+
+interface SubRatingsInputProps {
+  dimensions: RatingDimension[];
+  value: Record<string, number>;
+  onChange: (value: Record<string, number>) => void;
+  disabled?: boolean;
+}
+
+// A row of stars per dimension; every dimension is optional, and clicking its current score clears it
+export const SubRatingsInput: React.FC<SubRatingsInputProps> = ({ dimensions, value, onChange, disabled = false }) => {
+  const setScore = (key: string, score: number) => {
+    const { [key]: current, ...rest } = value;
+    onChange(current === score ? rest : { ...rest, [key]: score });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+      {dimensions.map(dimension => (
+        <div key={dimension.key} className="flex items-center justify-between">
+          <span className="text-sm text-gray-700">{dimension.label}</span>
+          <div className="flex items-center space-x-0.5">
+            {[1, 2, 3, 4, 5].map(score => (
+              <button
+                key={score}
+                type="button"
+                onClick={() => setScore(dimension.key, score)}
+                disabled={disabled}
+                className="focus:outline-none"
+                title={`${dimension.label}: ${score} star${score === 1 ? '' : 's'}`}
+              >
+                <Star
+                  className={`w-5 h-5 ${
+                    score <= (value[dimension.key] || 0) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface SubRatingsSummaryProps {
+  // Scores or averages by dimension key
+  scores: Record<string, number>;
+  // Only these dimensions are shown, in this order; otherwise every scored dimension is
+  dimensions?: RatingDimension[];
+  className?: string;
+}
+
+// A bar per scored dimension
+export const SubRatingsSummary: React.FC<SubRatingsSummaryProps> = ({ scores, dimensions, className = '' }) => {
+  const rows = (dimensions || Object.keys(scores).map(key => ({ key, label: getDimensionLabel(key) })))
+    .filter(dimension => scores[dimension.key] !== undefined);
+  if (rows.length === 0) return null;
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {rows.map(dimension => (
+        <div key={dimension.key} className="flex items-center text-xs">
+          <span className="w-28 text-gray-600 truncate">{dimension.label}</span>
+          <div className="flex-1 h-1.5 bg-gray-200 rounded-full mx-2">
+            <div
+              className="h-1.5 bg-yellow-400 rounded-full"
+              style={{ width: `${(scores[dimension.key] / 5) * 100}%` }}
+            />
+          </div>
+          <span className="w-6 text-right font-medium text-gray-700">{scores[dimension.key].toFixed(1)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
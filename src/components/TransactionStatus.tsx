@@ -1,12 +1,17 @@
 import React from 'react';
-import { useContract } from '../hooks/useContract';
-import { Loader2, CheckCircle2, XCircle, ExternalLink } from 'lucide-react';
+import { useTransactions } from '../hooks/useTransactions';
+import { useWallet } from '../hooks/useWallet';
+import { getChainConfig } from '../config/contractsV2';
+import { Loader2, CheckCircle2, XCircle, ExternalLink, X, Zap } from 'lucide-react';
 
 export const TransactionStatus: React.FC = () => {
-  const { transactionStatus } = useContract();
+  const { transactionStatus, speedUp, cancel, dismiss } = useTransactions();
+  const { chainId } = useWallet();
 
   if (!transactionStatus) return null;
 
+  const { blockExplorer } = getChainConfig(chainId);
+
   const getIcon = () => {
     switch (transactionStatus.type) {
       case 'pending':
@@ -35,19 +40,53 @@ export const TransactionStatus: React.FC = () => {
         {getIcon()}
         <div className="flex-1">
           <p className="font-medium">{transactionStatus.message}</p>
-          {transactionStatus.txHash && (
+          {transactionStatus.remedy && (
+            <p className="text-sm mt-1">{transactionStatus.remedy}</p>
+          )}
+          {transactionStatus.relayed && transactionStatus.type === 'pending' && (
+            <p className="text-sm mt-1">No gas needed, the relayer pays the network fee</p>
+          )}
+          {transactionStatus.estimatedCost && (
+            <p className="text-sm mt-1">
+              Estimated gas: {Number(transactionStatus.estimatedCost).toFixed(6)} ETH
+            </p>
+          )}
+          {transactionStatus.txHash && blockExplorer && (
             <a
-              href={`https://sepolia.etherscan.io/tx/${transactionStatus.txHash}`}
+              href={`${blockExplorer}/tx/${transactionStatus.txHash}`}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center space-x-1 text-sm underline mt-1"
             >
-              <span>View on Etherscan</span>
+              <span>View on explorer</span>
               <ExternalLink className="w-3 h-3" />
             </a>
           )}
+          {/* A stuck transaction can be replaced until it is mined */}
+          {transactionStatus.stage === 'submitted' && !transactionStatus.relayed && (
+            <div className="flex items-center space-x-2 mt-3">
+              <button
+                onClick={speedUp}
+                className="inline-flex items-center space-x-1 px-3 py-1 text-sm font-medium bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                <Zap className="w-3 h-3" />
+                <span>Speed up</span>
+              </button>
+              <button
+                onClick={cancel}
+                className="px-3 py-1 text-sm font-medium border border-blue-300 rounded-md hover:bg-blue-100"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
         </div>
+        {transactionStatus.type !== 'pending' && (
+          <button onClick={dismiss} className="opacity-60 hover:opacity-100" aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
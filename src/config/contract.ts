@@ -1,422 +1,33 @@
+import YelpReviewAbi from "./abis/YelpReview.json";
+
 export const CONTRACT_ADDRESS = "0x3035dC76c25aF1dcbD5C0b52Ea1A892d2349a387"; // Sepolia Testnet
+// The block CONTRACT_ADDRESS was deployed in, as shown for its creation transaction on Etherscan. The review
+// cache syncs from here; without it the first sync searches for it with eth_getCode, which needs an archive node
+export const CONTRACT_DEPLOY_BLOCK = Number(process.env.REACT_APP_CONTRACT_DEPLOY_BLOCK) || 0;
 export const SEPOLIA_CHAIN_ID = 11155111;
 export const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
 
-export const CONTRACT_ABI = [
-  {
-    "inputs": [],
-    "name": "ReviewArchived",
-    "type": "error"
-  },
-  {
-    "inputs": [],
-    "name": "ReviewFlagged",
-    "type": "error"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "indexed": false,
-        "internalType": "address",
-        "name": "owner",
-        "type": "address"
-      }
-    ],
-    "name": "BusinessOwnerSet",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "indexed": false,
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      },
-      {
-        "indexed": false,
-        "internalType": "string",
-        "name": "response",
-        "type": "string"
-      }
-    ],
-    "name": "OwnerResponseAdded",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": true,
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "indexed": true,
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      },
-      {
-        "indexed": false,
-        "internalType": "uint8",
-        "name": "rating",
-        "type": "uint8"
-      },
-      {
-        "indexed": false,
-        "internalType": "string",
-        "name": "comment",
-        "type": "string"
-      }
-    ],
-    "name": "ReviewAdded",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "indexed": false,
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      }
-    ],
-    "name": "ReviewArchived",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {
-        "indexed": false,
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "indexed": false,
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      }
-    ],
-    "name": "ReviewFlagged",
-    "type": "event"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "uint8",
-        "name": "rating",
-        "type": "uint8"
-      },
-      {
-        "internalType": "string",
-        "name": "comment",
-        "type": "string"
-      },
-      {
-        "internalType": "string[]",
-        "name": "tags",
-        "type": "string[]"
-      },
-      {
-        "internalType": "string",
-        "name": "imageHash",
-        "type": "string"
-      }
-    ],
-    "name": "addReview",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      },
-      {
-        "internalType": "string",
-        "name": "response",
-        "type": "string"
-      }
-    ],
-    "name": "addOwnerResponse",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      }
-    ],
-    "name": "archiveReview",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      }
-    ],
-    "name": "flagReview",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      }
-    ],
-    "name": "getBusinessOwner",
-    "outputs": [
-      {
-        "internalType": "address",
-        "name": "",
-        "type": "address"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "reviewer",
-        "type": "address"
-      }
-    ],
-    "name": "getReview",
-    "outputs": [
-      {
-        "components": [
-          {
-            "internalType": "address",
-            "name": "reviewer",
-            "type": "address"
-          },
-          {
-            "internalType": "uint256",
-            "name": "timestamp",
-            "type": "uint256"
-          },
-          {
-            "internalType": "uint8",
-            "name": "rating",
-            "type": "uint8"
-          },
-          {
-            "internalType": "string",
-            "name": "comment",
-            "type": "string"
-          },
-          {
-            "internalType": "string[]",
-            "name": "tags",
-            "type": "string[]"
-          },
-          {
-            "internalType": "string",
-            "name": "imageHash",
-            "type": "string"
-          },
-          {
-            "internalType": "bool",
-            "name": "isFlagged",
-            "type": "bool"
-          },
-          {
-            "internalType": "bool",
-            "name": "isArchived",
-            "type": "bool"
-          },
-          {
-            "internalType": "string",
-            "name": "ownerResponse",
-            "type": "string"
-          },
-          {
-            "internalType": "bool",
-            "name": "hasOwnerResponse",
-            "type": "bool"
-          }
-        ],
-        "internalType": "struct YelpReview.Review",
-        "name": "",
-        "type": "tuple"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      }
-    ],
-    "name": "getReviewers",
-    "outputs": [
-      {
-        "internalType": "address[]",
-        "name": "",
-        "type": "address[]"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "account",
-        "type": "address"
-      }
-    ],
-    "name": "getUserRole",
-    "outputs": [
-      {
-        "internalType": "string",
-        "name": "",
-        "type": "string"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "account",
-        "type": "address"
-      }
-    ],
-    "name": "isModerator",
-    "outputs": [
-      {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "owner",
-    "outputs": [
-      {
-        "internalType": "address",
-        "name": "",
-        "type": "address"
-      }
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "bytes32",
-        "name": "businessId",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "address",
-        "name": "businessOwner",
-        "type": "address"
-      }
-    ],
-    "name": "setBusinessOwner",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {
-        "internalType": "address",
-        "name": "moderator",
-        "type": "address"
-      },
-      {
-        "internalType": "bool",
-        "name": "status",
-        "type": "bool"
-      }
-    ],
-    "name": "setModerator",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  }
-];
\ No newline at end of file
+// Where review images are pinned: "kubo" (a node's HTTP API), "helia" (in the browser) or "mock" (in memory,
+// for development). Defaults to kubo when an API URL is set; with neither, nothing can be pinned
+export const IPFS_API_URL = process.env.REACT_APP_IPFS_API_URL || "";
+export const IPFS_API_KEY = process.env.REACT_APP_IPFS_API_KEY || "";
+export const IPFS_BACKEND = process.env.REACT_APP_IPFS_BACKEND || (IPFS_API_URL ? "kubo" : "");
+
+// Gateways images are loaded through, comma separated. They must support trustless CAR responses
+export const IPFS_GATEWAYS = (process.env.REACT_APP_IPFS_GATEWAYS || [
+  IPFS_GATEWAY,
+  "https://dweb.link/ipfs/",
+  "https://trustless-gateway.link/ipfs/",
+  "https://w3s.link/ipfs/"
+].join(",")).split(",").map(url => url.trim()).filter(Boolean);
+// A Kubo node's gateway on this machine, preferred whenever it responds. Set to an empty string to disable
+export const LOCAL_IPFS_GATEWAY = process.env.REACT_APP_LOCAL_IPFS_GATEWAY ?? "http://127.0.0.1:8080/ipfs/";
+
+// "document" pins each review's text, tags and images to IPFS as one JSON document and puts only its CID
+// on-chain, which costs less gas and lifts the length limits. "inline" stores everything on-chain
+export const REVIEW_STORAGE: "inline" | "document" = process.env.REACT_APP_REVIEW_STORAGE === "document" ? "document" : "inline";
+
+// Multicall3 is deployed at the same address on Sepolia and most EVM chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const CONTRACT_ABI = YelpReviewAbi;
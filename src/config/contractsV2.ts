@@ -1,9 +1,20 @@
 // Configuration for V2 Smart Contract Suite
 // These addresses will be updated after deployment
+import { CONTRACT_ADDRESS, CONTRACT_DEPLOY_BLOCK } from "./contract";
+import YelpReviewV2Abi from "./abis/YelpReviewV2.json";
+import { LOCAL_DEPLOYMENT } from "./localDeployment";
+import { REVIEW_LIMITS } from "../utils/reviewSchema";
+
+export const YELP_REVIEW_V2_ABI = YelpReviewV2Abi;
 
 export const V2_CONTRACTS = {
   // Sepolia Testnet Configuration
   SEPOLIA: {
+    // Live V1 contract
+    YelpReview: {
+      address: CONTRACT_ADDRESS,
+      deployBlock: CONTRACT_DEPLOY_BLOCK
+    },
     YelpReviewV2: {
       address: "", // To be deployed
       deployBlock: 0
@@ -25,30 +36,19 @@ export const V2_CONTRACTS = {
       deployBlock: 0,
       symbol: "YRW",
       decimals: 18
+    },
+    // Trusted forwarder for gasless meta-transactions
+    ReviewForwarder: {
+      address: "", // To be deployed
+      deployBlock: 0
     }
   },
   
-  // Local Development
+  // Local Development; written by `npm run deploy:local`
   LOCALHOST: {
-    YelpReviewV2: {
-      address: "", // Updated on local deployment
-      deployBlock: 0
-    },
-    UserProfile: {
-      address: "",
-      deployBlock: 0
-    },
-    GameFi: {
-      address: "",
-      deployBlock: 0
-    },
-    ReputationEngine: {
-      address: "",
-      deployBlock: 0
-    },
+    ...LOCAL_DEPLOYMENT.contracts,
     RewardToken: {
-      address: "",
-      deployBlock: 0,
+      ...LOCAL_DEPLOYMENT.contracts.RewardToken,
       symbol: "YRW",
       decimals: 18
     }
@@ -60,8 +60,13 @@ export const SUPPORTED_CHAINS = {
   SEPOLIA: {
     id: 11155111,
     name: "Sepolia Testnet",
-    rpcUrl: "https://sepolia.infura.io/v3/YOUR_INFURA_KEY",
+    // Used for read-only browsing; set REACT_APP_SEPOLIA_RPC_URL to use your own endpoint
+    rpcUrl: process.env.REACT_APP_SEPOLIA_RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
     blockExplorer: "https://sepolia.etherscan.io",
+    // Relayer that submits signed requests for users without gas; empty disables gasless writes
+    relayerUrl: process.env.REACT_APP_RELAYER_URL || "",
+    // Service that keeps ownership claims until an admin decides them; the relayer serves them too
+    claimsUrl: process.env.REACT_APP_CLAIMS_URL || process.env.REACT_APP_RELAYER_URL || "",
     nativeCurrency: {
       name: "SepoliaETH",
       symbol: "ETH",
@@ -73,6 +78,8 @@ export const SUPPORTED_CHAINS = {
     name: "Localhost",
     rpcUrl: "http://localhost:8545",
     blockExplorer: "",
+    relayerUrl: "http://localhost:8787",
+    claimsUrl: "http://localhost:8787",
     nativeCurrency: {
       name: "ETH",
       symbol: "ETH",
@@ -81,15 +88,20 @@ export const SUPPORTED_CHAINS = {
   }
 };
 
+// Chain the app browses before a wallet is connected; `npm run local` points it at LOCALHOST
+export const DEFAULT_CHAIN_ID = Number(process.env.REACT_APP_DEFAULT_CHAIN_ID) || SUPPORTED_CHAINS.SEPOLIA.id;
+
+// On-chain IDs of businesses registered by a seed script, keyed by business name
+const REGISTERED_BUSINESSES: Record<ChainKey, Record<string, string>> = {
+  SEPOLIA: {},
+  LOCALHOST: LOCAL_DEPLOYMENT.businesses
+};
+
 // Contract Features Configuration
 export const CONTRACT_FEATURES = {
   // Review System
   review: {
-    maxRating: 5,
-    minRating: 1,
-    maxCommentLength: 2000,
-    maxTags: 10,
-    maxImages: 5,
+    ...REVIEW_LIMITS.v2,
     cooldownPeriod: 3600, // 1 hour in seconds
     minAccountAge: 86400 // 1 day in seconds
   },
@@ -215,28 +227,45 @@ export const BADGES = [
   }
 ];
 
+type ChainKey = keyof typeof SUPPORTED_CHAINS;
+
+// SUPPORTED_CHAINS and V2_CONTRACTS share keys, so a chain is added by adding both entries
+const getChainKey = (chainId: number): ChainKey | undefined =>
+  (Object.keys(SUPPORTED_CHAINS) as ChainKey[]).find(key => SUPPORTED_CHAINS[key].id === chainId);
+
+export const isSupportedChain = (chainId: number) => getChainKey(chainId) !== undefined;
+
+export const getSupportedChains = (): ChainConfig[] => Object.values(SUPPORTED_CHAINS);
+
 // Helper function to get current network contracts
 export const getContractAddresses = (chainId: number) => {
-  switch (chainId) {
-    case 11155111: // Sepolia
-      return V2_CONTRACTS.SEPOLIA;
-    case 31337: // Localhost
-      return V2_CONTRACTS.LOCALHOST;
-    default:
-      throw new Error(`Unsupported chain ID: ${chainId}`);
+  const key = getChainKey(chainId);
+  if (!key) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
   }
+  return V2_CONTRACTS[key];
 };
 
 // Helper function to get chain config
-export const getChainConfig = (chainId: number) => {
-  switch (chainId) {
-    case 11155111:
-      return SUPPORTED_CHAINS.SEPOLIA;
-    case 31337:
-      return SUPPORTED_CHAINS.LOCALHOST;
-    default:
-      throw new Error(`Unsupported chain ID: ${chainId}`);
+export const getChainConfig = (chainId: number): ChainConfig => {
+  const key = getChainKey(chainId);
+  if (!key) {
+    throw new Error(`Unsupported chain ID: ${chainId}`);
   }
+  return SUPPORTED_CHAINS[key];
+};
+
+// V2 derives a business ID from its registration, so seeded businesses are looked up by name
+export const getRegisteredBusinessId = (chainId: number, businessName: string): string | undefined => {
+  const key = getChainKey(chainId);
+  return key ? REGISTERED_BUSINESSES[key][businessName] : undefined;
+};
+
+// Whether a review contract (V1 or V2) is deployed on the chain
+export const hasReviewDeployment = (chainId: number) => {
+  if (!isSupportedChain(chainId)) return false;
+  const addresses = getContractAddresses(chainId);
+  return Boolean(addresses.YelpReviewV2.address || addresses.YelpReview.address);
 };
 
 // Export types for TypeScript
@@ -255,6 +284,8 @@ export interface ChainConfig {
   name: string;
   rpcUrl: string;
   blockExplorer: string;
+  relayerUrl: string;
+  claimsUrl: string;
   nativeCurrency: {
     name: string;
     symbol: string;
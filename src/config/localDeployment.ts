@@ -0,0 +1,54 @@
+// The local chain deployment written by `npm run deploy:local`. The deploy script puts it in
+// REACT_APP_LOCAL_DEPLOYMENT in .env.development.local; without it every address is empty
+type ContractDeployment = { address: string; deployBlock: number };
+
+export interface LocalDeployment {
+  chainId: number;
+  deployedAt: string | null;
+  contracts: {
+    YelpReview: ContractDeployment;
+    YelpReviewV2: ContractDeployment;
+    UserProfile: ContractDeployment;
+    GameFi: ContractDeployment;
+    ReputationEngine: ContractDeployment;
+    RewardToken: ContractDeployment;
+    ReviewForwarder: ContractDeployment;
+  };
+  // On-chain business IDs keyed by business name
+  businesses: Record<string, string>;
+}
+
+const notDeployed = (): ContractDeployment => ({ address: "", deployBlock: 0 });
+
+const EMPTY_DEPLOYMENT: LocalDeployment = {
+  chainId: 31337,
+  deployedAt: null,
+  contracts: {
+    YelpReview: notDeployed(),
+    YelpReviewV2: notDeployed(),
+    UserProfile: notDeployed(),
+    GameFi: notDeployed(),
+    ReputationEngine: notDeployed(),
+    RewardToken: notDeployed(),
+    ReviewForwarder: notDeployed()
+  },
+  businesses: {}
+};
+
+const parseLocalDeployment = (json: string | undefined): LocalDeployment => {
+  if (!json) return EMPTY_DEPLOYMENT;
+  try {
+    const deployment: Partial<LocalDeployment> = JSON.parse(json);
+    return {
+      ...EMPTY_DEPLOYMENT,
+      ...deployment,
+      contracts: { ...EMPTY_DEPLOYMENT.contracts, ...deployment.contracts },
+      businesses: { ...deployment.businesses }
+    };
+  } catch (error) {
+    console.warn("Ignoring REACT_APP_LOCAL_DEPLOYMENT, it is not valid JSON:", error);
+    return EMPTY_DEPLOYMENT;
+  }
+};
+
+export const LOCAL_DEPLOYMENT = parseLocalDeployment(process.env.REACT_APP_LOCAL_DEPLOYMENT);
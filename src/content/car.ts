@@ -0,0 +1,114 @@
+import { DAG_PB_CODEC, IDENTITY_HASH, ParsedCid, RAW_CODEC, SHA2_256, UNIXFS_FILE, UNIXFS_RAW, parseCid, readCid, readVarint } from './cid';
+import { ContentVerificationError } from './types';
+
+// Blocks by the hex of their sha2-256 digest, which is all a link needs to find its target
+type BlockMap = Map<string, Uint8Array>;
+
+// Deep enough for any file our own uploads or Kubo's defaults produce
+const MAX_DEPTH = 8;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+interface PbField {
+  field: number;
+  // Varints as numbers, length-delimited fields as bytes
+  value: number | Uint8Array;
+}
+
+// Splits a protobuf message into its fields, in order
+const readFields = (bytes: Uint8Array): PbField[] => {
+  const fields: PbField[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    if (wireType === 0) {
+      const [value, next] = readVarint(bytes, afterKey);
+      fields.push({ field, value });
+      offset = next;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(bytes, afterKey);
+      if (start + length > bytes.length) throw new ContentVerificationError('Truncated protobuf field');
+      fields.push({ field, value: bytes.subarray(start, start + length) });
+      offset = start + length;
+    } else {
+      throw new ContentVerificationError(`Unexpected protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+};
+
+const bytesOf = (fields: PbField[], field: number): Uint8Array[] =>
+  fields.filter(f => f.field === field && f.value instanceof Uint8Array).map(f => f.value as Uint8Array);
+
+// Reads the blocks from a CARv1 stream, checking each against the hash in its CID
+const readCar = async (car: Uint8Array): Promise<BlockMap> => {
+  const blocks: BlockMap = new Map();
+
+  // The header is a length-prefixed dag-cbor map of roots; we already know which root we asked for
+  const [headerLength, headerStart] = readVarint(car, 0);
+  let offset = headerStart + headerLength;
+
+  while (offset < car.length) {
+    const [sectionLength, sectionStart] = readVarint(car, offset);
+    const sectionEnd = sectionStart + sectionLength;
+    if (sectionEnd > car.length) throw new ContentVerificationError('Truncated CAR file');
+
+    const [cid, blockStart] = readCid(car, sectionStart);
+    const block = car.subarray(blockStart, sectionEnd);
+    if (cid.hashCode !== SHA2_256) throw new ContentVerificationError(`Unsupported hash function 0x${cid.hashCode.toString(16)}`);
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', block));
+    if (!sameBytes(digest, cid.digest)) throw new ContentVerificationError('A block does not match its CID');
+
+    blocks.set(toHex(cid.digest), block);
+    offset = sectionEnd;
+  }
+  return blocks;
+};
+
+// Reassembles a UnixFS file from verified blocks, depth first in link order
+const assemble = (cid: ParsedCid, blocks: BlockMap, depth = 0): Uint8Array[] => {
+  if (cid.hashCode === IDENTITY_HASH) return [cid.digest];
+  if (depth > MAX_DEPTH) throw new ContentVerificationError('File tree is too deep');
+
+  const block = blocks.get(toHex(cid.digest));
+  if (!block) throw new ContentVerificationError('The gateway left out part of the file');
+  if (cid.codec === RAW_CODEC) return [block];
+  if (cid.codec !== DAG_PB_CODEC) throw new ContentVerificationError(`Unsupported codec 0x${cid.codec.toString(16)}`);
+
+  const node = readFields(block);
+  const [data] = bytesOf(node, 1);
+  const unixfs = data ? readFields(data) : [];
+  const type = unixfs.find(f => f.field === 1)?.value;
+  if (type !== UNIXFS_FILE && type !== UNIXFS_RAW) throw new ContentVerificationError('Only files can be loaded');
+
+  // Inline data comes before the linked children
+  const parts = bytesOf(unixfs, 2);
+  for (const link of bytesOf(node, 2)) {
+    const [hash] = bytesOf(readFields(link), 1);
+    if (!hash) throw new ContentVerificationError('A link has no CID');
+    parts.push(...assemble(readCid(hash)[0], blocks, depth + 1));
+  }
+  return parts;
+};
+
+/**
+ * Verifies a CAR response from a trustless gateway and returns the file it holds.
+ * Every block is hashed before use, so a gateway cannot substitute content for the CID we asked for.
+ */
+export const extractVerifiedFile = async (cid: string, car: Uint8Array): Promise<Uint8Array> => {
+  const root = parseCid(cid);
+  const parts = assemble(root, root.hashCode === IDENTITY_HASH ? new Map() : await readCar(car));
+
+  const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    file.set(part, offset);
+    offset += part.length;
+  }
+  return file;
+};
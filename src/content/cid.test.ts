@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { DAG_PB_CODEC, RAW_CODEC, SHA2_256, buildDag, parseCid } from './cid';
+
+const sha256 = async (bytes: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+describe('parseCid', () => {
+  it('parses a base58 CIDv0 as the same hash as its base32 CIDv1 form', () => {
+    const v0 = parseCid('QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco');
+    const v1 = parseCid('bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq');
+
+    expect(v0).toMatchObject({ version: 0, codec: DAG_PB_CODEC, hashCode: SHA2_256 });
+    expect(v1).toMatchObject({ version: 1, codec: DAG_PB_CODEC, hashCode: SHA2_256 });
+    expect(Array.from(v0.digest)).toEqual(Array.from(v1.digest));
+  });
+
+  it('parses a base32 raw CID to the sha2-256 of its content', async () => {
+    const content = new TextEncoder().encode('hello');
+    const { root } = await buildDag(content);
+    const parsed = parseCid(root);
+
+    expect(parsed.codec).toBe(RAW_CODEC);
+    expect(Array.from(parsed.digest)).toEqual(Array.from(await sha256(content)));
+  });
+
+  it('rejects strings that are not CIDs', () => {
+    expect(() => parseCid('not-a-cid')).toThrow();
+    expect(() => parseCid('b!!!')).toThrow();
+  });
+});
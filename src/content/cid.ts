@@ -0,0 +1,198 @@
+import { ContentBlock, ContentDag } from './types';
+
+// Kubo's defaults for `ipfs add --cid-version=1 --raw-leaves`, so CIDs computed here match what a node returns
+export const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+
+// Larger files need a deeper tree than the single root this module builds
+export const MAX_CONTENT_SIZE = CHUNK_SIZE * MAX_LINKS;
+
+const CID_VERSION = 0x01;
+export const RAW_CODEC = 0x55;
+export const DAG_PB_CODEC = 0x70;
+export const SHA2_256 = 0x12;
+// Identity "hashes" carry the content itself, so they never need fetching
+export const IDENTITY_HASH = 0x00;
+export const UNIXFS_FILE = 2;
+export const UNIXFS_RAW = 0;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// A CID taken apart: what its block is encoded as, and the hash the block must match
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Uint8Array;
+}
+
+// RFC 4648 base32, lowercase and unpadded, as multibase 'b' expects
+const toBase32 = (bytes: Uint8Array): string => {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  bytes.forEach(byte => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+};
+
+const fromBase32 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) throw new Error(`Invalid base32 character "${char}"`);
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// Base58btc, used by CIDv0 ("Qm...") strings
+const fromBase58 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    for (; carry > 0; carry >>= 8) bytes.push(carry & 0xff);
+  }
+  // Leading '1's stand for leading zero bytes
+  for (let i = 0; i < text.length && text[i] === '1'; i++) bytes.push(0);
+  return new Uint8Array(bytes.reverse());
+};
+
+// Reads an unsigned varint, returning its value and the offset just past it
+export const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  let scale = 1;
+  for (let i = offset; i < bytes.length; i++) {
+    value += (bytes[i] & 0x7f) * scale;
+    if (bytes[i] < 0x80) return [value, i + 1];
+    scale *= 0x80;
+  }
+  throw new Error('Truncated varint');
+};
+
+/**
+ * Parses a binary CID starting at offset, as found in CAR files and dag-pb links.
+ * Returns the CID and the offset just past it.
+ */
+export const readCid = (bytes: Uint8Array, offset = 0): [ParsedCid, number] => {
+  // CIDv0 is a bare sha2-256 multihash of a dag-pb block
+  if (bytes[offset] === SHA2_256 && bytes[offset + 1] === 32) {
+    return [{ version: 0, codec: DAG_PB_CODEC, hashCode: SHA2_256, digest: bytes.subarray(offset + 2, offset + 34) }, offset + 34];
+  }
+
+  const [version, afterVersion] = readVarint(bytes, offset);
+  if (version !== 1) throw new Error(`Unsupported CID version ${version}`);
+  const [codec, afterCodec] = readVarint(bytes, afterVersion);
+  const [hashCode, afterHash] = readVarint(bytes, afterCodec);
+  const [length, start] = readVarint(bytes, afterHash);
+  if (start + length > bytes.length) throw new Error('Truncated CID');
+  return [{ version: 1, codec, hashCode, digest: bytes.subarray(start, start + length) }, start + length];
+};
+
+// Parses a CID string: base58 CIDv0 or base32 CIDv1, the two forms IPFS tools print
+export const parseCid = (cid: string): ParsedCid => {
+  if (cid.startsWith('Qm') && cid.length === 46) return readCid(fromBase58(cid))[0];
+  if (cid.startsWith('b')) return readCid(fromBase32(cid.slice(1)))[0];
+  throw new Error(`Unsupported CID "${cid}"`);
+};
+
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+const concat = (parts: (Uint8Array | number[])[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
+
+// Protobuf length-delimited field
+const bytesField = (field: number, value: Uint8Array) => concat([varint((field << 3) | 2), varint(value.length), value]);
+const varintField = (field: number, value: number) => [...varint(field << 3), ...varint(value)];
+
+const cidBytes = async (codec: number, block: Uint8Array): Promise<Uint8Array> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', block));
+  return concat([[CID_VERSION, codec, SHA2_256, digest.length], digest]);
+};
+
+const cidToString = (bytes: Uint8Array) => `b${toBase32(bytes)}`;
+
+// A UnixFS file node linking to raw leaves, encoded the way dag-pb requires: links first, then data
+const encodeFileNode = (leaves: { cid: Uint8Array; size: number }[], fileSize: number): Uint8Array => {
+  const unixfs = new Uint8Array([
+    ...varintField(1, UNIXFS_FILE),
+    ...varintField(3, fileSize),
+    ...leaves.flatMap(leaf => varintField(4, leaf.size)),
+  ]);
+  const links = leaves.map(leaf => bytesField(2, concat([
+    bytesField(1, leaf.cid),
+    bytesField(2, new Uint8Array()),
+    varintField(3, leaf.size),
+  ])));
+  return concat([...links, bytesField(1, unixfs)]);
+};
+
+/**
+ * Chunk a file into the same blocks Kubo would store and compute their CIDs locally,
+ * so an upload can be checked against what we expected rather than trusted blindly.
+ */
+export const buildDag = async (content: Uint8Array): Promise<ContentDag> => {
+  if (content.length === 0) {
+    throw new Error('Cannot store an empty file');
+  }
+  if (content.length > MAX_CONTENT_SIZE) {
+    throw new Error(`Files larger than ${Math.floor(MAX_CONTENT_SIZE / (1024 * 1024))}MB are not supported`);
+  }
+
+  const leaves: (ContentBlock & { cidBytes: Uint8Array })[] = [];
+  for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+    const bytes = content.subarray(offset, offset + CHUNK_SIZE);
+    const cid = await cidBytes(RAW_CODEC, bytes);
+    leaves.push({ cid: cidToString(cid), cidBytes: cid, bytes });
+  }
+
+  // A single chunk is its own root
+  if (leaves.length === 1) {
+    return { root: leaves[0].cid, blocks: [{ cid: leaves[0].cid, bytes: leaves[0].bytes }], size: content.length };
+  }
+
+  const rootBytes = encodeFileNode(leaves.map(leaf => ({ cid: leaf.cidBytes, size: leaf.bytes.length })), content.length);
+  const root = cidToString(await cidBytes(DAG_PB_CODEC, rootBytes));
+  return {
+    root,
+    blocks: [...leaves.map(({ cid, bytes }) => ({ cid, bytes })), { cid: root, bytes: rootBytes }],
+    size: content.length,
+  };
+};
@@ -0,0 +1,42 @@
+import { buildDag } from './cid';
+import { CidMismatchError, ContentBackend, ContentStore, ContentUploadError } from './types';
+
+export interface ContentStoreOptions {
+  attempts?: number;
+  // Doubled after each failed attempt
+  retryDelayMs?: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Hash a file locally, hand it to a backend, and only accept the upload when the backend
+ * reports the same CID. Transient failures are retried with backoff.
+ */
+export const createContentStore = (
+  backend: ContentBackend,
+  { attempts = 3, retryDelayMs = 1000 }: ContentStoreOptions = {}
+): ContentStore => ({
+  backend: backend.name,
+
+  put: async (file, { onProgress } = {}) => {
+    const dag = await buildDag(new Uint8Array(await file.arrayBuffer()));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const received = await backend.upload(file, dag, onProgress);
+        if (received !== dag.root) {
+          throw new CidMismatchError(dag.root, received);
+        }
+        return dag.root;
+      } catch (error) {
+        const retryable = !(error instanceof ContentUploadError) || error.retryable;
+        if (!retryable || attempt >= attempts) throw error;
+
+        console.warn(`IPFS upload attempt ${attempt} failed, retrying:`, error);
+        onProgress?.(0, dag.size);
+        await wait(retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  },
+});
@@ -0,0 +1,238 @@
+import { extractVerifiedFile } from './car';
+import { parseCid } from './cid';
+import { ContentVerificationError, GatewayHealth, GatewayResolver } from './types';
+
+export interface GatewayOptions {
+  // Path gateways ending in /ipfs/, e.g. https://ipfs.io/ipfs/
+  gateways: string[];
+  // Tried on its own before the others whenever it answers a probe, e.g. a Kubo node's gateway on this machine
+  localGateway?: string;
+  // Remote gateways asked at once; the first verified answer wins
+  raceWidth?: number;
+  timeoutMs?: number;
+  // Verified files kept in memory
+  cacheSize?: number;
+  // Responses larger than this are refused rather than downloaded
+  maxSize?: number;
+}
+
+// The empty identity CID: any gateway can answer it without touching the network, so it makes a cheap probe
+const PROBE_CID = 'bafkqaaa';
+const PROBE_TIMEOUT_MS = 1500;
+// A local node may have to fetch content from the network itself; don't hold up the public gateways for long
+const LOCAL_TIMEOUT_MS = 4000;
+// Stop preferring the local gateway after this many failures in a row
+const LOCAL_FAILURE_LIMIT = 3;
+
+const INITIAL_LATENCY_MS = 1000;
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+// Each consecutive failure ranks a gateway as if it were this much slower
+const FAILURE_PENALTY_MS = 5000;
+
+const score = (gateway: GatewayHealth) => gateway.latencyMs + gateway.consecutiveFailures * FAILURE_PENALTY_MS;
+
+/**
+ * Reads a response body chunk by chunk, giving up as soon as it grows past maxSize. Gateways stream CARs
+ * without a content-length, so a CID pointing at a huge DAG would otherwise be downloaded in full.
+ */
+const readLimited = async (response: Response, maxSize: number, cid: string): Promise<Uint8Array> => {
+  if (!response.body) throw new Error(`${response.url} sent no body for ${cid}`);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      reader.cancel().catch(() => undefined);
+      throw new Error(`${cid} is too large to load`);
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+};
+
+const normalize = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+const createHealth = (url: string, isLocal: boolean): GatewayHealth => ({
+  url: normalize(url),
+  isLocal,
+  successes: 0,
+  failures: 0,
+  latencyMs: INITIAL_LATENCY_MS,
+  consecutiveFailures: 0,
+});
+
+// A Map used as an LRU cache: reads move entries to the back, inserts evict from the front
+const touch = <V,>(cache: Map<string, V>, key: string, value: V, limit: number, onEvict?: (value: V) => void) => {
+  cache.delete(key);
+  cache.set(key, value);
+  while (cache.size > limit) {
+    const [oldestKey, oldest] = cache.entries().next().value as [string, V];
+    cache.delete(oldestKey);
+    onEvict?.(oldest);
+  }
+};
+
+/**
+ * Loads IPFS content through a set of gateways, ranked by how fast and reliable they have been.
+ * Content is requested as a CAR and checked block by block against its CID, so an answer is only
+ * accepted when it is provably the right content, and a wrong or slow gateway just loses the race.
+ */
+export const createGatewayResolver = ({
+  gateways,
+  localGateway,
+  raceWidth = 2,
+  timeoutMs = 15000,
+  cacheSize = 200,
+  maxSize = 16 * 1024 * 1024,
+}: GatewayOptions): GatewayResolver => {
+  const remotes = gateways.map(url => createHealth(url, false));
+  const local = localGateway ? createHealth(localGateway, true) : null;
+  const files = new Map<string, Promise<Blob>>();
+  const urls = new Map<string, Promise<string>>();
+  let localAvailable: Promise<boolean> | null = null;
+
+  const recordSuccess = (gateway: GatewayHealth, elapsed: number) => {
+    gateway.successes++;
+    gateway.consecutiveFailures = 0;
+    gateway.latencyMs = gateway.latencyMs * (1 - LATENCY_SMOOTHING) + elapsed * LATENCY_SMOOTHING;
+  };
+
+  const recordFailure = (gateway: GatewayHealth) => {
+    gateway.failures++;
+    gateway.consecutiveFailures++;
+  };
+
+  // One attempt at one gateway. Losing a race is not held against the gateway; timing out or lying is
+  const attempt = async (gateway: GatewayHealth, cid: string, controller: AbortController, limitMs: number) => {
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, limitMs);
+    const started = performance.now();
+
+    try {
+      // dag-scope=entity asks for the file alone, not everything under a directory CID
+      const response = await fetch(`${gateway.url}${cid}?format=car&dag-scope=entity`, {
+        headers: { Accept: 'application/vnd.ipld.car' },
+        signal: controller.signal,
+      });
+      if (!response.ok) throw new Error(`${gateway.url} responded with ${response.status}`);
+      if (Number(response.headers.get('content-length')) > maxSize) throw new Error(`${cid} is too large to load`);
+
+      const car = await readLimited(response, maxSize, cid);
+
+      const file = await extractVerifiedFile(cid, car);
+      recordSuccess(gateway, performance.now() - started);
+      return new Blob([file]);
+    } catch (error) {
+      if (timedOut || !controller.signal.aborted) recordFailure(gateway);
+      if (error instanceof ContentVerificationError) {
+        console.warn(`Gateway ${gateway.url} sent content that does not match ${cid}:`, error.message);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const race = async (batch: GatewayHealth[], cid: string) => {
+    const controllers = batch.map(() => new AbortController());
+    try {
+      return await Promise.any(batch.map((gateway, i) => attempt(gateway, cid, controllers[i], timeoutMs)));
+    } finally {
+      // Stop the losers downloading
+      controllers.forEach(controller => controller.abort());
+    }
+  };
+
+  const isLocalAvailable = () => {
+    if (!local) return Promise.resolve(false);
+    if (!localAvailable) {
+      localAvailable = fetch(`${local.url}${PROBE_CID}`, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) })
+        .then(response => response.ok)
+        .catch(() => false);
+    }
+    return localAvailable;
+  };
+
+  const resolve = async (cid: string): Promise<Blob> => {
+    // Fail on malformed CIDs before asking anyone
+    parseCid(cid);
+
+    if (local && local.consecutiveFailures < LOCAL_FAILURE_LIMIT && (await isLocalAvailable())) {
+      try {
+        return await attempt(local, cid, new AbortController(), LOCAL_TIMEOUT_MS);
+      } catch {
+        // Fall through to the public gateways
+      }
+    }
+
+    const ranked = [...remotes].sort((a, b) => score(a) - score(b));
+    for (let i = 0; i < ranked.length; i += raceWidth) {
+      try {
+        return await race(ranked.slice(i, i + raceWidth), cid);
+      } catch {
+        // Every gateway in this batch failed; try the next ones
+      }
+    }
+    throw new Error(`No gateway could provide ${cid}`);
+  };
+
+  const fetchContent = (cid: string): Promise<Blob> => {
+    const cached = files.get(cid);
+    if (cached) {
+      touch(files, cid, cached, cacheSize);
+      return cached;
+    }
+
+    const pending = resolve(cid);
+    touch(files, cid, pending, cacheSize);
+    // Let the next request try again rather than caching the failure
+    pending.catch(() => {
+      if (files.get(cid) === pending) files.delete(cid);
+    });
+    return pending;
+  };
+
+  const revoke = (url: Promise<string>) => {
+    url.then(URL.revokeObjectURL, () => undefined);
+  };
+
+  return {
+    fetch: fetchContent,
+
+    getUrl: cid => {
+      const cached = urls.get(cid);
+      if (cached) {
+        touch(urls, cid, cached, cacheSize, revoke);
+        return cached;
+      }
+
+      const pending = fetchContent(cid).then(blob => URL.createObjectURL(blob));
+      touch(urls, cid, pending, cacheSize, revoke);
+      pending.catch(() => {
+        if (urls.get(cid) === pending) urls.delete(cid);
+      });
+      return pending;
+    },
+
+    remember: (cid, content) => {
+      touch(files, cid, Promise.resolve(content), cacheSize);
+    },
+
+    getHealth: () => [...(local ? [local] : []), ...remotes].map(gateway => ({ ...gateway })),
+  };
+};
@@ -0,0 +1,51 @@
+import type { Helia } from 'helia';
+import type { CID } from 'multiformats/cid';
+import { ContentBackend, ContentUploadError } from './types';
+
+interface HeliaModules {
+  node: Helia;
+  parseCid: (cid: string) => CID;
+}
+
+let modules: Promise<HeliaModules> | null = null;
+
+// Helia and libp2p are split into their own chunk, so they only download for users of this backend
+const loadHelia = (): Promise<HeliaModules> => {
+  if (!modules) {
+    modules = Promise.all([import('helia'), import('multiformats/cid')]).then(async ([helia, multiformats]) => ({
+      node: await helia.createHelia(),
+      parseCid: (cid: string) => multiformats.CID.parse(cid),
+    })).catch(error => {
+      // Let the next upload try again instead of caching the failure
+      modules = null;
+      throw new ContentUploadError(`Could not start the in-browser IPFS node: ${(error as Error).message}`, true);
+    });
+  }
+  return modules;
+};
+
+/**
+ * Stores the blocks we computed in an in-browser Helia node and pins the root. The node provides
+ * the content to the network only while the page is open, so pair it with a pinning service for permanence.
+ */
+export const createHeliaBackend = (): ContentBackend => ({
+  name: 'helia',
+
+  upload: async (_file, dag, onProgress) => {
+    const { node, parseCid } = await loadHelia();
+
+    let stored = 0;
+    for (const block of dag.blocks) {
+      await node.blockstore.put(parseCid(block.cid), block.bytes);
+      stored += block.bytes.length;
+      onProgress?.(Math.min(stored, dag.size), dag.size);
+    }
+
+    // Pinning walks the DAG from the root, so it fails if any block we stored doesn't match its link
+    const root = parseCid(dag.root);
+    for await (const pinned of node.pins.add(root)) {
+      void pinned;
+    }
+    return root.toString();
+  },
+});
@@ -0,0 +1,57 @@
+import {
+  IPFS_API_KEY,
+  IPFS_API_URL,
+  IPFS_BACKEND,
+  IPFS_GATEWAYS,
+  LOCAL_IPFS_GATEWAY,
+} from '../config/contract';
+import { createContentStore } from './contentStore';
+import { createGatewayResolver } from './gateways';
+import { createHeliaBackend } from './heliaBackend';
+import { createKuboBackend } from './kuboBackend';
+import { createMockBackend } from './mockBackend';
+import { ContentBackend, ContentStore, ContentUploadError, GatewayResolver } from './types';
+
+export * from './types';
+export { buildDag, parseCid, MAX_CONTENT_SIZE } from './cid';
+export { extractVerifiedFile } from './car';
+export { createGatewayResolver } from './gateways';
+export { createContentStore } from './contentStore';
+export { createKuboBackend } from './kuboBackend';
+export { createHeliaBackend } from './heliaBackend';
+export { createMockBackend } from './mockBackend';
+
+const BACKENDS = ['kubo', 'helia', 'mock'];
+
+// Whether there is anywhere to pin content; without a backend, images can't be attached to reviews
+export const hasContentBackend = BACKENDS.includes(IPFS_BACKEND);
+
+const createConfiguredBackend = (): ContentBackend => {
+  switch (IPFS_BACKEND) {
+    case 'kubo':
+      return createKuboBackend({ apiUrl: IPFS_API_URL || 'http://127.0.0.1:5001', apiKey: IPFS_API_KEY || undefined });
+    case 'helia':
+      return createHeliaBackend();
+    case 'mock':
+      console.warn('Review images are only kept in memory. Set REACT_APP_IPFS_API_URL to pin them.');
+      return createMockBackend();
+    default:
+      throw new ContentUploadError('No IPFS backend is configured. Set REACT_APP_IPFS_API_URL or REACT_APP_IPFS_BACKEND', false);
+  }
+};
+
+let store: ContentStore | null = null;
+
+// The app-wide store for the configured backend, created on first use
+export const getContentStore = (): ContentStore => {
+  if (!store) store = createContentStore(createConfiguredBackend());
+  return store;
+};
+
+let resolver: GatewayResolver | null = null;
+
+// The app-wide resolver for the configured gateways, so health scores and the cache are shared
+export const getGatewayResolver = (): GatewayResolver => {
+  if (!resolver) resolver = createGatewayResolver({ gateways: IPFS_GATEWAYS, localGateway: LOCAL_IPFS_GATEWAY || undefined });
+  return resolver;
+};
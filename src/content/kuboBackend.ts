@@ -0,0 +1,54 @@
+import { CHUNK_SIZE } from './cid';
+import { ContentBackend, ContentUploadError } from './types';
+
+export interface KuboOptions {
+  // e.g. http://127.0.0.1:5001; the node must allow this origin in API.HTTPHeaders
+  apiUrl: string;
+  // Sent as a bearer token, for nodes behind an authenticating proxy
+  apiKey?: string;
+}
+
+// Parameters that make Kubo chunk and hash exactly like buildDag
+const ADD_PARAMS = new URLSearchParams({
+  'cid-version': '1',
+  'raw-leaves': 'true',
+  chunker: `size-${CHUNK_SIZE}`,
+  hash: 'sha2-256',
+  pin: 'true',
+});
+
+// Uploads through a Kubo node's HTTP RPC API. XHR rather than fetch, since only XHR reports upload progress
+export const createKuboBackend = ({ apiUrl, apiKey }: KuboOptions): ContentBackend => ({
+  name: 'kubo',
+
+  upload: (file, dag, onProgress) => new Promise((resolve, reject) => {
+    const body = new FormData();
+    body.append('file', file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${apiUrl.replace(/\/$/, '')}/api/v0/add?${ADD_PARAMS}`);
+    if (apiKey) xhr.setRequestHeader('Authorization', `Bearer ${apiKey}`);
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) onProgress?.(Math.min(event.loaded, dag.size), dag.size);
+    };
+    xhr.onerror = () => reject(new ContentUploadError('IPFS node unreachable', true));
+    xhr.ontimeout = () => reject(new ContentUploadError('IPFS upload timed out', true));
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        // Server errors are often transient; a bad request will fail the same way again
+        reject(new ContentUploadError(`IPFS node responded with ${xhr.status}: ${xhr.responseText}`, xhr.status >= 500));
+        return;
+      }
+      try {
+        // One JSON object per line; the last one describes the file itself
+        const lines = xhr.responseText.trim().split('\n');
+        resolve(JSON.parse(lines[lines.length - 1]).Hash);
+      } catch {
+        reject(new ContentUploadError('IPFS node sent an unreadable response', false));
+      }
+    };
+
+    xhr.send(body);
+  }),
+});
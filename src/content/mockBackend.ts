@@ -0,0 +1,33 @@
+import { ContentBackend, ContentUploadError } from './types';
+
+export interface MockOptions {
+  // Fail this many uploads with a retryable error before succeeding, to exercise retries
+  failures?: number;
+}
+
+export type MockBackend = ContentBackend & {
+  // Everything "uploaded", by CID
+  blocks: Map<string, Uint8Array>;
+};
+
+// Keeps blocks in memory and echoes the local CID; for tests and for running without an IPFS node
+export const createMockBackend = ({ failures = 0 }: MockOptions = {}): MockBackend => {
+  const blocks = new Map<string, Uint8Array>();
+  let remainingFailures = failures;
+
+  return {
+    name: 'mock',
+    blocks,
+
+    upload: async (_file, dag, onProgress) => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        throw new ContentUploadError('Simulated IPFS failure', true);
+      }
+
+      dag.blocks.forEach(block => blocks.set(block.cid, block.bytes));
+      onProgress?.(dag.size, dag.size);
+      return dag.root;
+    },
+  };
+};
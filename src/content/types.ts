@@ -0,0 +1,76 @@
+// One IPFS block: its CID and the exact bytes it hashes
+export interface ContentBlock {
+  cid: string;
+  bytes: Uint8Array;
+}
+
+// A file split into blocks, leaves first and the root last
+export interface ContentDag {
+  root: string;
+  blocks: ContentBlock[];
+  size: number;
+}
+
+export type UploadProgress = (loaded: number, total: number) => void;
+
+export type ContentBackendName = 'kubo' | 'helia' | 'mock';
+
+// Where content is pinned; returns the CID the backend says it stored
+export interface ContentBackend {
+  name: ContentBackendName;
+  upload: (file: Blob, dag: ContentDag, onProgress?: UploadProgress) => Promise<string>;
+}
+
+export interface PutOptions {
+  onProgress?: UploadProgress;
+}
+
+export interface ContentStore {
+  backend: ContentBackendName;
+  // Uploads and pins a file, resolving to its verified CID
+  put: (file: Blob, options?: PutOptions) => Promise<string>;
+}
+
+export class ContentUploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'ContentUploadError';
+  }
+}
+
+// The backend stored something other than what we hashed; retrying won't help
+export class CidMismatchError extends ContentUploadError {
+  constructor(readonly expected: string, readonly received: string) {
+    super(`IPFS returned ${received}, expected ${expected}`, false);
+    this.name = 'CidMismatchError';
+  }
+}
+
+// A gateway's response could not be proven to be the content its CID names
+export class ContentVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentVerificationError';
+  }
+}
+
+// How a gateway has been doing, for ordering attempts
+export interface GatewayHealth {
+  url: string;
+  isLocal: boolean;
+  successes: number;
+  failures: number;
+  // Smoothed time to a verified response, in milliseconds
+  latencyMs: number;
+  consecutiveFailures: number;
+}
+
+export interface GatewayResolver {
+  // Verified content, from the cache or the best gateways
+  fetch: (cid: string) => Promise<Blob>;
+  // An object URL for the verified content, for <img> and friends
+  getUrl: (cid: string) => Promise<string>;
+  // Seed the cache with content we already hold, e.g. right after uploading it
+  remember: (cid: string, content: Blob) => void;
+  getHealth: () => GatewayHealth[];
+}
@@ -13,6 +13,10 @@ export interface BusinessDetails {
   totalReviews?: number;
   priceRange?: string;
   tags?: string[];
+  // Set when the business is in the chain's on-chain registry
+  registryId?: string;
+  owner?: string;
+  isVerified?: boolean;
 }
 
 export const BUSINESS_CATEGORIES = [
@@ -318,17 +322,23 @@ export const KENYAN_BUSINESSES: BusinessDetails[] = [
 ];
 
 // Helper function to get businesses by category
-export const getBusinessesByCategory = (category: string): BusinessDetails[] => {
+export const getBusinessesByCategory = (
+  category: string,
+  businesses: BusinessDetails[] = KENYAN_BUSINESSES
+): BusinessDetails[] => {
   if (category === 'All Categories' || !category) {
-    return KENYAN_BUSINESSES;
+    return businesses;
   }
-  return KENYAN_BUSINESSES.filter(b => b.category === category);
+  return businesses.filter(b => b.category === category);
 };
 
 // Helper function to search businesses
-export const searchBusinesses = (query: string): BusinessDetails[] => {
+export const searchBusinesses = (
+  query: string,
+  businesses: BusinessDetails[] = KENYAN_BUSINESSES
+): BusinessDetails[] => {
   const lowercaseQuery = query.toLowerCase();
-  return KENYAN_BUSINESSES.filter(b => 
+  return businesses.filter(b => 
     b.name.toLowerCase().includes(lowercaseQuery) ||
     b.description.toLowerCase().includes(lowercaseQuery) ||
     b.location.toLowerCase().includes(lowercaseQuery) ||
@@ -0,0 +1,69 @@
+export interface RatingDimension {
+  key: string;
+  label: string;
+}
+
+// Keys are stored in review documents, so they must never be renamed; labels can change freely
+const DIMENSION_LABELS: Record<string, string> = {
+  food: 'Food',
+  service: 'Service',
+  ambience: 'Ambience',
+  value: 'Value',
+  cleanliness: 'Cleanliness',
+  location: 'Location',
+  staff: 'Staff',
+  drinks: 'Drinks',
+  selection: 'Selection',
+  prices: 'Prices',
+  experience: 'Experience',
+  atmosphere: 'Atmosphere',
+  care: 'Quality of Care',
+  waitTime: 'Wait Time',
+  fees: 'Fees',
+  teaching: 'Teaching',
+  facilities: 'Facilities',
+  punctuality: 'Punctuality',
+  comfort: 'Comfort',
+  safety: 'Safety',
+  product: 'Product',
+  support: 'Support',
+  results: 'Results',
+  hygiene: 'Hygiene',
+  equipment: 'Equipment',
+  workmanship: 'Workmanship',
+  honesty: 'Honesty',
+  turnaround: 'Turnaround',
+  responsiveness: 'Responsiveness',
+  transparency: 'Transparency',
+};
+
+// The dimensions reviewers score, per entry of BUSINESS_CATEGORIES
+const CATEGORY_DIMENSIONS: Record<string, string[]> = {
+  'Restaurants': ['food', 'service', 'ambience', 'value'],
+  'Hotels': ['cleanliness', 'location', 'staff', 'value'],
+  'Cafes & Coffee': ['drinks', 'food', 'ambience', 'service'],
+  'Shopping': ['selection', 'prices', 'service'],
+  'Entertainment': ['experience', 'atmosphere', 'value'],
+  'Healthcare': ['care', 'staff', 'waitTime', 'cleanliness'],
+  'Banking': ['service', 'waitTime', 'fees'],
+  'Education': ['teaching', 'facilities', 'staff'],
+  'Transportation': ['punctuality', 'comfort', 'safety'],
+  'Technology': ['product', 'support', 'value'],
+  'Beauty & Spa': ['results', 'hygiene', 'staff', 'value'],
+  'Fitness': ['equipment', 'cleanliness', 'staff', 'value'],
+  'Automotive': ['workmanship', 'honesty', 'turnaround'],
+  'Real Estate': ['responsiveness', 'transparency', 'value'],
+};
+
+// Registered businesses can use any category name
+const DEFAULT_DIMENSIONS = ['service', 'value'];
+
+// Documents can hold at most this many sub-ratings
+export const MAX_RATING_DIMENSIONS = Math.max(...Object.values(CATEGORY_DIMENSIONS).map(keys => keys.length));
+
+export const getDimensionLabel = (key: string) => DIMENSION_LABELS[key] || key;
+
+export const getRatingDimensions = (category?: string): RatingDimension[] => {
+  const keys = (category && CATEGORY_DIMENSIONS[category]) || DEFAULT_DIMENSIONS;
+  return keys.map(key => ({ key, label: getDimensionLabel(key) }));
+};
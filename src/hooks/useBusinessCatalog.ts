@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useReviewCache } from './useReviewCache';
+
+// The curated businesses merged with everything registered on the current chain
+export const useBusinessCatalog = () => {
+  const { catalog: businesses } = useReviewCache();
+
+  const categories = useMemo(
+    () => Array.from(new Set(businesses.map(b => b.category))).sort(),
+    [businesses]
+  );
+
+  const cities = useMemo(
+    () => Array.from(new Set(businesses.map(b => b.city))).sort(),
+    [businesses]
+  );
+
+  return { businesses, categories, cities };
+};
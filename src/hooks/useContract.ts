@@ -1,17 +1,85 @@
-import { useState, useCallback } from 'react';
+import { useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWallet } from './useWallet';
-import { Review, TransactionStatus } from '../types';
+import { useTransactions } from './useTransactions';
+import { useReviewCache } from './useReviewCache';
+import { useReviewLimits } from './useReviewLimits';
+import { Review, ReviewDetails, BusinessStats, ReviewVote, BanRecord, UserRole, ModerationAction, ModeratorChange, RegisteredBusiness } from '../types';
+import { BusinessRegistration, ReviewInput, ReviewRef } from '../repositories';
+import { REVIEW_STORAGE } from '../config/contract';
+import { normalizeBusinessName } from '../utils/businessCatalog';
+import { getSubRatingAverages } from '../utils/reviews';
+import { ReviewLimits, validateReview } from '../utils/reviewSchema';
+import { createReviewDocument, hydrateReviewBody, publishReviewDocument, toDocumentUri } from '../utils/reviewDocuments';
 import toast from 'react-hot-toast';
 
+// Toasts the first way the review breaks the schema
+const isValidReview = (input: ReviewInput, limits: ReviewLimits) => {
+  const [issue] = validateReview(input, limits);
+  if (issue) toast.error(issue.message);
+  return !issue;
+};
+
+// In document mode the body is pinned to IPFS and only its CID goes on-chain; otherwise it is written as is.
+// The CID has to be in the calldata, so pinning comes before signing: a rejected or failed transaction leaves an
+// orphaned pin behind. Nothing on-chain points to it, but anyone holding its CID can still read that body
+const commitReviewBody = async (input: ReviewInput, details: ReviewDetails): Promise<ReviewInput> => {
+  if (REVIEW_STORAGE !== 'document') return input;
+
+  try {
+    const cid = await publishReviewDocument(createReviewDocument(input, details));
+    return { rating: input.rating, comment: toDocumentUri(cid), tags: [], imageHashes: [] };
+  } catch (error) {
+    toast.error(`Could not store the review on IPFS: ${(error as Error).message}`);
+    throw error;
+  }
+};
+
 export const useContract = () => {
-  const { contract, account } = useWallet();
-  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus | null>(null);
+  const { repository, account, isReadOnly, connectWallet } = useWallet();
+  const { transactionStatus, sendTransaction } = useTransactions();
+  // Registered businesses resolve to their registry ID, the rest to the ID derived from the name
+  const { getBusinessId: resolveBusinessId, businesses } = useReviewCache();
+  const limits = useReviewLimits();
 
-  // Generate businessId from business name
-  const getBusinessId = (businessName: string): string => {
-    return ethers.keccak256(ethers.toUtf8Bytes(businessName));
-  };
+  // Browsing is read-only, so writes ask for a wallet only when they are attempted
+  const ensureCanWrite = useCallback(() => {
+    if (!account) {
+      toast('Connect your wallet to continue');
+      connectWallet();
+      return false;
+    }
+    if (isReadOnly) {
+      toast.error('Switch to a supported network to continue');
+      return false;
+    }
+    return true;
+  }, [account, isReadOnly, connectWallet]);
+
+  // Add a business to the on-chain registry; the registrant becomes its owner
+  const registerBusiness = useCallback(async (business: BusinessRegistration) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    const name = business.name.trim();
+    if (!name) {
+      toast.error('Business name is required');
+      return;
+    }
+    if (!business.category.trim()) {
+      toast.error('Category is required');
+      return;
+    }
+    if (businesses.some(registered => normalizeBusinessName(registered.name) === normalizeBusinessName(name))) {
+      toast.error(`${name} is already registered`);
+      return;
+    }
+
+    return sendTransaction(() => repository.registerBusiness({ ...business, name }), {
+      pending: 'Registering business...',
+      success: 'Business registered successfully!',
+      error: 'Failed to register business',
+    });
+  }, [repository, businesses, sendTransaction, ensureCanWrite]);
 
   // Add review
   const addReview = useCallback(async (
@@ -19,93 +87,120 @@ export const useContract = () => {
     rating: number,
     comment: string,
     tags: string[],
-    imageHash: string
+    imageHashes: string[],
+    details: ReviewDetails = {}
   ) => {
-    if (!contract || !account) {
-      toast.error('Please connect your wallet');
-      return;
-    }
+    if (!repository || !ensureCanWrite()) return;
+    if (!isValidReview({ rating, comment, tags, imageHashes }, limits)) return;
 
-    // Validation
-    if (rating < 1 || rating > 5) {
-      toast.error('Rating must be between 1 and 5');
-      return;
-    }
-    if (!comment.trim()) {
-      toast.error('Comment cannot be empty');
-      return;
-    }
-    if (tags.length > 5) {
-      toast.error('Maximum 5 tags allowed');
-      return;
-    }
-    if (tags.some(tag => tag.length > 20)) {
-      toast.error('Tags must be 20 characters or less');
-      return;
+    const businessId = resolveBusinessId(businessName);
+
+    const input = await commitReviewBody({ rating, comment, tags, imageHashes }, details);
+    // Reviewers without gas can post through the relayer
+    return sendTransaction(() => repository.addReview(businessId, input), {
+      pending: 'Adding review...',
+      success: 'Review added successfully!',
+      error: 'Failed to add review',
+    }, { relayable: true });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId, limits]);
+
+  // Edit the connected account's own review; the contract bumps its version.
+  // On-chain images are fixed, but in document mode the new document carries imageHashes and details along
+  const updateReview = useCallback(async (
+    businessName: string,
+    rating: number,
+    comment: string,
+    tags: string[],
+    imageHashes: string[] = [],
+    details: ReviewDetails = {}
+  ) => {
+    if (!repository || !ensureCanWrite()) return;
+    if (!isValidReview({ rating, comment, tags, imageHashes }, limits)) return;
+
+    const businessId = resolveBusinessId(businessName);
+
+    const { imageHashes: _committedImages, ...update } = await commitReviewBody({ rating, comment, tags, imageHashes }, details);
+    return sendTransaction(() => repository.updateReview(businessId, update), {
+      pending: 'Updating review...',
+      success: 'Review updated successfully!',
+      error: 'Failed to update review',
+    }, { relayable: true });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId, limits]);
+
+  // Every version of a review, oldest first
+  const getReviewHistory = useCallback(async (businessName: string, reviewer: string) => {
+    if (!repository) return [];
+
+    try {
+      const history = await repository.getReviewHistory({ businessId: resolveBusinessId(businessName), reviewer });
+      // Versions written in document mode hold a CID where the comment would be
+      return await Promise.all(history.map(async version => {
+        const { comment, tags } = await hydrateReviewBody({ ...version, imageHashes: [] });
+        return { ...version, comment, tags };
+      }));
+    } catch (error) {
+      console.error('Error fetching review history:', error);
+      return [];
     }
+  }, [repository, resolveBusinessId]);
 
-    const businessId = getBusinessId(businessName);
+  // Get reviews for several businesses, batching every getReviewers/getReview call
+  const getReviewsForBusinesses = useCallback(async (
+    businessNames: string[]
+  ): Promise<Map<string, Review[]>> => {
+    const reviewsByBusiness = new Map<string, Review[]>();
+    if (!repository || businessNames.length === 0) return reviewsByBusiness;
 
     try {
-      setTransactionStatus({ type: 'pending', message: 'Adding review...' });
-      
-      const tx = await contract.addReview(businessId, rating, comment, tags, imageHash);
-      setTransactionStatus({ 
-        type: 'pending', 
-        message: 'Transaction submitted...', 
-        txHash: tx.hash 
+      const reviewsById = await repository.getReviews(businessNames.map(resolveBusinessId));
+      businessNames.forEach(name => {
+        reviewsByBusiness.set(name, reviewsById.get(resolveBusinessId(name)) || []);
       });
-      
-      await tx.wait();
-      
-      setTransactionStatus({ 
-        type: 'success', 
-        message: 'Review added successfully!', 
-        txHash: tx.hash 
-      });
-      toast.success('Review added successfully!');
-      
-      return tx.hash;
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || 'Failed to add review';
-      setTransactionStatus({ type: 'error', message: errorMessage });
-      toast.error(errorMessage);
-      throw error;
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
     }
-  }, [contract, account]);
+
+    return reviewsByBusiness;
+  }, [repository, resolveBusinessId]);
 
   // Get reviews for a business
   const getReviews = useCallback(async (businessName: string): Promise<Review[]> => {
-    if (!contract) return [];
+    const reviewsByBusiness = await getReviewsForBusinesses([businessName]);
+    return reviewsByBusiness.get(businessName) || [];
+  }, [getReviewsForBusinesses]);
 
-    const businessId = getBusinessId(businessName);
+  // When the owner answered each review, keyed by lowercase reviewer address
+  const getOwnerResponseTimes = useCallback(async (businessName: string): Promise<Map<string, number>> => {
+    if (!repository) return new Map();
 
     try {
-      const reviewers = await contract.getReviewers(businessId);
-      const reviews: Review[] = [];
-
-      for (const reviewer of reviewers) {
-        const review = await contract.getReview(businessId, reviewer);
-        reviews.push({
-          reviewer: review.reviewer,
-          timestamp: Number(review.timestamp),
-          rating: Number(review.rating),
-          comment: review.comment,
-          tags: review.tags,
-          imageHash: review.imageHash,
-          isFlagged: review.isFlagged,
-          isArchived: review.isArchived,
-          ownerResponse: review.ownerResponse,
-          hasOwnerResponse: review.hasOwnerResponse,
-        });
-      }
-
-      return reviews;
+      return await repository.getOwnerResponseTimes(resolveBusinessId(businessName));
     } catch (error) {
-      console.error('Error fetching reviews:', error);
-      return [];
+      console.error('Error fetching owner response times:', error);
+      return new Map();
     }
-  }, [contract]);
+  }, [repository, resolveBusinessId]);
+
+  // Get review count and average rating for several businesses
+  const getBusinessStats = useCallback(async (
+    businessNames: string[]
+  ): Promise<Map<string, BusinessStats>> => {
+    const reviewsByBusiness = await getReviewsForBusinesses(businessNames);
+    const stats = new Map<string, BusinessStats>();
+
+    reviewsByBusiness.forEach((reviews, businessName) => {
+      const activeReviews = reviews.filter(r => !r.isArchived);
+      if (activeReviews.length === 0) return;
+      const averageRating = activeReviews.reduce((sum, r) => sum + r.rating, 0) / activeReviews.length;
+      stats.set(businessName, {
+        reviews: activeReviews.length,
+        rating: averageRating,
+        subRatings: getSubRatingAverages(activeReviews),
+      });
+    });
+
+    return stats;
+  }, [getReviewsForBusinesses]);
 
   // Add owner response
   const addOwnerResponse = useCallback(async (
@@ -113,181 +208,306 @@ export const useContract = () => {
     reviewer: string,
     response: string
   ) => {
-    if (!contract || !account) {
-      toast.error('Please connect your wallet');
-      return;
-    }
+    if (!repository || !ensureCanWrite()) return;
 
     if (!response.trim()) {
       toast.error('Response cannot be empty');
       return;
     }
 
-    const businessId = getBusinessId(businessName);
+    const businessId = resolveBusinessId(businessName);
 
-    try {
-      setTransactionStatus({ type: 'pending', message: 'Adding response...' });
-      
-      const tx = await contract.addOwnerResponse(businessId, reviewer, response);
-      setTransactionStatus({ 
-        type: 'pending', 
-        message: 'Transaction submitted...', 
-        txHash: tx.hash 
-      });
-      
-      await tx.wait();
-      
-      setTransactionStatus({ 
-        type: 'success', 
-        message: 'Response added successfully!', 
-        txHash: tx.hash 
-      });
-      toast.success('Response added successfully!');
-      
-      return tx.hash;
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || 'Failed to add response';
-      setTransactionStatus({ type: 'error', message: errorMessage });
-      toast.error(errorMessage);
-      throw error;
-    }
-  }, [contract, account]);
+    return sendTransaction(() => repository.addOwnerResponse(businessId, reviewer, response), {
+      pending: 'Adding response...',
+      success: 'Response added successfully!',
+      error: 'Failed to add response',
+    }, { relayable: true });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId]);
 
-  // Flag review
-  const flagReview = useCallback(async (businessName: string, reviewer: string) => {
-    if (!contract || !account) {
-      toast.error('Please connect your wallet');
+  // Vote a review helpful or not; voting the other way later switches the vote
+  const voteReview = useCallback(async (businessName: string, reviewer: string, vote: ReviewVote) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    if (account && reviewer.toLowerCase() === account.toLowerCase()) {
+      toast.error('You cannot vote on your own review');
       return;
     }
 
-    const businessId = getBusinessId(businessName);
+    const businessId = resolveBusinessId(businessName);
+
+    return sendTransaction(() => repository.voteReview(businessId, reviewer, vote), {
+      pending: 'Recording vote...',
+      success: 'Vote recorded!',
+      error: 'Failed to record vote',
+    }, { relayable: true });
+  }, [repository, account, sendTransaction, ensureCanWrite, resolveBusinessId]);
+
+  // Withdraw the connected account's vote on a review
+  const clearVote = useCallback(async (businessName: string, reviewer: string) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    const businessId = resolveBusinessId(businessName);
+
+    return sendTransaction(() => repository.clearVote(businessId, reviewer), {
+      pending: 'Withdrawing vote...',
+      success: 'Vote withdrawn',
+      error: 'Failed to withdraw vote',
+    }, { relayable: true });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId]);
 
+  // The connected account's votes on a business's reviews, keyed by lowercase reviewer address
+  const getMyVotes = useCallback(async (
+    businessName: string,
+    reviewers: string[]
+  ): Promise<Map<string, ReviewVote>> => {
+    const votes = new Map<string, ReviewVote>();
+    if (!repository || !account || reviewers.length === 0) return votes;
+
+    const businessId = resolveBusinessId(businessName);
     try {
-      setTransactionStatus({ type: 'pending', message: 'Flagging review...' });
-      
-      const tx = await contract.flagReview(businessId, reviewer);
-      setTransactionStatus({ 
-        type: 'pending', 
-        message: 'Transaction submitted...', 
-        txHash: tx.hash 
+      const results = await repository.getVotes(reviewers.map(reviewer => ({ businessId, reviewer })), account);
+      results.forEach((vote, index) => {
+        if (vote) votes.set(reviewers[index].toLowerCase(), vote);
       });
-      
-      await tx.wait();
-      
-      setTransactionStatus({ 
-        type: 'success', 
-        message: 'Review flagged successfully!', 
-        txHash: tx.hash 
-      });
-      toast.success('Review flagged successfully!');
-      
-      return tx.hash;
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || 'Failed to flag review';
-      setTransactionStatus({ type: 'error', message: errorMessage });
-      toast.error(errorMessage);
-      throw error;
+    } catch (error) {
+      console.error('Error fetching votes:', error);
     }
-  }, [contract, account]);
+
+    return votes;
+  }, [repository, account, resolveBusinessId]);
+
+  // Flag review
+  const flagReview = useCallback(async (businessName: string, reviewer: string) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    const businessId = resolveBusinessId(businessName);
+
+    return sendTransaction(() => repository.flagReview(businessId, reviewer), {
+      pending: 'Flagging review...',
+      success: 'Review flagged successfully!',
+      error: 'Failed to flag review',
+    });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId]);
 
   // Archive review
   const archiveReview = useCallback(async (businessName: string, reviewer: string) => {
-    if (!contract || !account) {
-      toast.error('Please connect your wallet');
+    if (!repository || !ensureCanWrite()) return;
+
+    const businessId = resolveBusinessId(businessName);
+
+    return sendTransaction(() => repository.archiveReview(businessId, reviewer), {
+      pending: 'Archiving review...',
+      success: 'Review archived successfully!',
+      error: 'Failed to archive review',
+    });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId]);
+
+  // Mark a registration as verified (moderator only). Taken by ID, since an unverified registration
+  // may share its name with a curated or another registered business
+  const verifyBusiness = useCallback(async ({ id, name }: Pick<RegisteredBusiness, 'id' | 'name'>) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    return sendTransaction(() => repository.verifyBusiness(id), {
+      pending: 'Verifying business...',
+      success: `${name} verified!`,
+      error: 'Failed to verify business',
+    });
+  }, [repository, sendTransaction, ensureCanWrite]);
+
+  // Ban an address from writing; the reason is published on chain
+  const banUser = useCallback(async (address: string, reason: string) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    if (!ethers.isAddress(address)) {
+      toast.error('Please enter a valid Ethereum address');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('A reason is required to ban a user');
       return;
     }
 
-    const businessId = getBusinessId(businessName);
+    return sendTransaction(() => repository.banUser(address, reason.trim()), {
+      pending: 'Banning user...',
+      success: 'User banned',
+      error: 'Failed to ban user',
+    });
+  }, [repository, sendTransaction, ensureCanWrite]);
 
-    try {
-      setTransactionStatus({ type: 'pending', message: 'Archiving review...' });
-      
-      const tx = await contract.archiveReview(businessId, reviewer);
-      setTransactionStatus({ 
-        type: 'pending', 
-        message: 'Transaction submitted...', 
-        txHash: tx.hash 
-      });
-      
-      await tx.wait();
-      
-      setTransactionStatus({ 
-        type: 'success', 
-        message: 'Review archived successfully!', 
-        txHash: tx.hash 
-      });
-      toast.success('Review archived successfully!');
-      
-      return tx.hash;
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || 'Failed to archive review';
-      setTransactionStatus({ type: 'error', message: errorMessage });
-      toast.error(errorMessage);
-      throw error;
+  const unbanUser = useCallback(async (address: string) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    if (!ethers.isAddress(address)) {
+      toast.error('Please enter a valid Ethereum address');
+      return;
     }
-  }, [contract, account]);
 
-  // Get business owner
-  const getBusinessOwner = useCallback(async (businessName: string): Promise<string | null> => {
-    if (!contract) return null;
+    return sendTransaction(() => repository.unbanUser(address), {
+      pending: 'Unbanning user...',
+      success: 'User unbanned',
+      error: 'Failed to unban user',
+    });
+  }, [repository, sendTransaction, ensureCanWrite]);
+
+  // Bans and unbans, oldest first; for one address when given
+  const getBanHistory = useCallback(async (address?: string): Promise<BanRecord[]> => {
+    if (!repository) return [];
+
+    try {
+      return await repository.getBanHistory(address);
+    } catch (error) {
+      console.error('Error fetching ban history:', error);
+      return [];
+    }
+  }, [repository]);
 
-    const businessId = getBusinessId(businessName);
+  // Role and ban status of any address
+  const getAccountStatus = useCallback(async (
+    address: string
+  ): Promise<{ role: UserRole; isBanned: boolean } | null> => {
+    if (!repository) return null;
 
     try {
-      const owner = await contract.getBusinessOwner(businessId);
-      return owner === ethers.ZeroAddress ? null : owner;
+      const [role, isBanned] = await Promise.all([repository.getUserRole(address), repository.isBanned(address)]);
+      return { role, isBanned };
     } catch (error) {
-      console.error('Error fetching business owner:', error);
+      console.error('Error fetching account status:', error);
       return null;
     }
-  }, [contract]);
+  }, [repository]);
 
-  // Set business owner (admin only)
-  const setBusinessOwner = useCallback(async (businessName: string, ownerAddress: string) => {
-    if (!contract || !account) {
-      toast.error('Please connect your wallet');
+  // Every flag, unflag and archive on the contract, oldest first
+  const getModerationLog = useCallback(async (): Promise<ModerationAction[]> => {
+    if (!repository) return [];
+
+    try {
+      return await repository.getModerationLog();
+    } catch (error) {
+      console.error('Error fetching moderation log:', error);
+      return [];
+    }
+  }, [repository]);
+
+  // Archive or unflag several reviews, one transaction each; stops at the first one that fails or is rejected
+  const resolveFlags = useCallback(async (refs: ReviewRef[], decision: 'archive' | 'unflag'): Promise<number> => {
+    if (!repository || !ensureCanWrite()) return 0;
+
+    let resolved = 0;
+    for (const { businessId, reviewer } of refs) {
+      const progress = refs.length > 1 ? ` (${resolved + 1}/${refs.length})` : '';
+      try {
+        const txHash = await sendTransaction(
+          () => decision === 'archive'
+            ? repository.archiveReview(businessId, reviewer)
+            : repository.unflagReview(businessId, reviewer),
+          decision === 'archive'
+            ? { pending: `Archiving review${progress}...`, success: 'Review archived', error: 'Failed to archive review' }
+            : { pending: `Clearing flag${progress}...`, success: 'Flag cleared', error: 'Failed to clear flag' }
+        );
+        if (!txHash) break;
+        resolved++;
+      } catch (error) {
+        // Already reported by the transaction pipeline; keep what went through
+        console.error('Error resolving flag:', error);
+        break;
+      }
+    }
+    return resolved;
+  }, [repository, sendTransaction, ensureCanWrite]);
+
+  // Grant or revoke the moderator role (admin only)
+  const setModerator = useCallback(async (address: string, enabled: boolean) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    if (!ethers.isAddress(address)) {
+      toast.error('Please enter a valid Ethereum address');
       return;
     }
 
-    const businessId = getBusinessId(businessName);
+    return sendTransaction(() => repository.setModerator(address, enabled), enabled
+      ? { pending: 'Adding moderator...', success: 'Moderator added', error: 'Failed to add moderator' }
+      : { pending: 'Removing moderator...', success: 'Moderator removed', error: 'Failed to remove moderator' }
+    );
+  }, [repository, sendTransaction, ensureCanWrite]);
+
+  // Moderator grants and revocations, oldest first
+  const getModeratorHistory = useCallback(async (): Promise<ModeratorChange[]> => {
+    if (!repository) return [];
 
     try {
-      setTransactionStatus({ type: 'pending', message: 'Setting business owner...' });
-      
-      const tx = await contract.setBusinessOwner(businessId, ownerAddress);
-      setTransactionStatus({ 
-        type: 'pending', 
-        message: 'Transaction submitted...', 
-        txHash: tx.hash 
-      });
-      
-      await tx.wait();
-      
-      setTransactionStatus({ 
-        type: 'success', 
-        message: 'Business owner set successfully!', 
-        txHash: tx.hash 
+      return await repository.getModeratorHistory();
+    } catch (error) {
+      console.error('Error fetching moderator history:', error);
+      return [];
+    }
+  }, [repository]);
+
+  // Get owners for several businesses in one batch
+  const getBusinessOwners = useCallback(async (
+    businessNames: string[]
+  ): Promise<Map<string, string | null>> => {
+    const owners = new Map<string, string | null>();
+    if (!repository || businessNames.length === 0) return owners;
+
+    try {
+      const ownersById = await repository.getBusinessOwners(businessNames.map(resolveBusinessId));
+      businessNames.forEach(name => {
+        owners.set(name, ownersById.get(resolveBusinessId(name)) ?? null);
       });
-      toast.success('Business owner set successfully!');
-      
-      return tx.hash;
-    } catch (error: any) {
-      const errorMessage = error.reason || error.message || 'Failed to set business owner';
-      setTransactionStatus({ type: 'error', message: errorMessage });
-      toast.error(errorMessage);
-      throw error;
+    } catch (error) {
+      console.error('Error fetching business owners:', error);
     }
-  }, [contract, account]);
+
+    return owners;
+  }, [repository, resolveBusinessId]);
+
+  // Get business owner
+  const getBusinessOwner = useCallback(async (businessName: string): Promise<string | null> => {
+    const owners = await getBusinessOwners([businessName]);
+    return owners.get(businessName) ?? null;
+  }, [getBusinessOwners]);
+
+  // Set business owner (admin only)
+  const setBusinessOwner = useCallback(async (businessName: string, ownerAddress: string) => {
+    if (!repository || !ensureCanWrite()) return;
+
+    const businessId = resolveBusinessId(businessName);
+
+    return sendTransaction(() => repository.setBusinessOwner(businessId, ownerAddress), {
+      pending: 'Setting business owner...',
+      success: 'Business owner set successfully!',
+      error: 'Failed to set business owner',
+    });
+  }, [repository, sendTransaction, ensureCanWrite, resolveBusinessId]);
 
   return {
-    getBusinessId,
+    getBusinessId: resolveBusinessId,
+    registerBusiness,
     addReview,
+    updateReview,
+    getReviewHistory,
     getReviews,
+    getOwnerResponseTimes,
+    getReviewsForBusinesses,
+    getBusinessStats,
     addOwnerResponse,
+    voteReview,
+    clearVote,
+    getMyVotes,
     flagReview,
     archiveReview,
     getBusinessOwner,
+    getBusinessOwners,
     setBusinessOwner,
+    verifyBusiness,
+    banUser,
+    unbanUser,
+    getBanHistory,
+    getAccountStatus,
+    getModerationLog,
+    resolveFlags,
+    setModerator,
+    getModeratorHistory,
     transactionStatus,
   };
 };
\ No newline at end of file
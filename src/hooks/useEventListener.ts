@@ -33,20 +33,21 @@ export const useEventListener = (onReviewUpdate?: () => void) => {
       toast(`Business owner set to ${owner.slice(0, 6)}...${owner.slice(-4)}`);
     };
 
-    // Attach listeners
-    contract.on('ReviewAdded', handleReviewAdded);
-    contract.on('ReviewFlagged', handleReviewFlagged);
-    contract.on('ReviewArchived', handleReviewArchived);
-    contract.on('OwnerResponseAdded', handleOwnerResponse);
-    contract.on('BusinessOwnerSet', handleBusinessOwnerSet);
+    const handlers: Record<string, (...args: any[]) => void> = {
+      ReviewAdded: handleReviewAdded,
+      ReviewFlagged: handleReviewFlagged,
+      ReviewArchived: handleReviewArchived,
+      OwnerResponseAdded: handleOwnerResponse,
+      BusinessOwnerSet: handleBusinessOwnerSet,
+    };
+
+    // Attach listeners, skipping events this contract version doesn't emit
+    const attached = Object.entries(handlers).filter(([eventName]) => contract.interface.getEvent(eventName));
+    attached.forEach(([eventName, handler]) => contract.on(eventName, handler));
 
     // Cleanup
     return () => {
-      contract.off('ReviewAdded', handleReviewAdded);
-      contract.off('ReviewFlagged', handleReviewFlagged);
-      contract.off('ReviewArchived', handleReviewArchived);
-      contract.off('OwnerResponseAdded', handleOwnerResponse);
-      contract.off('BusinessOwnerSet', handleBusinessOwnerSet);
+      attached.forEach(([eventName, handler]) => contract.off(eventName, handler));
     };
   }, [contract, onReviewUpdate]);
 };
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import { useReviewLimits } from './useReviewLimits';
+import { getContentStore, getGatewayResolver } from '../content';
+import { ProcessedImage, rememberFingerprint } from '../images';
+import toast from 'react-hot-toast';
+
+// Pins processed review images to IPFS one after another, reporting progress across all of them
+export const useImageUpload = () => {
+  const { maxImages } = useReviewLimits();
+  // Percentage of all images uploaded, null when no upload is running
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // Resolves to the CIDs in the order given, which is the order the gallery shows them
+  const upload = useCallback(async (images: ProcessedImage[]): Promise<string[]> => {
+    const totalSize = images.reduce((sum, image) => sum + image.file.size, 0);
+    const hashes: string[] = [];
+    let uploadedSize = 0;
+
+    setProgress(0);
+    try {
+      for (const image of images) {
+        const offset = uploadedSize;
+        const cid = await getContentStore().put(image.file, {
+          onProgress: loaded => setProgress(Math.round(((offset + loaded) / totalSize) * 100)),
+        });
+        // The new review can show the image, and later duplicate checks can skip fetching it back
+        getGatewayResolver().remember(cid, image.file);
+        rememberFingerprint(cid, image.perceptualHash);
+        hashes.push(cid);
+        uploadedSize += image.file.size;
+      }
+      return hashes;
+    } catch (error) {
+      toast.error(`Image upload failed: ${(error as Error).message}`);
+      throw error;
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  return { upload, progress, maxImages };
+};
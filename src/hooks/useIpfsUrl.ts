@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { getGatewayResolver } from '../content';
+
+interface IpfsUrlState {
+  // Object URL of the verified content, null until it has loaded
+  url: string | null;
+  error: Error | null;
+}
+
+// Loads a CID through the gateway resolver, resetting whenever the CID changes
+export const useIpfsUrl = (cid: string | null | undefined): IpfsUrlState => {
+  const [state, setState] = useState<IpfsUrlState>({ url: null, error: null });
+
+  useEffect(() => {
+    setState({ url: null, error: null });
+    if (!cid) return;
+
+    let cancelled = false;
+    getGatewayResolver().getUrl(cid).then(
+      url => {
+        if (!cancelled) setState({ url, error: null });
+      },
+      error => {
+        if (!cancelled) setState({ url: null, error: error as Error });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [cid]);
+
+  return state;
+};
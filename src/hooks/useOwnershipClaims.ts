@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useWallet } from './useWallet';
+import { useContract } from './useContract';
+import { getChainConfig } from '../config/contractsV2';
+import { ClaimContact, OwnershipClaim } from '../types';
+import {
+  InboxAuth,
+  INBOX_AUTH_TTL_MS,
+  decideClaim,
+  getClaimsByClaimant,
+  getClaimsInbox,
+  signInboxAuth,
+  submitClaim,
+} from '../utils/ownershipClaims';
+import toast from 'react-hot-toast';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Ownership claims for the current chain: the connected account's own, and the admin inbox
+export const useOwnershipClaims = () => {
+  const { account, chainId, signer, repository, userRole } = useWallet();
+  const { getBusinessId, setBusinessOwner } = useContract();
+  const [myClaims, setMyClaims] = useState<OwnershipClaim[]>([]);
+  const inboxAuth = useRef<InboxAuth | null>(null);
+
+  const { claimsUrl } = getChainConfig(chainId);
+  // Approving a claim calls setBusinessOwner, which only some contracts have
+  const isAvailable = !!claimsUrl && !!repository?.capabilities.ownerAssignment;
+
+  const loadMyClaims = useCallback(async () => {
+    if (!isAvailable || !account) {
+      setMyClaims([]);
+      return;
+    }
+
+    try {
+      const claims = await getClaimsByClaimant(claimsUrl, account);
+      setMyClaims(claims.filter(claim => claim.chainId === chainId));
+    } catch (error) {
+      console.error('Error fetching ownership claims:', error);
+    }
+  }, [isAvailable, account, claimsUrl, chainId]);
+
+  useEffect(() => {
+    loadMyClaims();
+  }, [loadMyClaims]);
+
+  // The latest claim the account made for a business, if any
+  const getMyClaim = useCallback((businessName: string) => {
+    const businessId = getBusinessId(businessName).toLowerCase();
+    return [...myClaims].reverse().find(claim => claim.businessId.toLowerCase() === businessId);
+  }, [myClaims, getBusinessId]);
+
+  const submit = useCallback(async (businessName: string, contact: ClaimContact, evidence: string) => {
+    if (!isAvailable || !account || !signer) return false;
+
+    if (!contact.name.trim() || !evidence.trim()) {
+      toast.error('Your name and some evidence of ownership are required');
+      return false;
+    }
+    if (!EMAIL_PATTERN.test(contact.email.trim())) {
+      toast.error('Please enter a valid email address');
+      return false;
+    }
+
+    try {
+      await submitClaim(claimsUrl, signer, {
+        chainId,
+        businessId: getBusinessId(businessName),
+        businessName,
+        claimant: account,
+        contact,
+        evidence,
+        issuedAt: Date.now(),
+      });
+      toast.success('Claim submitted. An admin will review it.');
+      await loadMyClaims();
+      return true;
+    } catch (error) {
+      console.error('Error submitting ownership claim:', error);
+      toast.error((error as Error).message);
+      return false;
+    }
+  }, [isAvailable, account, signer, claimsUrl, chainId, getBusinessId, loadMyClaims]);
+
+  // Every claim on this chain with contact details; asks the admin to sign in when the last signature is stale
+  const loadInbox = useCallback(async (): Promise<OwnershipClaim[]> => {
+    if (!isAvailable || !signer || userRole !== 'admin') return [];
+
+    try {
+      const auth = inboxAuth.current;
+      if (!auth || auth.admin.toLowerCase() !== account?.toLowerCase() || Date.now() - auth.issuedAt > INBOX_AUTH_TTL_MS) {
+        inboxAuth.current = await signInboxAuth(signer);
+      }
+      const claims = await getClaimsInbox(claimsUrl, inboxAuth.current!);
+      return claims.filter(claim => claim.chainId === chainId);
+    } catch (error) {
+      console.error('Error fetching the claims inbox:', error);
+      toast.error((error as Error).message);
+      return [];
+    }
+  }, [isAvailable, signer, userRole, account, claimsUrl, chainId]);
+
+  // Sets the owner on chain first, then records the approval with its transaction
+  const approve = useCallback(async (claim: OwnershipClaim) => {
+    if (!signer) return false;
+
+    let txHash: string | undefined;
+    try {
+      txHash = await setBusinessOwner(claim.businessName, claim.claimant);
+    } catch (error) {
+      // Already reported by the transaction pipeline
+      console.error('Error setting business owner:', error);
+    }
+    if (!txHash) return false;
+
+    try {
+      await decideClaim(claimsUrl, signer, claim.id, { status: 'approved', reason: '', txHash });
+      return true;
+    } catch (error) {
+      console.error('Error recording claim approval:', error);
+      toast.error(`The owner is set on chain, but the claim wasn't marked approved: ${(error as Error).message}`);
+      return false;
+    }
+  }, [signer, claimsUrl, setBusinessOwner]);
+
+  const reject = useCallback(async (claim: OwnershipClaim, reason: string) => {
+    if (!signer) return false;
+
+    if (!reason.trim()) {
+      toast.error('A reason is required to reject a claim');
+      return false;
+    }
+
+    try {
+      await decideClaim(claimsUrl, signer, claim.id, { status: 'rejected', reason, txHash: '' });
+      toast.success('Claim rejected');
+      return true;
+    } catch (error) {
+      console.error('Error rejecting claim:', error);
+      toast.error((error as Error).message);
+      return false;
+    }
+  }, [signer, claimsUrl]);
+
+  return { isAvailable, myClaims, getMyClaim, submit, loadInbox, approve, reject };
+};
@@ -0,0 +1,15 @@
+import { useMemo } from 'react';
+import { useBusinessCatalog } from './useBusinessCatalog';
+import { getRatingDimensions } from '../data/ratingDimensions';
+import { normalizeBusinessName } from '../utils/businessCatalog';
+
+// The dimensions a business is scored on, from its category in the catalog
+export const useRatingDimensions = (businessName: string) => {
+  const { businesses } = useBusinessCatalog();
+
+  return useMemo(() => {
+    const key = normalizeBusinessName(businessName);
+    const business = businesses.find(b => normalizeBusinessName(b.name) === key);
+    return getRatingDimensions(business?.category);
+  }, [businesses, businessName]);
+};
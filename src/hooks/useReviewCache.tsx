@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback, useMemo, useRef, createContext, useContext, ReactNode } from 'react';
+import { useWallet } from './useWallet';
+import { BusinessStats, RegisteredBusiness } from '../types';
+import { getBusinessId, getSubRatingAverages } from '../utils/reviews';
+import { mergeBusinessCatalog, normalizeBusinessName } from '../utils/businessCatalog';
+import { BusinessDetails, KENYAN_BUSINESSES } from '../data/kenyanBusinesses';
+import { CachedReview, ReviewSnapshot, createEmptySnapshot, loadSnapshot } from '../utils/reviewStore';
+import { syncSnapshot } from '../utils/reviewSync';
+
+const SYNC_INTERVAL_MS = 15000;
+
+interface ReviewCacheContextType {
+  reviews: CachedReview[];
+  isLoaded: boolean;
+  isSyncing: boolean;
+  lastSyncedBlock: number | null;
+  // Why the cache failed to load or sync; until it has synced, components read the contract directly
+  error: string | null;
+  // Businesses in the on-chain registry; empty on V1
+  businesses: RegisteredBusiness[];
+  // The curated businesses merged with the registry
+  catalog: BusinessDetails[];
+  // Registered ID for a business name when its catalog entry has one, otherwise the derived ID
+  getBusinessId: (businessName: string) => string;
+  getBusinessReviews: (businessName: string) => CachedReview[];
+  getBusinessOwner: (businessName: string) => string | null;
+  getBusinessStats: (businessNames: string[]) => Map<string, BusinessStats>;
+  refresh: () => Promise<void>;
+}
+
+const ReviewCacheContext = createContext<ReviewCacheContextType | null>(null);
+
+export const ReviewCacheProvider = ({ children }: { children: ReactNode }) => {
+  const { repository, chainId } = useWallet();
+  const [snapshot, setSnapshot] = useState<ReviewSnapshot | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const snapshotRef = useRef<ReviewSnapshot | null>(null);
+  // The running sync, with the key of the snapshot it is syncing
+  const syncInFlight = useRef<{ key: string; promise: Promise<void> } | null>(null);
+
+  const updateSnapshot = useCallback((next: ReviewSnapshot) => {
+    snapshotRef.current = next;
+    setSnapshot(next);
+  }, []);
+
+  // Bring the cache up to the chain head; concurrent callers for the same deployment share one sync
+  const refresh = useCallback(() => {
+    const current = snapshotRef.current;
+    if (!repository || !current) return Promise.resolve();
+    if (syncInFlight.current?.key === current.key) return syncInFlight.current.promise;
+
+    // A sync still running for the previous chain or contract must not replace the new one's snapshot
+    const apply = (next: ReviewSnapshot) => {
+      if (snapshotRef.current?.key === next.key) updateSnapshot(next);
+    };
+
+    setIsSyncing(true);
+    const promise = syncSnapshot(repository, current, apply)
+      .then(next => {
+        apply(next);
+        if (snapshotRef.current?.key === next.key) setError(null);
+      })
+      .catch(error => {
+        console.error('Error syncing review cache:', error);
+        if (snapshotRef.current?.key === current.key) setError(`Could not sync reviews: ${(error as Error).message}`);
+      })
+      .finally(() => {
+        if (syncInFlight.current?.promise !== promise) return;
+        syncInFlight.current = null;
+        setIsSyncing(false);
+      });
+    syncInFlight.current = { key: current.key, promise };
+    return promise;
+  }, [repository, updateSnapshot]);
+
+  // Load the persisted snapshot for this deployment, then keep syncing in the background
+  useEffect(() => {
+    if (!repository) return;
+
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const start = async () => {
+      const provider = repository.contract.runner?.provider;
+      if (!provider) return;
+
+      const network = await provider.getNetwork();
+      const address = (await repository.contract.getAddress()).toLowerCase();
+      const key = `${network.chainId}:${address}:${repository.version}`;
+      const stored = await loadSnapshot(key);
+      if (cancelled) return;
+
+      updateSnapshot(stored || createEmptySnapshot(key, repository.deployBlock));
+      refresh();
+      interval = setInterval(refresh, SYNC_INTERVAL_MS);
+    };
+
+    start().catch(error => {
+      console.error('Error loading review cache:', error);
+      if (!cancelled) setError(`Could not load the review cache: ${(error as Error).message}`);
+    });
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+      snapshotRef.current = null;
+      setSnapshot(null);
+      setError(null);
+    };
+  }, [repository, refresh, updateSnapshot]);
+
+  const reviews = useMemo(() => Object.values(snapshot?.reviews || {}), [snapshot]);
+
+  const registry = snapshot?.businesses;
+  const businesses = useMemo(() => Object.values(registry || {}), [registry]);
+  const catalog = useMemo(() => mergeBusinessCatalog(KENYAN_BUSINESSES, businesses), [businesses]);
+  const catalogByName = useMemo(
+    () => new Map(catalog.map(business => [normalizeBusinessName(business.name), business])),
+    [catalog]
+  );
+
+  const resolveBusinessId = useCallback((businessName: string) => {
+    return catalogByName.get(normalizeBusinessName(businessName))?.registryId || getBusinessId(businessName, chainId);
+  }, [catalogByName, chainId]);
+
+  const reviewsByBusiness = useMemo(() => {
+    const grouped = new Map<string, CachedReview[]>();
+    for (const review of reviews) {
+      const businessId = review.businessId.toLowerCase();
+      grouped.set(businessId, [...(grouped.get(businessId) || []), review]);
+    }
+    return grouped;
+  }, [reviews]);
+
+  const getBusinessReviews = useCallback((businessName: string) => {
+    return reviewsByBusiness.get(resolveBusinessId(businessName).toLowerCase()) || [];
+  }, [reviewsByBusiness, resolveBusinessId]);
+
+  const getBusinessOwner = useCallback((businessName: string) => {
+    return snapshot?.businessOwners[resolveBusinessId(businessName).toLowerCase()] || null;
+  }, [snapshot, resolveBusinessId]);
+
+  const getBusinessStats = useCallback((businessNames: string[]) => {
+    const stats = new Map<string, BusinessStats>();
+    for (const businessName of businessNames) {
+      const activeReviews = getBusinessReviews(businessName).filter(r => !r.isArchived);
+      if (activeReviews.length === 0) continue;
+      const averageRating = activeReviews.reduce((sum, r) => sum + r.rating, 0) / activeReviews.length;
+      stats.set(businessName, {
+        reviews: activeReviews.length,
+        rating: averageRating,
+        subRatings: getSubRatingAverages(activeReviews),
+      });
+    }
+    return stats;
+  }, [getBusinessReviews]);
+
+  return (
+    <ReviewCacheContext.Provider value={{
+      reviews,
+      isLoaded: snapshot !== null,
+      isSyncing,
+      lastSyncedBlock: snapshot && snapshot.lastSyncedBlock >= 0 ? snapshot.lastSyncedBlock : null,
+      error,
+      businesses,
+      catalog,
+      getBusinessId: resolveBusinessId,
+      getBusinessReviews,
+      getBusinessOwner,
+      getBusinessStats,
+      refresh,
+    }}>
+      {children}
+    </ReviewCacheContext.Provider>
+  );
+};
+
+export const useReviewCache = () => {
+  const context = useContext(ReviewCacheContext);
+  if (!context) {
+    throw new Error('useReviewCache must be used within a ReviewCacheProvider');
+  }
+  return context;
+};
@@ -0,0 +1,109 @@
+import { useState, useCallback } from 'react';
+import { useContract } from './useContract';
+import { useImageUpload } from './useImageUpload';
+import { useReviewLimits } from './useReviewLimits';
+import { useRatingDimensions } from './useRatingDimensions';
+import { REVIEW_STORAGE } from '../config/contract';
+import { hasContentBackend } from '../content';
+import { ProcessedImage } from '../images';
+import { utf8Length, validateField, validateReview } from '../utils/reviewSchema';
+import toast from 'react-hot-toast';
+
+/**
+ * State and rules for writing a new review, shared by the review forms. Every check comes from the
+ * review schema, so a form rejects exactly what useContract and the relayer would, with the same message.
+ */
+export const useReviewForm = (businessName: string) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [images, setImages] = useState<ProcessedImage[]>([]);
+  const [subRatings, setSubRatings] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { addReview } = useContract();
+  const { upload, progress: uploadProgress } = useImageUpload();
+  const limits = useReviewLimits();
+  const categoryDimensions = useRatingDimensions(businessName);
+  // Sub-ratings live in the review document, so inline reviews can't carry them
+  const dimensions = REVIEW_STORAGE === 'document' ? categoryDimensions : [];
+
+  const isValid = validateReview({ rating, comment, tags }, limits).length === 0;
+
+  // Adds a trimmed tag, toasting why it can't be added; resolves whether it was
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (!trimmed) return false;
+    if (tags.includes(trimmed)) {
+      toast.error('Tag already added');
+      return false;
+    }
+
+    const error = validateField('tags', [...tags, trimmed], limits);
+    if (error) {
+      toast.error(error);
+      return false;
+    }
+    setTags([...tags, trimmed]);
+    return true;
+  };
+
+  const removeTag = (index: number) => {
+    setTags(tags.filter((_, i) => i !== index));
+  };
+
+  const reset = useCallback(() => {
+    setRating(0);
+    setComment('');
+    setTags([]);
+    setImages([]);
+    setSubRatings({});
+  }, []);
+
+  // Uploads the images and posts the review; resolves whether it was sent
+  const submit = async () => {
+    const [issue] = validateReview({ rating, comment, tags }, limits);
+    if (issue) {
+      toast.error(issue.message);
+      return false;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const imageHashes = images.length > 0 ? await upload(images) : [];
+      const txHash = await addReview(businessName, rating, comment, tags, imageHashes, { subRatings });
+      return !!txHash;
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return {
+    rating,
+    setRating,
+    comment,
+    setComment,
+    // Measured the way the contract measures it
+    commentLength: utf8Length(comment),
+    tags,
+    addTag,
+    removeTag,
+    canAddTag: tags.length < limits.maxTags,
+    // Images need an IPFS backend to be pinned to
+    canAttachImages: hasContentBackend,
+    images,
+    setImages,
+    dimensions,
+    subRatings,
+    setSubRatings,
+    limits,
+    isValid,
+    isSubmitting,
+    uploadProgress,
+    submit,
+    reset,
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useWallet } from './useWallet';
+import { REVIEW_STORAGE } from '../config/contract';
+import { ReviewRepository } from '../repositories';
+import { ContractLimits, getReviewLimits } from '../utils/reviewSchema';
+
+// Read once per repository, however many components ask
+const contractLimits = new WeakMap<ReviewRepository, Promise<ContractLimits>>();
+
+const loadContractLimits = (repository: ReviewRepository) => {
+  if (!contractLimits.has(repository)) {
+    contractLimits.set(repository, repository.getContractLimits().catch(error => {
+      console.warn('Could not read the review limits from the contract:', error);
+      return {};
+    }));
+  }
+  return contractLimits.get(repository)!;
+};
+
+// What a review may hold on the active chain's contract, with the strictest limits until one is connected.
+// Limits the deployed contract exposes replace the built-in table's once they have been read
+export const useReviewLimits = () => {
+  const { repository } = useWallet();
+  const [loaded, setLoaded] = useState<{ repository: ReviewRepository; limits: ContractLimits } | null>(null);
+
+  useEffect(() => {
+    if (!repository) return;
+
+    let cancelled = false;
+    loadContractLimits(repository).then(limits => {
+      if (!cancelled) setLoaded({ repository, limits });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [repository]);
+
+  // Limits read for a previous repository don't apply to this one
+  const limits = loaded && loaded.repository === repository ? loaded.limits : undefined;
+  return useMemo(
+    () => getReviewLimits(repository?.version ?? 'v1', REVIEW_STORAGE, limits),
+    [repository, limits]
+  );
+};
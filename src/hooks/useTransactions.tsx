@@ -0,0 +1,239 @@
+import { useState, useCallback, useMemo, useRef, createContext, useContext, ReactNode } from 'react';
+import { ethers } from 'ethers';
+import { useWallet } from './useWallet';
+import { TransactionStatus } from '../types';
+import { getChainConfig, getContractAddresses } from '../config/contractsV2';
+import { connectReviewForwarder } from '../types/contracts';
+import { ErrorParams, classifyContractError, describeContractError } from '../utils/errorDecoder';
+import {
+  RelayerError,
+  cannotAffordGas,
+  estimateForwardedGas,
+  forwardedCallSucceeded,
+  signForwardRequest,
+  submitToRelayer,
+} from '../utils/metaTransactions';
+import {
+  CONFIRMATIONS,
+  ReplacementMode,
+  estimateTransactionCost,
+  replaceTransaction,
+  simulateTransaction,
+  waitForMined,
+} from '../utils/transactions';
+import toast from 'react-hot-toast';
+
+export interface TransactionMessages {
+  pending: string;
+  success: string;
+  error: string;
+}
+
+export interface TransactionOptions {
+  // Fall back to the gasless relayer when the user can't pay for gas
+  relayable?: boolean;
+}
+
+interface TransactionContextType {
+  transactionStatus: TransactionStatus | null;
+  sendTransaction: (
+    prepare: () => Promise<ethers.ContractTransaction>,
+    messages: TransactionMessages,
+    options?: TransactionOptions
+  ) => Promise<string | undefined>;
+  speedUp: () => Promise<void>;
+  cancel: () => Promise<void>;
+  dismiss: () => void;
+}
+
+const TransactionContext = createContext<TransactionContextType | null>(null);
+
+export const TransactionProvider = ({ children }: { children: ReactNode }) => {
+  const { account, signer, repository, chainId } = useWallet();
+  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus | null>(null);
+  // Latest transaction sent for the pending nonce, replaced on speed-up or cancel
+  const pendingTx = useRef<ethers.TransactionResponse | null>(null);
+
+  // Decode a failure into a localized message, looking up how long a cooldown has left
+  const explainError = useCallback(async (error: unknown, fallback: string) => {
+    const classified = classifyContractError(error);
+    const params: ErrorParams = {};
+
+    if (classified.code === 'REVIEW_COOLDOWN' && repository && account) {
+      const cooldownEnd = await repository.getReviewCooldownEnd(account).catch(() => null);
+      if (cooldownEnd) {
+        params.secondsRemaining = cooldownEnd - Math.floor(Date.now() / 1000);
+      }
+    }
+    if (error instanceof RelayerError && error.retryAfter) {
+      params.secondsRemaining = error.retryAfter;
+    }
+
+    return describeContractError(classified, params, undefined, fallback);
+  }, [repository, account]);
+
+  // Gasless writes need a forwarder on this chain, a relayer for it and a contract that trusts it
+  const relayer = useMemo(() => {
+    const { relayerUrl } = getChainConfig(chainId);
+    const forwarderAddress = getContractAddresses(chainId).ReviewForwarder.address;
+    if (!signer || !relayerUrl || !forwarderAddress || !repository?.capabilities.gasless) return null;
+    return { url: relayerUrl, forwarder: connectReviewForwarder(forwarderAddress, signer) };
+  }, [chainId, signer, repository]);
+
+  // Follow a mined transaction until it has enough confirmations
+  const confirm = useCallback(async (txHash: string, messages: TransactionMessages, relayed?: boolean) => {
+    if (!signer) return;
+
+    setTransactionStatus({
+      type: 'pending',
+      stage: 'mined',
+      message: 'Transaction mined, waiting for confirmations...',
+      txHash,
+      relayed,
+    });
+
+    await signer.provider.waitForTransaction(txHash, CONFIRMATIONS);
+
+    setTransactionStatus({ type: 'success', stage: 'confirmed', message: messages.success, txHash, relayed });
+    toast.success(messages.success);
+  }, [signer]);
+
+  // Sign the call as an EIP-712 request and let the relayer submit it and pay the gas
+  const relayTransaction = useCallback(async (request: ethers.ContractTransaction, messages: TransactionMessages) => {
+    if (!signer || !relayer) return;
+
+    const from = await signer.getAddress();
+    const gas = await estimateForwardedGas(signer.provider, relayer.forwarder, from, request);
+
+    setTransactionStatus({
+      type: 'pending',
+      stage: 'awaiting-signature',
+      message: 'Sign the gasless request in your wallet',
+      relayed: true,
+    });
+
+    const signed = await signForwardRequest(signer, relayer.forwarder, request, gas);
+    const txHash = await submitToRelayer(relayer.url, signed);
+    setTransactionStatus({
+      type: 'pending',
+      stage: 'submitted',
+      message: 'Submitted by the relayer, gas is on us...',
+      txHash,
+      relayed: true,
+    });
+
+    const receipt = await signer.provider.waitForTransaction(txHash);
+    if (!receipt || !forwardedCallSucceeded(receipt, request.to)) throw new Error('Relayed transaction failed');
+
+    await confirm(txHash, messages, true);
+    return txHash;
+  }, [signer, relayer, confirm]);
+
+  // Simulate, price, send and follow one transaction through to confirmation
+  const sendTransaction = useCallback(async (
+    prepare: () => Promise<ethers.ContractTransaction>,
+    messages: TransactionMessages,
+    options: TransactionOptions = {}
+  ) => {
+    if (!signer) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
+    try {
+      setTransactionStatus({ type: 'pending', stage: 'simulating', message: messages.pending });
+
+      const request = await prepare();
+      if (options.relayable && relayer && await cannotAffordGas(signer, request)) {
+        return await relayTransaction(request, messages);
+      }
+
+      await simulateTransaction(signer, request);
+      const { gasLimit, cost } = await estimateTransactionCost(signer, request);
+      const estimatedCost = ethers.formatEther(cost);
+
+      setTransactionStatus({
+        type: 'pending',
+        stage: 'awaiting-signature',
+        message: 'Confirm the transaction in your wallet',
+        estimatedCost,
+      });
+
+      const tx = await signer.sendTransaction({ ...request, gasLimit });
+      pendingTx.current = tx;
+      setTransactionStatus({
+        type: 'pending',
+        stage: 'submitted',
+        message: 'Transaction submitted...',
+        txHash: tx.hash,
+        estimatedCost,
+      });
+
+      const { receipt, cancelled } = await waitForMined(tx);
+      pendingTx.current = null;
+
+      if (cancelled) {
+        setTransactionStatus({ type: 'error', stage: 'cancelled', message: 'Transaction cancelled', txHash: receipt.hash });
+        toast('Transaction cancelled');
+        return;
+      }
+
+      await confirm(receipt.hash, messages);
+      return receipt.hash;
+    } catch (error) {
+      pendingTx.current = null;
+      const { message, remedy } = await explainError(error, messages.error);
+      setTransactionStatus(previous => ({
+        type: 'error',
+        stage: 'failed',
+        message,
+        remedy,
+        txHash: previous?.txHash,
+        relayed: previous?.relayed,
+      }));
+      toast.error(remedy ? `${message}. ${remedy}` : message);
+      throw error;
+    }
+  }, [signer, relayer, relayTransaction, confirm, explainError]);
+
+  const replace = useCallback(async (mode: ReplacementMode) => {
+    if (!signer || !pendingTx.current) return;
+
+    try {
+      const replacement = await replaceTransaction(signer, pendingTx.current, mode);
+      pendingTx.current = replacement;
+      setTransactionStatus(previous => previous && {
+        ...previous,
+        message: mode === 'speed-up' ? 'Speed-up submitted...' : 'Cancellation submitted...',
+        txHash: replacement.hash,
+      });
+    } catch (error) {
+      const { message } = await explainError(error, `Failed to ${mode === 'speed-up' ? 'speed up' : 'cancel'} transaction`);
+      toast.error(message);
+    }
+  }, [signer, explainError]);
+
+  const speedUp = useCallback(() => replace('speed-up'), [replace]);
+  const cancel = useCallback(() => replace('cancel'), [replace]);
+  const dismiss = useCallback(() => setTransactionStatus(null), []);
+
+  return (
+    <TransactionContext.Provider value={{
+      transactionStatus,
+      sendTransaction,
+      speedUp,
+      cancel,
+      dismiss,
+    }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+};
+
+export const useTransactions = () => {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+};
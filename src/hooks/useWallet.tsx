@@ -1,92 +1,143 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, useMemo, createContext, useContext, ReactNode } from 'react';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESS, CONTRACT_ABI, SEPOLIA_CHAIN_ID } from '../config/contract';
+import { ChainConfig, DEFAULT_CHAIN_ID, getChainConfig, getSupportedChains, hasReviewDeployment } from '../config/contractsV2';
+import { createReviewRepository, ReviewRepository } from '../repositories';
 import { UserRole } from '../types';
+import { createReadProvider } from '../utils/providers';
 import toast from 'react-hot-toast';
 
 interface WalletContextType {
   account: string | null;
   provider: ethers.BrowserProvider | null;
   signer: ethers.JsonRpcSigner | null;
-  contract: ethers.Contract | null;
+  contract: ethers.BaseContract | null;
+  // Signer-backed on a deployed chain, read-only otherwise
+  repository: ReviewRepository | null;
+  // Chain the app reads from: the wallet's chain when it has a deployment, else the selected one
+  chainId: number;
+  // Chain the connected wallet is on, which may have no deployment
+  walletChainId: number | null;
+  // Chains with a review contract deployed, for the chain selector
+  supportedChains: ChainConfig[];
+  isReadOnly: boolean;
+  isUnsupportedChain: boolean;
   userRole: UserRole;
   isConnecting: boolean;
-  connectWallet: () => Promise<void>;
+  connectWallet: () => Promise<boolean>;
   disconnectWallet: () => void;
-  switchToSepolia: () => Promise<void>;
+  switchChain: (chainId: number) => Promise<void>;
 }
 
 const WalletContext = createContext<WalletContextType | null>(null);
 
+const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
+
 export const WalletProvider = ({ children }: { children: ReactNode }) => {
   const [account, setAccount] = useState<string | null>(null);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.JsonRpcSigner | null>(null);
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
+  const [walletRepository, setWalletRepository] = useState<ReviewRepository | null>(null);
+  const [walletChainId, setWalletChainId] = useState<number | null>(null);
+  const [selectedChainId, setSelectedChainId] = useState(DEFAULT_CHAIN_ID);
   const [userRole, setUserRole] = useState<UserRole>('user');
   const [isConnecting, setIsConnecting] = useState(false);
 
-  // Switch to Sepolia network
-  const switchToSepolia = async () => {
-    if (!window.ethereum) return;
+  const supportedChains = useMemo(
+    () => getSupportedChains().filter(chain => hasReviewDeployment(chain.id)),
+    []
+  );
+
+  // Switch the wallet to a supported chain, or just the read-only view when no wallet is connected
+  const switchChain = async (targetChainId: number) => {
+    if (!account || !window.ethereum) {
+      setSelectedChainId(targetChainId);
+      return;
+    }
 
+    const chain = getChainConfig(targetChainId);
     try {
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}` }],
+        params: [{ chainId: toHexChainId(targetChainId) }],
       });
     } catch (error: any) {
       // Chain doesn't exist, add it
       if (error.code === 4902) {
-        await window.ethereum.request({
-          method: 'wallet_addEthereumChain',
-          params: [
-            {
-              chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}`,
-              chainName: 'Sepolia Testnet',
-              nativeCurrency: {
-                name: 'SepoliaETH',
-                symbol: 'ETH',
-                decimals: 18,
+        try {
+          await window.ethereum.request({
+            method: 'wallet_addEthereumChain',
+            params: [
+              {
+                chainId: toHexChainId(targetChainId),
+                chainName: chain.name,
+                nativeCurrency: chain.nativeCurrency,
+                rpcUrls: [chain.rpcUrl],
+                blockExplorerUrls: chain.blockExplorer ? [chain.blockExplorer] : undefined,
               },
-              rpcUrls: ['https://sepolia.infura.io/v3/'],
-              blockExplorerUrls: ['https://sepolia.etherscan.io'],
-            },
-          ],
-        });
+            ],
+          });
+        } catch (addError) {
+          console.error('Error adding chain:', addError);
+          toast.error(`Failed to add ${chain.name} to your wallet`);
+        }
+      } else {
+        toast.error(`Failed to switch to ${chain.name}`);
       }
     }
+    // The wallet's chainChanged event reloads the contracts
   };
 
   // Get user role from contract
-  const getUserRole = async (address: string, contractInstance: ethers.Contract): Promise<UserRole> => {
+  const getUserRole = async (address: string, repositoryInstance: ReviewRepository): Promise<UserRole> => {
     try {
-      // Check if admin (contract owner)
-      const owner = await contractInstance.owner();
-      if (owner.toLowerCase() === address.toLowerCase()) {
-        return 'admin';
-      }
-
-      // Check if moderator
-      const isMod = await contractInstance.isModerator(address);
-      if (isMod) {
-        return 'moderator';
-      }
-
-      // Check if business owner (would need to check multiple businesses)
-      // For now, this will be determined when selecting a business
-      return 'user';
+      return await repositoryInstance.getUserRole(address);
     } catch (error) {
       console.error('Error getting user role:', error);
       return 'user';
     }
   };
 
-  // Connect wallet
+  // Visitors, and wallets on a chain without a deployment, browse through a public RPC endpoint
+  const readRepository = useMemo(() => {
+    try {
+      return createReviewRepository(selectedChainId, createReadProvider(selectedChainId));
+    } catch (error) {
+      console.error('Error creating read-only provider:', error);
+      return null;
+    }
+  }, [selectedChainId]);
+
+  // Build provider, signer and contracts for whatever chain the wallet is on
+  const loadWallet = async (address: string) => {
+    if (!window.ethereum) throw new Error('No wallet available');
+
+    const browserProvider = new ethers.BrowserProvider(window.ethereum);
+    const walletSigner = await browserProvider.getSigner(address);
+    const network = await browserProvider.getNetwork();
+    const networkChainId = Number(network.chainId);
+
+    // Pick the V1 or V2 adapter for this chain's deployment
+    const repositoryInstance = hasReviewDeployment(networkChainId)
+      ? createReviewRepository(networkChainId, walletSigner)
+      : null;
+    const role = repositoryInstance ? await getUserRole(address, repositoryInstance) : 'user';
+
+    setAccount(address);
+    setProvider(browserProvider);
+    setSigner(walletSigner);
+    setWalletRepository(repositoryInstance);
+    setWalletChainId(networkChainId);
+    setUserRole(role);
+    if (repositoryInstance) {
+      setSelectedChainId(networkChainId);
+    }
+  };
+
+  // Connect wallet; resolves to whether a wallet is now connected
   const connectWallet = async () => {
     if (!window.ethereum) {
       toast.error('Please install MetaMask or another Web3 wallet');
-      return;
+      return false;
     }
 
     setIsConnecting(true);
@@ -100,33 +151,14 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
         throw new Error('No accounts found');
       }
 
-      // Switch to Sepolia
-      await switchToSepolia();
-
-      // Set up provider and signer
-      const browserProvider = new ethers.BrowserProvider(window.ethereum);
-      const signer = await browserProvider.getSigner();
-      
-      // Create contract instance
-      const contractInstance = new ethers.Contract(
-        CONTRACT_ADDRESS,
-        CONTRACT_ABI,
-        signer
-      );
-
-      // Get user role
-      const role = await getUserRole(accounts[0], contractInstance);
-
-      setAccount(accounts[0]);
-      setProvider(browserProvider);
-      setSigner(signer);
-      setContract(contractInstance);
-      setUserRole(role);
+      await loadWallet(accounts[0]);
 
       toast.success('Wallet connected successfully');
+      return true;
     } catch (error) {
       console.error('Error connecting wallet:', error);
       toast.error('Failed to connect wallet');
+      return false;
     } finally {
       setIsConnecting(false);
     }
@@ -137,12 +169,13 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     setAccount(null);
     setProvider(null);
     setSigner(null);
-    setContract(null);
+    setWalletRepository(null);
+    setWalletChainId(null);
     setUserRole('user');
     toast.success('Wallet disconnected');
   };
 
-  // Listen for account changes
+  // Listen for account and chain changes
   useEffect(() => {
     if (!window.ethereum) return;
 
@@ -154,8 +187,13 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
       }
     };
 
+    // Re-instantiate contracts for the new chain instead of reloading the page
     const handleChainChanged = () => {
-      window.location.reload();
+      if (!account) return;
+      loadWallet(account).catch(error => {
+        console.error('Error switching chain:', error);
+        toast.error('Failed to load the new network');
+      });
     };
 
     window.ethereum.on('accountsChanged', handleAccountsChanged);
@@ -169,17 +207,25 @@ export const WalletProvider = ({ children }: { children: ReactNode }) => {
     };
   }, [account]);
 
+  const repository = walletRepository || readRepository;
+
   return (
     <WalletContext.Provider value={{
       account,
       provider,
       signer,
-      contract,
+      contract: repository?.contract || null,
+      repository,
+      chainId: walletRepository && walletChainId !== null ? walletChainId : selectedChainId,
+      walletChainId,
+      supportedChains,
+      isReadOnly: !walletRepository,
+      isUnsupportedChain: account !== null && !walletRepository,
       userRole,
       isConnecting,
       connectWallet,
       disconnectWallet,
-      switchToSepolia,
+      switchChain,
     }}>
       {children}
     </WalletContext.Provider>
@@ -0,0 +1,62 @@
+import { getGatewayResolver } from '../content';
+import { hashImage } from './pipeline';
+import { isSimilar } from './perceptualHash';
+
+const STORAGE_KEY = 'yelp_image_fingerprints';
+
+// Fetching and hashing published images is slow, so only the most recent ones are checked
+export const MAX_FINGERPRINT_FETCHES = 24;
+
+// Perceptual hashes of published images by CID; a CID's content never changes, so entries never expire
+const load = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const save = (fingerprints: Record<string, string>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fingerprints));
+  } catch (error) {
+    console.warn('Could not save image fingerprints:', error);
+  }
+};
+
+// Record the hash of an image we just published, so it never has to be fetched back
+export const rememberFingerprint = (cid: string, perceptualHash: string) => {
+  save({ ...load(), [cid]: perceptualHash });
+};
+
+/**
+ * Perceptual hashes for the given CIDs, fetching and hashing the first MAX_FINGERPRINT_FETCHES
+ * that aren't known yet. Images that fail to load are left out.
+ */
+export const getFingerprints = async (cids: string[]): Promise<Map<string, string>> => {
+  const known = load();
+  const missing = [...new Set(cids.filter(cid => !known[cid]))].slice(0, MAX_FINGERPRINT_FETCHES);
+
+  const fetched = await Promise.all(missing.map(async cid => {
+    try {
+      return [cid, await hashImage(await getGatewayResolver().fetch(cid))] as const;
+    } catch (error) {
+      console.warn(`Could not fingerprint image ${cid}:`, error);
+      return null;
+    }
+  }));
+
+  const updated = { ...load() };
+  for (const entry of fetched) {
+    if (entry) updated[entry[0]] = entry[1];
+  }
+  if (fetched.some(Boolean)) save(updated);
+
+  return new Map(cids.filter(cid => updated[cid]).map(cid => [cid, updated[cid]]));
+};
+
+// CIDs among the fingerprints that look like the same picture
+export const findDuplicates = (perceptualHash: string, fingerprints: Map<string, string>): string[] =>
+  Array.from(fingerprints.entries())
+    .filter(([, hash]) => isSimilar(perceptualHash, hash))
+    .map(([cid]) => cid);
@@ -0,0 +1,5 @@
+export { processImage, decodeImage, hashImage, FULL_SIZE, THUMBNAIL, MAX_SOURCE_SIZE } from './pipeline';
+export type { ProcessedImage, ImageBudget } from './pipeline';
+export { perceptualHash, hammingDistance, isSimilar, SIMILARITY_THRESHOLD } from './perceptualHash';
+export { readOrientation, stripJpegMetadata } from './jpeg';
+export { getFingerprints, rememberFingerprint, findDuplicates } from './fingerprints';
@@ -0,0 +1,87 @@
+// JPEG markers we need to walk the segment list
+const SOI = 0xd8;
+const SOS = 0xda;
+const EOI = 0xd9;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP2 = 0xe2;
+const APP15 = 0xef;
+const COM = 0xfe;
+
+const ORIENTATION_TAG = 0x0112;
+
+const hasAscii = (bytes: Uint8Array, offset: number, text: string) =>
+  text.split('').every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+export const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === SOI;
+
+// Calls back with each segment before the image data: its marker and where it starts and ends
+const walkSegments = (bytes: Uint8Array, visit: (marker: number, start: number, end: number) => void): number => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === SOS || marker === EOI) break;
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    visit(marker, offset, offset + 2 + length);
+    offset += 2 + length;
+  }
+  return offset;
+};
+
+// Reads the Exif orientation (1-8) from a JPEG, or 1 when it has none
+export const readOrientation = (bytes: Uint8Array): number => {
+  if (!isJpeg(bytes)) return 1;
+
+  let orientation = 1;
+  walkSegments(bytes, (marker, start, end) => {
+    // "Exif\0\0" then a TIFF header
+    if (marker !== APP1 || end - start < 18 || !hasAscii(bytes, start + 4, 'Exif')) return;
+
+    const tiff = start + 10;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const little = view.getUint16(tiff) === 0x4949;
+    const ifd = tiff + view.getUint32(tiff + 4, little);
+    if (ifd + 2 > end) return;
+
+    const entries = view.getUint16(ifd, little);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > end) return;
+      if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+        const value = view.getUint16(entry + 8, little);
+        if (value >= 1 && value <= 8) orientation = value;
+        return;
+      }
+    }
+  });
+  return orientation;
+};
+
+/**
+ * Drops Exif, XMP and comment segments from a JPEG but keeps the ICC profile (APP2). Besides removing GPS data
+ * before decoding, this stops browsers from applying the orientation themselves, since only some do and we rotate
+ * explicitly.
+ */
+export const stripJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (!isJpeg(bytes)) return bytes;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  const imageStart = walkSegments(bytes, (marker, start, end) => {
+    const isMetadata = (marker > APP0 && marker <= APP15 && marker !== APP2) || marker === COM;
+    if (!isMetadata) kept.push(bytes.subarray(start, end));
+  });
+  kept.push(bytes.subarray(imageStart));
+
+  const stripped = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of kept) {
+    stripped.set(part, offset);
+    offset += part.length;
+  }
+  return stripped;
+};
@@ -0,0 +1,51 @@
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale thumbnail, giving 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hashes this many bits apart or fewer are treated as the same picture
+export const SIMILARITY_THRESHOLD = 10;
+
+/**
+ * A 64-bit difference hash as 16 hex characters. It survives resizing, re-encoding and small edits,
+ * so the same photo uploaded twice hashes alike even though the files and CIDs differ.
+ */
+export const perceptualHash = (source: CanvasImageSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available');
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  // Rec. 601 luma of each pixel
+  const luma = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // Each row gives 8 bits, two hex digits
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+};
+
+// Number of differing bits between two hashes from perceptualHash
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    for (; diff; diff &= diff - 1) distance++;
+  }
+  return distance;
+};
+
+export const isSimilar = (a: string, b: string) => a.length === b.length && hammingDistance(a, b) <= SIMILARITY_THRESHOLD;
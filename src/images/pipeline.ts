@@ -0,0 +1,182 @@
+import { readOrientation, stripJpegMetadata } from './jpeg';
+import { perceptualHash } from './perceptualHash';
+
+export interface ImageBudget {
+  // Longest side, in pixels
+  maxDimension: number;
+  maxBytes: number;
+}
+
+export const FULL_SIZE: ImageBudget = { maxDimension: 2048, maxBytes: 1024 * 1024 };
+export const THUMBNAIL: ImageBudget = { maxDimension: 320, maxBytes: 32 * 1024 };
+
+// Largest file accepted from the picker; processing brings it within FULL_SIZE
+export const MAX_SOURCE_SIZE = 25 * 1024 * 1024;
+
+// Tried in turn until the encoding fits the budget, before giving up resolution
+const QUALITIES = [0.85, 0.75, 0.65, 0.5];
+const DOWNSCALE_STEP = 0.75;
+
+export interface ProcessedImage {
+  // Re-encoded, oriented and without metadata; this is what gets uploaded
+  file: File;
+  thumbnail: Blob;
+  perceptualHash: string;
+  width: number;
+  height: number;
+  originalSize: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.imageSmoothingQuality = 'high';
+  return { canvas, context };
+};
+
+// Draws the decoded pixels upright, applying an Exif orientation the way a camera intended
+const drawOriented = (bitmap: ImageBitmap, orientation: number): HTMLCanvasElement => {
+  const swapsAxes = orientation >= 5;
+  const { canvas, context } = swapsAxes
+    ? createCanvas(bitmap.height, bitmap.width)
+    : createCanvas(bitmap.width, bitmap.height);
+  const { width, height } = bitmap;
+
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+  context.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+/**
+ * Scales a canvas to fit within maxDimension. Large reductions are done in halving steps,
+ * since a single drawImage skips pixels and leaves the result aliased.
+ */
+const fitWithin = (source: HTMLCanvasElement, maxDimension: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  const targetWidth = source.width * scale;
+  const targetHeight = source.height * scale;
+
+  let current = source;
+  while (current.width / 2 >= targetWidth && current.height / 2 >= targetHeight) {
+    const { canvas, context } = createCanvas(current.width / 2, current.height / 2);
+    context.drawImage(current, 0, 0, canvas.width, canvas.height);
+    current = canvas;
+  }
+  if (current.width === Math.round(targetWidth) && current.height === Math.round(targetHeight)) return current;
+
+  const { canvas, context } = createCanvas(targetWidth, targetHeight);
+  context.drawImage(current, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+let webpSupported: Promise<boolean> | null = null;
+
+// Browsers without a WebP encoder silently hand back a PNG instead
+const supportsWebp = () => {
+  if (!webpSupported) {
+    webpSupported = toBlob(createCanvas(1, 1).canvas, 'image/webp', 0.8).then(blob => blob?.type === 'image/webp');
+  }
+  return webpSupported;
+};
+
+// JPEG has no alpha channel, so transparent areas would otherwise turn black
+const flatten = (source: HTMLCanvasElement): HTMLCanvasElement => {
+  const { canvas, context } = createCanvas(source.width, source.height);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0);
+  return canvas;
+};
+
+interface Encoded {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Encodes at decreasing quality, then decreasing size, until the result fits the budget
+const encodeWithin = async (source: HTMLCanvasElement, budget: ImageBudget): Promise<Encoded> => {
+  const type = (await supportsWebp()) ? 'image/webp' : 'image/jpeg';
+  let canvas = fitWithin(source, budget.maxDimension);
+  if (type === 'image/jpeg') canvas = flatten(canvas);
+
+  for (;;) {
+    let smallest: Blob | null = null;
+    for (const quality of QUALITIES) {
+      const blob = await toBlob(canvas, type, quality);
+      if (!blob) throw new Error('The browser could not encode the image');
+      smallest = blob;
+      if (blob.size <= budget.maxBytes) break;
+    }
+
+    // Fits, or is already tiny and shrinking further would leave nothing worth seeing
+    if ((smallest as Blob).size <= budget.maxBytes || Math.max(canvas.width, canvas.height) * DOWNSCALE_STEP < 64) {
+      return { blob: smallest as Blob, width: canvas.width, height: canvas.height };
+    }
+    canvas = fitWithin(canvas, Math.max(canvas.width, canvas.height) * DOWNSCALE_STEP);
+  }
+};
+
+const renameFor = (name: string, type: string) =>
+  `${name.replace(/\.[^.]*$/, '') || 'image'}.${type === 'image/webp' ? 'webp' : 'jpg'}`;
+
+// Decodes any image the browser can read, oriented and upright
+export const decodeImage = async (source: Blob): Promise<HTMLCanvasElement> => {
+  const bytes = new Uint8Array(await source.arrayBuffer());
+  const orientation = readOrientation(bytes);
+
+  // Decoded without the Exif block so the browser can't rotate too; the colour profile is kept
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(new Blob([stripJpegMetadata(bytes)], { type: source.type }));
+  } catch {
+    throw new Error('This file is not an image the browser can read');
+  }
+
+  try {
+    return drawOriented(bitmap, orientation);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Hash of an already published image, computed the same way as for new uploads
+export const hashImage = async (source: Blob): Promise<string> =>
+  perceptualHash(fitWithin(await decodeImage(source), THUMBNAIL.maxDimension));
+
+/**
+ * Prepares a picked photo for publishing: drops all metadata (including GPS), rotates it upright,
+ * and re-encodes it within the size budgets along with a thumbnail and a perceptual hash.
+ */
+export const processImage = async (file: File): Promise<ProcessedImage> => {
+  if (file.size > MAX_SOURCE_SIZE) {
+    throw new Error(`Images must be smaller than ${MAX_SOURCE_SIZE / (1024 * 1024)}MB`);
+  }
+
+  const upright = await decodeImage(file);
+  // Re-encoding from canvas pixels is what guarantees no metadata survives
+  const [image, thumbnail] = await Promise.all([encodeWithin(upright, FULL_SIZE), encodeWithin(upright, THUMBNAIL)]);
+
+  return {
+    file: new File([image.blob], renameFor(file.name, image.blob.type), { type: image.blob.type, lastModified: Date.now() }),
+    thumbnail: thumbnail.blob,
+    perceptualHash: perceptualHash(fitWithin(upright, THUMBNAIL.maxDimension)),
+    width: image.width,
+    height: image.height,
+    originalSize: file.size,
+  };
+};
@@ -0,0 +1,40 @@
+import { ethers } from 'ethers';
+import { getContractAddresses } from '../config/contractsV2';
+import { connectYelpReview, connectYelpReviewV2 } from '../types/contracts';
+import { ReviewRepository } from './types';
+import { createV1Repository } from './v1Repository';
+import { createV2Repository } from './v2Repository';
+
+export * from './types';
+
+/**
+ * Pick the review contract adapter for a chain. The V2 suite wins once it is deployed;
+ * until then the chain's V1 deployment is used. Returns null when neither is deployed.
+ */
+export const createReviewRepository = (
+  chainId: number,
+  runner: ethers.ContractRunner
+): ReviewRepository | null => {
+  let addresses;
+  try {
+    addresses = getContractAddresses(chainId);
+  } catch {
+    return null;
+  }
+
+  if (addresses.YelpReviewV2.address) {
+    return createV2Repository(
+      connectYelpReviewV2(addresses.YelpReviewV2.address, runner),
+      addresses.YelpReviewV2.deployBlock
+    );
+  }
+
+  if (addresses.YelpReview.address) {
+    return createV1Repository(
+      connectYelpReview(addresses.YelpReview.address, runner),
+      addresses.YelpReview.deployBlock
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+import { Review } from '../types';
+import { TypedContractMethod } from '../types/contracts';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { batchCall } from '../utils/multicall';
+import { hydrateReviewBody } from '../utils/reviewDocuments';
+import { ReviewRef } from './types';
+
+// Off-chain bodies fetched at once; a cold sync can reference hundreds of documents
+const MAX_CONCURRENT_DOCUMENTS = 6;
+
+// Blocks or transactions requested at once when resolving logs, so a long history doesn't trip RPC rate limits
+export const MAX_CONCURRENT_LOOKUPS = 8;
+
+// Both contract versions expose getReviewers and a getReview struct keyed by business and reviewer
+interface ReviewReader<T> extends ethers.BaseContract {
+  getReview: TypedContractMethod<[businessId: ethers.BytesLike, reviewer: ethers.AddressLike], T, 'view'>;
+  getReviewers: TypedContractMethod<[businessId: ethers.BytesLike], string[], 'view'>;
+}
+
+// Batch-load reviews by reference, with off-chain bodies filled in; failed or empty slots come back as null
+export const fetchReviewsByRef = async <T extends { timestamp: bigint }>(
+  contract: ReviewReader<T>,
+  refs: ReviewRef[],
+  mapReview: (raw: T) => Review
+): Promise<(Review | null)[]> => {
+  const results = await batchCall<T>(refs.map(ref => ({
+    contract,
+    method: 'getReview',
+    args: [ref.businessId, ref.reviewer],
+  })));
+
+  const reviews = results.map(result => {
+    if (!result.success) {
+      console.error('Error fetching review:', result.error);
+      return null;
+    }
+    // Unset storage slots decode to a zero timestamp
+    return Number(result.value!.timestamp) === 0 ? null : mapReview(result.value!);
+  });
+
+  // Bodies stored off-chain are fetched and verified before anyone sees the review
+  return mapWithConcurrency(reviews, MAX_CONCURRENT_DOCUMENTS, review => (review ? hydrateReviewBody(review) : Promise.resolve(null)));
+};
+
+// Batch-load every review for several businesses: one batch for reviewers, one for reviews
+export const fetchBusinessReviews = async <T extends { timestamp: bigint }>(
+  contract: ReviewReader<T>,
+  businessIds: string[],
+  mapReview: (raw: T) => Review
+): Promise<Map<string, Review[]>> => {
+  const reviewsByBusiness = new Map<string, Review[]>();
+  if (businessIds.length === 0) return reviewsByBusiness;
+
+  const reviewerResults = await batchCall<string[]>(
+    businessIds.map(businessId => ({ contract, method: 'getReviewers', args: [businessId] }))
+  );
+
+  const refs: ReviewRef[] = [];
+  reviewerResults.forEach((result, index) => {
+    reviewsByBusiness.set(businessIds[index], []);
+    if (!result.success) {
+      console.error(`Error fetching reviewers for ${businessIds[index]}:`, result.error);
+      return;
+    }
+    for (const reviewer of result.value || []) {
+      refs.push({ businessId: businessIds[index], reviewer });
+    }
+  });
+
+  const reviews = await fetchReviewsByRef(contract, refs, mapReview);
+  reviews.forEach((review, index) => {
+    if (review) {
+      reviewsByBusiness.get(refs[index].businessId)!.push(review);
+    }
+  });
+
+  return reviewsByBusiness;
+};
+
+// Block timestamps for a set of logs, fetching each block once
+export const fetchLogTimestamps = async (logs: ethers.Log[]): Promise<Map<number, number>> => {
+  const firstLogs = new Map<number, ethers.Log>();
+  logs.forEach(log => {
+    if (!firstLogs.has(log.blockNumber)) firstLogs.set(log.blockNumber, log);
+  });
+  const blocks = await mapWithConcurrency(Array.from(firstLogs.values()), MAX_CONCURRENT_LOOKUPS, log => log.getBlock());
+  return new Map(blocks.map(block => [block.number, block.timestamp]));
+};
+
+// Oldest first, and in emission order within a block
+export const compareLogs = (a: ethers.Log, b: ethers.Log) => a.blockNumber - b.blockNumber || a.index - b.index;
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { BanRecord, ModerationAction, ModeratorChange, RegisteredBusiness, Review, ReviewVersion, ReviewVote, UserRole } from '../types';
+import { ContractLimits } from '../utils/reviewSchema';
+
+export type ContractVersion = 'v1' | 'v2';
+
+// Identifies a single review: one review per reviewer per business
+export interface ReviewRef {
+  businessId: string;
+  reviewer: string;
+}
+
+export interface ReviewInput {
+  rating: number;
+  comment: string;
+  tags: string[];
+  imageHashes: string[];
+}
+
+export type BusinessRegistration = Pick<RegisteredBusiness, 'name' | 'category' | 'location' | 'description'>;
+
+// Images are fixed once posted; an edit replaces the text, rating and tags
+export type ReviewUpdate = Omit<ReviewInput, 'imageHashes'>;
+
+// What a decoded contract event means for the local review cache
+export interface CacheEvent {
+  review?: ReviewRef;
+  businessOwner?: { businessId: string; owner: string };
+  // A registry entry was created or changed and should be re-read
+  business?: string;
+}
+
+// Features that only some contract versions support
+export interface RepositoryCapabilities {
+  multipleImages: boolean;
+  editing: boolean;
+  voting: boolean;
+  businessRegistry: boolean;
+  userBans: boolean;
+  ownerAssignment: boolean;
+  // Moderators can clear a flag instead of archiving the review
+  unflagging: boolean;
+  // Writes can be signed as EIP-712 requests and relayed through a trusted forwarder
+  gasless: boolean;
+}
+
+export interface ReviewRepository {
+  version: ContractVersion;
+  capabilities: RepositoryCapabilities;
+  contract: ethers.BaseContract;
+  deployBlock: number;
+
+  // Reads
+  getReviewsByRef: (refs: ReviewRef[]) => Promise<(Review | null)[]>;
+  getReviews: (businessIds: string[]) => Promise<Map<string, Review[]>>;
+  getBusinessOwners: (businessIds: string[]) => Promise<Map<string, string | null>>;
+  // Registry entries by ID, null where the business isn't registered
+  getBusinesses: (businessIds: string[]) => Promise<(RegisteredBusiness | null)[]>;
+  getUserRole: (address: string) => Promise<UserRole>;
+  // The review limits the contract exposes as constants; the schema's table covers the rest
+  getContractLimits: () => Promise<ContractLimits>;
+  // Unix time when the address may post its next review, or null without a cooldown
+  getReviewCooldownEnd: (address: string) => Promise<number | null>;
+  // Every version of a review, oldest first; empty when the contract keeps no history
+  getReviewHistory: (ref: ReviewRef) => Promise<ReviewVersion[]>;
+  // How the voter voted on each review, null where they haven't
+  getVotes: (refs: ReviewRef[], voter: string) => Promise<(ReviewVote | null)[]>;
+  isBanned: (address: string) => Promise<boolean>;
+  // Bans and unbans, oldest first, for one address or for everyone
+  getBanHistory: (user?: string) => Promise<BanRecord[]>;
+  // Every flag, unflag and archive across all businesses, oldest first
+  getModerationLog: () => Promise<ModerationAction[]>;
+  // When the owner answered each review of a business, keyed by lowercase reviewer address
+  getOwnerResponseTimes: (businessId: string) => Promise<Map<string, number>>;
+  // Moderator grants and revocations, oldest first
+  getModeratorHistory: () => Promise<ModeratorChange[]>;
+  parseEvent: (log: ethers.Log) => CacheEvent | null;
+
+  // Writes return unsigned transactions so they can be simulated and priced before sending
+  registerBusiness: (business: BusinessRegistration) => Promise<ethers.ContractTransaction>;
+  addReview: (businessId: string, input: ReviewInput) => Promise<ethers.ContractTransaction>;
+  updateReview: (businessId: string, update: ReviewUpdate) => Promise<ethers.ContractTransaction>;
+  addOwnerResponse: (businessId: string, reviewer: string, response: string) => Promise<ethers.ContractTransaction>;
+  voteReview: (businessId: string, reviewer: string, vote: ReviewVote) => Promise<ethers.ContractTransaction>;
+  // Withdraws the sender's vote on a review
+  clearVote: (businessId: string, reviewer: string) => Promise<ethers.ContractTransaction>;
+
+  // Moderation
+  flagReview: (businessId: string, reviewer: string) => Promise<ethers.ContractTransaction>;
+  archiveReview: (businessId: string, reviewer: string) => Promise<ethers.ContractTransaction>;
+  unflagReview: (businessId: string, reviewer: string) => Promise<ethers.ContractTransaction>;
+  setBusinessOwner: (businessId: string, owner: string) => Promise<ethers.ContractTransaction>;
+  // Moderator verification, as opposed to an owner staking for it
+  verifyBusiness: (businessId: string) => Promise<ethers.ContractTransaction>;
+  banUser: (user: string, reason: string) => Promise<ethers.ContractTransaction>;
+  unbanUser: (user: string) => Promise<ethers.ContractTransaction>;
+
+  // Administration
+  setModerator: (account: string, enabled: boolean) => Promise<ethers.ContractTransaction>;
+}
+
+export class UnsupportedOperationError extends Error {
+  constructor(operation: string, version: ContractVersion) {
+    super(`${operation} is not supported by the ${version.toUpperCase()} review contract`);
+    this.name = 'UnsupportedOperationError';
+  }
+}
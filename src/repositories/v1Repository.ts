@@ -0,0 +1,226 @@
+import { ethers } from 'ethers';
+import { ModerationAction, ModeratorChange, Review, UserRole } from '../types';
+import { MethodOutput, YelpReviewContract } from '../types/contracts';
+import { ReviewStructOutput } from '../types/contracts/YelpReview';
+import { batchCall } from '../utils/multicall';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { queryLogsPaged } from '../utils/logPaging';
+import {
+  MAX_CONCURRENT_LOOKUPS, compareLogs, fetchBusinessReviews, fetchLogTimestamps, fetchReviewsByRef,
+} from './shared';
+import { CacheEvent, ReviewRepository, UnsupportedOperationError } from './types';
+
+// Map the V1 getReview struct onto our Review shape
+const toReview = (review: ReviewStructOutput): Review => ({
+  reviewer: review.reviewer,
+  timestamp: Number(review.timestamp),
+  rating: Number(review.rating),
+  comment: review.comment,
+  tags: [...review.tags],
+  imageHash: review.imageHash,
+  imageHashes: review.imageHash ? [review.imageHash] : [],
+  isFlagged: review.isFlagged,
+  isArchived: review.isArchived,
+  ownerResponse: review.ownerResponse,
+  hasOwnerResponse: review.hasOwnerResponse,
+});
+
+export const createV1Repository = (contract: YelpReviewContract, deployBlock: number): ReviewRepository => ({
+  version: 'v1',
+  capabilities: {
+    multipleImages: false,
+    editing: false,
+    voting: false,
+    businessRegistry: false,
+    userBans: false,
+    ownerAssignment: true,
+    unflagging: false,
+    gasless: false,
+  },
+  contract,
+  deployBlock,
+
+  getReviewsByRef: refs => fetchReviewsByRef(contract, refs, toReview),
+
+  getReviews: businessIds => fetchBusinessReviews(contract, businessIds, toReview),
+
+  getBusinessOwners: async businessIds => {
+    const owners = new Map<string, string | null>();
+    const results = await batchCall<MethodOutput<YelpReviewContract['getBusinessOwner']>>(
+      businessIds.map(businessId => ({ contract, method: 'getBusinessOwner', args: [businessId] }))
+    );
+    results.forEach((result, index) => {
+      if (!result.success) {
+        console.error(`Error fetching owner for ${businessIds[index]}:`, result.error);
+        return;
+      }
+      owners.set(businessIds[index], result.value === ethers.ZeroAddress ? null : result.value!);
+    });
+    return owners;
+  },
+
+  // V1 has no registry; businesses exist implicitly once reviewed
+  getBusinesses: async businessIds => businessIds.map(() => null),
+
+  getUserRole: async (address: string): Promise<UserRole> => {
+    // Check if admin (contract owner)
+    const owner = await contract.owner();
+    if (owner.toLowerCase() === address.toLowerCase()) {
+      return 'admin';
+    }
+
+    // Check if moderator
+    if (await contract.isModerator(address)) {
+      return 'moderator';
+    }
+
+    // Business ownership is per business, so it is determined when selecting a business
+    return 'user';
+  },
+
+  // V1 doesn't expose its limits
+  getContractLimits: async () => ({}),
+
+  // V1 has no posting cooldown
+  getReviewCooldownEnd: async () => null,
+
+  // V1 reviews can't be edited, so there is only ever the current version
+  getReviewHistory: async () => [],
+
+  // V1 has no voting, so nobody has voted on anything
+  getVotes: async refs => refs.map(() => null),
+
+  // V1 can't ban users
+  isBanned: async () => false,
+
+  getBanHistory: async () => [],
+
+  // V1 events don't name the moderator, so it comes from the transaction sender
+  getModerationLog: async () => {
+    const [flagged, archived] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.ReviewFlagged(), deployBlock),
+      queryLogsPaged(contract, contract.filters.ReviewArchived(), deployBlock),
+    ]);
+
+    const logs = [...flagged, ...archived].sort(compareLogs);
+    const timestamps = await fetchLogTimestamps(logs);
+    const actions = await mapWithConcurrency(logs, MAX_CONCURRENT_LOOKUPS, async (log): Promise<ModerationAction | null> => {
+      const event = contract.interface.parseLog(log);
+      const tx = await log.getTransaction();
+      if (!event) return null;
+      return {
+        businessId: event.args.businessId,
+        reviewer: event.args.reviewer,
+        action: event.name === 'ReviewFlagged' ? 'flagged' : 'archived',
+        moderator: tx.from,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        txHash: log.transactionHash,
+      };
+    });
+
+    return actions.filter((action): action is ModerationAction => action !== null);
+  },
+
+  // The V1 event isn't indexed, so every response is read and filtered by business
+  getOwnerResponseTimes: async businessId => {
+    const logs = await queryLogsPaged(contract, contract.filters.OwnerResponseAdded(), deployBlock);
+    const matching = logs.flatMap(log => {
+      const event = contract.interface.parseLog(log);
+      return event && event.args.businessId.toLowerCase() === businessId.toLowerCase()
+        ? [{ log, reviewer: event.args.reviewer as string }]
+        : [];
+    });
+    const timestamps = await fetchLogTimestamps(matching.map(({ log }) => log));
+
+    const times = new Map<string, number>();
+    matching.forEach(({ log, reviewer }) => times.set(reviewer.toLowerCase(), timestamps.get(log.blockNumber) ?? 0));
+    return times;
+  },
+
+  getModeratorHistory: async () => {
+    const [added, removed] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.ModeratorAdded(), deployBlock),
+      queryLogsPaged(contract, contract.filters.ModeratorRemoved(), deployBlock),
+    ]);
+
+    const logs = [...added, ...removed].sort(compareLogs);
+    const timestamps = await fetchLogTimestamps(logs);
+    const changes = await mapWithConcurrency(logs, MAX_CONCURRENT_LOOKUPS, async (log): Promise<ModeratorChange | null> => {
+      const event = contract.interface.parseLog(log);
+      const tx = await log.getTransaction();
+      if (!event) return null;
+      return {
+        account: event.args.moderator,
+        granted: event.name === 'ModeratorAdded',
+        admin: tx.from,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        txHash: log.transactionHash,
+      };
+    });
+
+    return changes.filter((change): change is ModeratorChange => change !== null);
+  },
+
+  parseEvent: (log): CacheEvent | null => {
+    const event = contract.interface.parseLog(log);
+    if (!event) return null;
+
+    if (event.name === 'BusinessOwnerSet') {
+      return { businessOwner: { businessId: event.args.businessId, owner: event.args.owner } };
+    }
+    if (event.args.businessId && event.args.reviewer) {
+      return { review: { businessId: event.args.businessId, reviewer: event.args.reviewer } };
+    }
+    return null;
+  },
+
+  registerBusiness: async () => {
+    throw new UnsupportedOperationError('Registering a business', 'v1');
+  },
+
+  addReview: async (businessId, { rating, comment, tags, imageHashes }) => {
+    if (imageHashes.length > 1) {
+      throw new UnsupportedOperationError('Multiple review images', 'v1');
+    }
+    return contract.addReview.populateTransaction(businessId, rating, comment, tags, imageHashes[0] || '');
+  },
+
+  updateReview: async () => {
+    throw new UnsupportedOperationError('Editing a review', 'v1');
+  },
+
+  addOwnerResponse: (businessId, reviewer, response) =>
+    contract.addOwnerResponse.populateTransaction(businessId, reviewer, response),
+
+  voteReview: async () => {
+    throw new UnsupportedOperationError('Voting on a review', 'v1');
+  },
+
+  clearVote: async () => {
+    throw new UnsupportedOperationError('Voting on a review', 'v1');
+  },
+
+  flagReview: (businessId, reviewer) => contract.flagReview.populateTransaction(businessId, reviewer),
+
+  archiveReview: (businessId, reviewer) => contract.archiveReview.populateTransaction(businessId, reviewer),
+
+  unflagReview: async () => {
+    throw new UnsupportedOperationError('Clearing a flag', 'v1');
+  },
+
+  setBusinessOwner: (businessId, owner) => contract.setBusinessOwner.populateTransaction(businessId, owner),
+
+  verifyBusiness: async () => {
+    throw new UnsupportedOperationError('Verifying a business', 'v1');
+  },
+
+  banUser: async () => {
+    throw new UnsupportedOperationError('Banning a user', 'v1');
+  },
+
+  unbanUser: async () => {
+    throw new UnsupportedOperationError('Unbanning a user', 'v1');
+  },
+
+  setModerator: (account, enabled) => contract.setModerator.populateTransaction(account, enabled),
+});
@@ -0,0 +1,325 @@
+import { ethers } from 'ethers';
+import { BanRecord, ModerationAction, ModeratorChange, RegisteredBusiness, Review, ReviewVersion, ReviewVote, UserRole } from '../types';
+import ReviewForwarderAbi from '../config/abis/ReviewForwarder.json';
+import { MethodOutput, YelpReviewV2Contract } from '../types/contracts';
+import { ReviewStructOutput } from '../types/contracts/YelpReviewV2';
+import { batchCall } from '../utils/multicall';
+import { ContractLimits, LIMIT_CONSTANTS } from '../utils/reviewSchema';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { queryLogsPaged } from '../utils/logPaging';
+import {
+  MAX_CONCURRENT_LOOKUPS, compareLogs, fetchBusinessReviews, fetchLogTimestamps, fetchReviewsByRef,
+} from './shared';
+import { CacheEvent, ReviewRepository, ReviewUpdate, UnsupportedOperationError } from './types';
+
+const MODERATOR_ROLE = ethers.id('MODERATOR_ROLE');
+const BUSINESS_OWNER_ROLE = ethers.id('BUSINESS_OWNER_ROLE');
+
+const forwarderInterface = new ethers.Interface(ReviewForwarderAbi);
+
+// Map the V2 getReview struct onto our Review shape
+const toReview = (review: ReviewStructOutput): Review => ({
+  reviewer: review.reviewer,
+  timestamp: Number(review.timestamp),
+  rating: Number(review.rating),
+  comment: review.comment,
+  tags: [...review.tags],
+  imageHash: review.imageHashes[0] || '',
+  imageHashes: [...review.imageHashes],
+  isFlagged: review.isFlagged,
+  isArchived: review.isArchived,
+  ownerResponse: review.ownerResponse,
+  hasOwnerResponse: review.ownerResponse.length > 0,
+  upvotes: Number(review.upvotes),
+  downvotes: Number(review.downvotes),
+  isVerified: review.isVerified,
+  version: Number(review.version),
+  lastEditTimestamp: Number(review.lastEditTimestamp),
+  ownerResponseTimestamp: Number(review.ownerResponseTimestamp),
+});
+
+// Recover what a review was written or edited to from the calldata of the transaction that did it
+const decodeReviewCall = (contract: YelpReviewV2Contract, tx: ethers.TransactionResponse | null): ReviewUpdate | null => {
+  if (!tx) return null;
+
+  // Gasless writes reach the contract through the forwarder's execute(request, signature)
+  const forwarded = forwarderInterface.parseTransaction({ data: tx.data });
+  const data = forwarded?.name === 'execute' ? forwarded.args[0].data : tx.data;
+
+  const call = contract.interface.parseTransaction({ data });
+  if (!call || (call.name !== 'addReview' && call.name !== 'updateReview')) return null;
+
+  // addReview and updateReview share their leading (businessId, rating, comment, tags) parameters
+  const [, rating, comment, tags] = call.args;
+  return { rating: Number(rating), comment, tags: [...tags] };
+};
+
+export const createV2Repository = (contract: YelpReviewV2Contract, deployBlock: number): ReviewRepository => ({
+  version: 'v2',
+  capabilities: {
+    multipleImages: true,
+    editing: true,
+    voting: true,
+    businessRegistry: true,
+    userBans: true,
+    ownerAssignment: false,
+    unflagging: true,
+    gasless: true,
+  },
+  contract,
+  deployBlock,
+
+  getReviewsByRef: refs => fetchReviewsByRef(contract, refs, toReview),
+
+  getReviews: businessIds => fetchBusinessReviews(contract, businessIds, toReview),
+
+  // V2 businesses are owned by whoever registered them
+  getBusinessOwners: async businessIds => {
+    const owners = new Map<string, string | null>();
+    const results = await batchCall<MethodOutput<YelpReviewV2Contract['businesses']>>(
+      businessIds.map(businessId => ({ contract, method: 'businesses', args: [businessId] }))
+    );
+    results.forEach((result, index) => {
+      if (!result.success) {
+        console.error(`Error fetching owner for ${businessIds[index]}:`, result.error);
+        return;
+      }
+      const owner = result.value!.owner;
+      owners.set(businessIds[index], owner === ethers.ZeroAddress ? null : owner);
+    });
+    return owners;
+  },
+
+  getBusinesses: async businessIds => {
+    const results = await batchCall<MethodOutput<YelpReviewV2Contract['businesses']>>(
+      businessIds.map(businessId => ({ contract, method: 'businesses', args: [businessId] }))
+    );
+    return results.map((result, index): RegisteredBusiness | null => {
+      if (!result.success) {
+        console.error(`Error fetching business ${businessIds[index]}:`, result.error);
+        return null;
+      }
+      const business = result.value!;
+      if (!business.exists) return null;
+      return {
+        id: business.id,
+        name: business.name,
+        category: business.category,
+        location: business.location,
+        description: business.description,
+        owner: business.owner,
+        isVerified: business.isVerified,
+        createdAt: Number(business.createdAt),
+      };
+    });
+  },
+
+  getUserRole: async (address: string): Promise<UserRole> => {
+    const [isAdmin, isModerator, isBusinessOwner] = await batchCall<MethodOutput<YelpReviewV2Contract['hasRole']>>([
+      { contract, method: 'hasRole', args: [ethers.ZeroHash, address] },
+      { contract, method: 'hasRole', args: [MODERATOR_ROLE, address] },
+      { contract, method: 'hasRole', args: [BUSINESS_OWNER_ROLE, address] },
+    ]);
+
+    if (isAdmin.value) return 'admin';
+    if (isModerator.value) return 'moderator';
+    if (isBusinessOwner.value) return 'business_owner';
+    return 'user';
+  },
+
+  getContractLimits: async () => {
+    const fields = Object.keys(LIMIT_CONSTANTS) as (keyof typeof LIMIT_CONSTANTS)[];
+    const results = await batchCall<bigint>(fields.map(field => ({ contract, method: LIMIT_CONSTANTS[field] })));
+    const limits: ContractLimits = {};
+    results.forEach((result, index) => {
+      if (result.success) limits[fields[index]] = Number(result.value);
+    });
+    return limits;
+  },
+
+  getReviewCooldownEnd: async (address: string) => {
+    const [lastReviewTime, cooldown] = await batchCall<bigint>([
+      { contract, method: 'lastReviewTime', args: [address] },
+      { contract, method: 'REVIEW_COOLDOWN' },
+    ]);
+    if (!lastReviewTime.success || !cooldown.success || lastReviewTime.value === BigInt(0)) return null;
+    return Number(lastReviewTime.value! + cooldown.value!);
+  },
+
+  // ReviewAdded and ReviewUpdated only carry the version, so each revision's text comes from its transaction
+  getReviewHistory: async ({ businessId, reviewer }) => {
+    const [added, updated] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.ReviewAdded(businessId, reviewer), deployBlock),
+      queryLogsPaged(contract, contract.filters.ReviewUpdated(businessId, reviewer), deployBlock),
+    ]);
+
+    const versions = await mapWithConcurrency([...added, ...updated], MAX_CONCURRENT_LOOKUPS, async (log): Promise<ReviewVersion | null> => {
+      const event = contract.interface.parseLog(log);
+      const content = decodeReviewCall(contract, await log.getTransaction());
+      if (!event || !content) return null;
+      return {
+        ...content,
+        version: event.name === 'ReviewUpdated' ? Number(event.args.newVersion) : 1,
+        timestamp: Number(event.args.timestamp),
+        txHash: log.transactionHash,
+      };
+    });
+
+    return versions
+      .filter((version): version is ReviewVersion => version !== null)
+      .sort((a, b) => a.version - b.version);
+  },
+
+  getVotes: async (refs, voter) => {
+    const results = await batchCall<MethodOutput<YelpReviewV2Contract['reviewVotes']>>(
+      refs.map(ref => ({ contract, method: 'reviewVotes', args: [ref.businessId, ref.reviewer, voter] }))
+    );
+    return results.map((result): ReviewVote | null => {
+      if (!result.success) {
+        console.error('Error fetching vote:', result.error);
+        return null;
+      }
+      if (!result.value!.hasVoted) return null;
+      return result.value!.isUpvote ? 'up' : 'down';
+    });
+  },
+
+  isBanned: address => contract.bannedUsers(address),
+
+  // The events carry no time or sender, so those come from each log's block and transaction
+  getBanHistory: async user => {
+    const [banned, unbanned] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.UserBanned(user), deployBlock),
+      queryLogsPaged(contract, contract.filters.UserUnbanned(user), deployBlock),
+    ]);
+
+    const logs = [...banned, ...unbanned].sort(compareLogs);
+    const timestamps = await fetchLogTimestamps(logs);
+    const records = await mapWithConcurrency(logs, MAX_CONCURRENT_LOOKUPS, async (log): Promise<BanRecord | null> => {
+      const event = contract.interface.parseLog(log);
+      const tx = await log.getTransaction();
+      if (!event) return null;
+      return {
+        user: event.args.user,
+        banned: event.name === 'UserBanned',
+        reason: event.name === 'UserBanned' ? event.args.reason : '',
+        moderator: tx.from,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        txHash: log.transactionHash,
+      };
+    });
+
+    return records.filter((record): record is BanRecord => record !== null);
+  },
+
+  getModerationLog: async () => {
+    const [flagged, unflagged, archived] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.ReviewFlagged(), deployBlock),
+      queryLogsPaged(contract, contract.filters.ReviewUnflagged(), deployBlock),
+      queryLogsPaged(contract, contract.filters.ReviewArchived(), deployBlock),
+    ]);
+
+    const logs = [...flagged, ...unflagged, ...archived].sort(compareLogs);
+    const timestamps = await fetchLogTimestamps(logs);
+    return logs.flatMap((log): ModerationAction[] => {
+      const event = contract.interface.parseLog(log);
+      if (!event) return [];
+      return [{
+        businessId: event.args.businessId,
+        reviewer: event.args.reviewer,
+        action: event.name === 'ReviewFlagged' ? 'flagged' : event.name === 'ReviewUnflagged' ? 'unflagged' : 'archived',
+        moderator: event.args.moderator,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        txHash: log.transactionHash,
+      }];
+    });
+  },
+
+  getOwnerResponseTimes: async businessId => {
+    const logs = await queryLogsPaged(contract, contract.filters.OwnerResponseAdded(businessId), deployBlock);
+    const times = new Map<string, number>();
+    logs.forEach(log => {
+      const event = contract.interface.parseLog(log);
+      if (event) times.set(event.args.reviewer.toLowerCase(), Number(event.args.timestamp));
+    });
+    return times;
+  },
+
+  getModeratorHistory: async () => {
+    const [granted, revoked] = await Promise.all([
+      queryLogsPaged(contract, contract.filters.RoleGranted(MODERATOR_ROLE), deployBlock),
+      queryLogsPaged(contract, contract.filters.RoleRevoked(MODERATOR_ROLE), deployBlock),
+    ]);
+
+    const logs = [...granted, ...revoked].sort(compareLogs);
+    const timestamps = await fetchLogTimestamps(logs);
+    return logs.flatMap((log): ModeratorChange[] => {
+      const event = contract.interface.parseLog(log);
+      if (!event) return [];
+      return [{
+        account: event.args.account,
+        granted: event.name === 'RoleGranted',
+        admin: event.args.sender,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+        txHash: log.transactionHash,
+      }];
+    });
+  },
+
+  parseEvent: (log): CacheEvent | null => {
+    const event = contract.interface.parseLog(log);
+    if (!event) return null;
+
+    if (event.name === 'BusinessRegistered') {
+      return {
+        businessOwner: { businessId: event.args.businessId, owner: event.args.owner },
+        business: event.args.businessId,
+      };
+    }
+    if (event.name === 'BusinessVerified') {
+      return { business: event.args.businessId };
+    }
+    if (event.args.businessId && event.args.reviewer) {
+      return { review: { businessId: event.args.businessId, reviewer: event.args.reviewer } };
+    }
+    return null;
+  },
+
+  registerBusiness: ({ name, category, location, description }) =>
+    contract.registerBusiness.populateTransaction(name, category, location, description),
+
+  addReview: (businessId, { rating, comment, tags, imageHashes }) =>
+    contract.addReview.populateTransaction(businessId, rating, comment, tags, imageHashes),
+
+  updateReview: (businessId, { rating, comment, tags }) =>
+    contract.updateReview.populateTransaction(businessId, rating, comment, tags),
+
+  addOwnerResponse: (businessId, reviewer, response) =>
+    contract.addOwnerResponse.populateTransaction(businessId, reviewer, response),
+
+  // Casting the opposite vote switches sides; clearVote takes the vote back
+  voteReview: (businessId, reviewer, vote) =>
+    contract.voteReview.populateTransaction(businessId, reviewer, vote === 'up'),
+
+  clearVote: (businessId, reviewer) => contract.clearVote.populateTransaction(businessId, reviewer),
+
+  flagReview: (businessId, reviewer) => contract.flagReview.populateTransaction(businessId, reviewer),
+
+  archiveReview: (businessId, reviewer) => contract.archiveReview.populateTransaction(businessId, reviewer),
+
+  unflagReview: (businessId, reviewer) => contract.unflagReview.populateTransaction(businessId, reviewer),
+
+  setBusinessOwner: async () => {
+    throw new UnsupportedOperationError('Assigning a business owner', 'v2');
+  },
+
+  verifyBusiness: businessId => contract.moderatorVerifyBusiness.populateTransaction(businessId),
+
+  banUser: (user, reason) => contract.banUser.populateTransaction(user, reason),
+
+  unbanUser: user => contract.unbanUser.populateTransaction(user),
+
+  setModerator: (account, enabled) => enabled
+    ? contract.grantRole.populateTransaction(MODERATOR_ROLE, account)
+    : contract.revokeRole.populateTransaction(MODERATOR_ROLE, account),
+});
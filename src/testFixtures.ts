@@ -0,0 +1,18 @@
+import { CachedReview } from './utils/reviewStore';
+
+// A plain cached review for tests; pass only the fields a test is about
+export const makeReview = (overrides: Partial<CachedReview> = {}): CachedReview => ({
+  businessId: '0xbusiness',
+  reviewer: '0xreviewer',
+  timestamp: 1000,
+  rating: 4,
+  comment: '',
+  tags: [],
+  imageHash: '',
+  imageHashes: [],
+  isFlagged: false,
+  isArchived: false,
+  ownerResponse: '',
+  hasOwnerResponse: false,
+  ...overrides,
+});
@@ -0,0 +1,36 @@
+// Generated by scripts/generate-bindings.js from src/config/abis/ReviewForwarder.json - do not edit by hand
+
+import { AddressLike, BaseContract, BigNumberish, BytesLike, Contract, ContractEvent, ContractRunner } from 'ethers';
+import abi from '../../config/abis/ReviewForwarder.json';
+import { TypedContractMethod, TypedListener } from './common';
+
+export interface ForwardRequestStruct {
+  from: AddressLike;
+  to: AddressLike;
+  value: BigNumberish;
+  gas: BigNumberish;
+  nonce: BigNumberish;
+  data: BytesLike;
+}
+
+export interface ReviewForwarderEvents {
+  EIP712DomainChanged: [];
+}
+
+export interface ReviewForwarderContract extends BaseContract {
+  eip712Domain: TypedContractMethod<[], [fields: string, name: string, version: string, chainId: bigint, verifyingContract: string, salt: string, extensions: bigint[]] & { fields: string; name: string; version: string; chainId: bigint; verifyingContract: string; salt: string; extensions: bigint[]; }, 'view'>;
+  execute: TypedContractMethod<[req: ForwardRequestStruct, signature: BytesLike], [arg0: boolean, arg1: string], 'payable'>;
+  getNonce: TypedContractMethod<[from: AddressLike], bigint, 'view'>;
+  verify: TypedContractMethod<[req: ForwardRequestStruct, signature: BytesLike], boolean, 'view'>;
+
+  readonly filters: {
+    EIP712DomainChanged: ContractEvent<[]>;
+  };
+
+  on<E extends keyof ReviewForwarderEvents>(event: E, listener: TypedListener<ReviewForwarderEvents[E]>): Promise<this>;
+  once<E extends keyof ReviewForwarderEvents>(event: E, listener: TypedListener<ReviewForwarderEvents[E]>): Promise<this>;
+  off<E extends keyof ReviewForwarderEvents>(event: E, listener?: TypedListener<ReviewForwarderEvents[E]>): Promise<this>;
+}
+
+export const connectReviewForwarder = (address: string, runner?: ContractRunner | null): ReviewForwarderContract =>
+  new Contract(address, abi, runner) as unknown as ReviewForwarderContract;
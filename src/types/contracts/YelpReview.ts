@@ -0,0 +1,49 @@
+// Generated by scripts/generate-bindings.js from src/config/abis/YelpReview.json - do not edit by hand
+
+import { AddressLike, BaseContract, BigNumberish, BytesLike, Contract, ContractEvent, ContractRunner } from 'ethers';
+import abi from '../../config/abis/YelpReview.json';
+import { TypedContractMethod, TypedListener } from './common';
+
+export type ReviewStructOutput = [reviewer: string, timestamp: bigint, rating: bigint, comment: string, tags: string[], imageHash: string, isFlagged: boolean, isArchived: boolean, ownerResponse: string, hasOwnerResponse: boolean] & { reviewer: string; timestamp: bigint; rating: bigint; comment: string; tags: string[]; imageHash: string; isFlagged: boolean; isArchived: boolean; ownerResponse: string; hasOwnerResponse: boolean; };
+
+export interface YelpReviewEvents {
+  BusinessOwnerSet: [businessId: string, owner: string];
+  ModeratorAdded: [moderator: string];
+  ModeratorRemoved: [moderator: string];
+  OwnerResponseAdded: [businessId: string, reviewer: string, response: string];
+  ReviewAdded: [businessId: string, reviewer: string, rating: bigint, comment: string];
+  ReviewArchived: [businessId: string, reviewer: string];
+  ReviewFlagged: [businessId: string, reviewer: string];
+}
+
+export interface YelpReviewContract extends BaseContract {
+  addReview: TypedContractMethod<[businessId: BytesLike, rating: BigNumberish, comment: string, tags: string[], imageHash: string], void, 'nonpayable'>;
+  addOwnerResponse: TypedContractMethod<[businessId: BytesLike, reviewer: AddressLike, response: string], void, 'nonpayable'>;
+  archiveReview: TypedContractMethod<[businessId: BytesLike, reviewer: AddressLike], void, 'nonpayable'>;
+  flagReview: TypedContractMethod<[businessId: BytesLike, reviewer: AddressLike], void, 'nonpayable'>;
+  getBusinessOwner: TypedContractMethod<[businessId: BytesLike], string, 'view'>;
+  getReview: TypedContractMethod<[businessId: BytesLike, reviewer: AddressLike], ReviewStructOutput, 'view'>;
+  getReviewers: TypedContractMethod<[businessId: BytesLike], string[], 'view'>;
+  getUserRole: TypedContractMethod<[account: AddressLike], string, 'view'>;
+  isModerator: TypedContractMethod<[account: AddressLike], boolean, 'view'>;
+  owner: TypedContractMethod<[], string, 'view'>;
+  setBusinessOwner: TypedContractMethod<[businessId: BytesLike, businessOwner: AddressLike], void, 'nonpayable'>;
+  setModerator: TypedContractMethod<[moderator: AddressLike, status: boolean], void, 'nonpayable'>;
+
+  readonly filters: {
+    BusinessOwnerSet: ContractEvent<[businessId: BytesLike, owner: AddressLike]>;
+    ModeratorAdded: ContractEvent<[moderator: AddressLike]>;
+    ModeratorRemoved: ContractEvent<[moderator: AddressLike]>;
+    OwnerResponseAdded: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, response: string]>;
+    ReviewAdded: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, rating: BigNumberish, comment: string]>;
+    ReviewArchived: ContractEvent<[businessId: BytesLike, reviewer: AddressLike]>;
+    ReviewFlagged: ContractEvent<[businessId: BytesLike, reviewer: AddressLike]>;
+  };
+
+  on<E extends keyof YelpReviewEvents>(event: E, listener: TypedListener<YelpReviewEvents[E]>): Promise<this>;
+  once<E extends keyof YelpReviewEvents>(event: E, listener: TypedListener<YelpReviewEvents[E]>): Promise<this>;
+  off<E extends keyof YelpReviewEvents>(event: E, listener?: TypedListener<YelpReviewEvents[E]>): Promise<this>;
+}
+
+export const connectYelpReview = (address: string, runner?: ContractRunner | null): YelpReviewContract =>
+  new Contract(address, abi, runner) as unknown as YelpReviewContract;
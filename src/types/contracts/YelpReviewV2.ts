@@ -0,0 +1,108 @@
+// Generated by scripts/generate-bindings.js from src/config/abis/YelpReviewV2.json - do not edit by hand
+
+import { AddressLike, BaseContract, BigNumberish, BytesLike, Contract, ContractEvent, ContractRunner } from 'ethers';
+import abi from '../../config/abis/YelpReviewV2.json';
+import { TypedContractMethod, TypedListener } from './common';
+
+export type ReviewStructOutput = [reviewer: string, timestamp: bigint, lastEditTimestamp: bigint, rating: bigint, comment: string, tags: string[], imageHashes: string[], upvotes: bigint, downvotes: bigint, isFlagged: boolean, isArchived: boolean, isVerified: boolean, version: bigint, ownerResponse: string, ownerResponseTimestamp: bigint] & { reviewer: string; timestamp: bigint; lastEditTimestamp: bigint; rating: bigint; comment: string; tags: string[]; imageHashes: string[]; upvotes: bigint; downvotes: bigint; isFlagged: boolean; isArchived: boolean; isVerified: boolean; version: bigint; ownerResponse: string; ownerResponseTimestamp: bigint; };
+
+export interface YelpReviewV2Events {
+  ReviewAdded: [businessId: string, reviewer: string, rating: bigint, timestamp: bigint];
+  ReviewUpdated: [businessId: string, reviewer: string, newVersion: bigint, timestamp: bigint];
+  ReviewVoted: [businessId: string, reviewer: string, voter: string, isUpvote: boolean];
+  ReviewVoteCleared: [businessId: string, reviewer: string, voter: string];
+  BusinessRegistered: [businessId: string, name: string, owner: string, timestamp: bigint];
+  BusinessVerified: [businessId: string, stakeAmount: bigint];
+  OwnerResponseAdded: [businessId: string, reviewer: string, timestamp: bigint];
+  ReviewFlagged: [businessId: string, reviewer: string, moderator: string];
+  ReviewUnflagged: [businessId: string, reviewer: string, moderator: string];
+  ReviewArchived: [businessId: string, reviewer: string, moderator: string];
+  UserBanned: [user: string, reason: string];
+  UserUnbanned: [user: string];
+  RoleGranted: [role: string, account: string, sender: string];
+  RoleRevoked: [role: string, account: string, sender: string];
+  Paused: [account: string];
+  Unpaused: [account: string];
+}
+
+export interface YelpReviewV2Contract extends BaseContract {
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], string, 'view'>;
+  MODERATOR_ROLE: TypedContractMethod<[], string, 'view'>;
+  BUSINESS_OWNER_ROLE: TypedContractMethod<[], string, 'view'>;
+  RELAYER_ROLE: TypedContractMethod<[], string, 'view'>;
+  UPGRADER_ROLE: TypedContractMethod<[], string, 'view'>;
+  MAX_RATING: TypedContractMethod<[], bigint, 'view'>;
+  MIN_RATING: TypedContractMethod<[], bigint, 'view'>;
+  MAX_COMMENT_LENGTH: TypedContractMethod<[], bigint, 'view'>;
+  MAX_TAGS: TypedContractMethod<[], bigint, 'view'>;
+  MAX_IMAGES: TypedContractMethod<[], bigint, 'view'>;
+  REVIEW_COOLDOWN: TypedContractMethod<[], bigint, 'view'>;
+  MIN_ACCOUNT_AGE: TypedContractMethod<[], bigint, 'view'>;
+  businesses: TypedContractMethod<[arg0: BytesLike], [id: string, name: string, category: string, location: string, description: string, owner: string, isVerified: boolean, totalReviews: bigint, totalRating: bigint, createdAt: bigint, exists: boolean] & { id: string; name: string; category: string; location: string; description: string; owner: string; isVerified: boolean; totalReviews: bigint; totalRating: bigint; createdAt: bigint; exists: boolean; }, 'view'>;
+  reviewers: TypedContractMethod<[arg0: BytesLike, arg1: BigNumberish], string, 'view'>;
+  reviewVotes: TypedContractMethod<[arg0: BytesLike, arg1: AddressLike, arg2: AddressLike], [hasVoted: boolean, isUpvote: boolean] & { hasVoted: boolean; isUpvote: boolean; }, 'view'>;
+  lastReviewTime: TypedContractMethod<[arg0: AddressLike], bigint, 'view'>;
+  userReviewCount: TypedContractMethod<[arg0: AddressLike], bigint, 'view'>;
+  bannedUsers: TypedContractMethod<[arg0: AddressLike], boolean, 'view'>;
+  businessIds: TypedContractMethod<[arg0: BigNumberish], string, 'view'>;
+  totalReviewsCount: TypedContractMethod<[], bigint, 'view'>;
+  minimumStakeAmount: TypedContractMethod<[], bigint, 'view'>;
+  userProfileContract: TypedContractMethod<[], string, 'view'>;
+  gameFiContract: TypedContractMethod<[], string, 'view'>;
+  reputationContract: TypedContractMethod<[], string, 'view'>;
+  paused: TypedContractMethod<[], boolean, 'view'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], boolean, 'view'>;
+  isTrustedForwarder: TypedContractMethod<[forwarder: AddressLike], boolean, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], string, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  registerBusiness: TypedContractMethod<[_name: string, _category: string, _location: string, _description: string], string, 'nonpayable'>;
+  addReview: TypedContractMethod<[_businessId: BytesLike, _rating: BigNumberish, _comment: string, _tags: string[], _imageHashes: string[]], void, 'nonpayable'>;
+  updateReview: TypedContractMethod<[_businessId: BytesLike, _rating: BigNumberish, _comment: string, _tags: string[]], void, 'nonpayable'>;
+  voteReview: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike, _isUpvote: boolean], void, 'nonpayable'>;
+  clearVote: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike], void, 'nonpayable'>;
+  addOwnerResponse: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike, _response: string], void, 'nonpayable'>;
+  flagReview: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike], void, 'nonpayable'>;
+  unflagReview: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike], void, 'nonpayable'>;
+  archiveReview: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike], void, 'nonpayable'>;
+  banUser: TypedContractMethod<[_user: AddressLike, _reason: string], void, 'nonpayable'>;
+  unbanUser: TypedContractMethod<[_user: AddressLike], void, 'nonpayable'>;
+  verifyBusiness: TypedContractMethod<[_businessId: BytesLike], void, 'payable'>;
+  moderatorVerifyBusiness: TypedContractMethod<[_businessId: BytesLike], void, 'nonpayable'>;
+  getReview: TypedContractMethod<[_businessId: BytesLike, _reviewer: AddressLike], ReviewStructOutput, 'view'>;
+  getReviewers: TypedContractMethod<[_businessId: BytesLike], string[], 'view'>;
+  getAverageRating: TypedContractMethod<[_businessId: BytesLike], bigint, 'view'>;
+  getAllBusinessIds: TypedContractMethod<[], string[], 'view'>;
+  updateContracts: TypedContractMethod<[_userProfile: AddressLike, _gameFi: AddressLike, _reputation: AddressLike], void, 'nonpayable'>;
+  updateMinimumStake: TypedContractMethod<[_amount: BigNumberish], void, 'nonpayable'>;
+  pause: TypedContractMethod<[], void, 'nonpayable'>;
+  unpause: TypedContractMethod<[], void, 'nonpayable'>;
+  emergencyWithdraw: TypedContractMethod<[], void, 'nonpayable'>;
+
+  readonly filters: {
+    ReviewAdded: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, rating: BigNumberish, timestamp: BigNumberish]>;
+    ReviewUpdated: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, newVersion: BigNumberish, timestamp: BigNumberish]>;
+    ReviewVoted: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, voter: AddressLike, isUpvote: boolean]>;
+    ReviewVoteCleared: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, voter: AddressLike]>;
+    BusinessRegistered: ContractEvent<[businessId: BytesLike, name: string, owner: AddressLike, timestamp: BigNumberish]>;
+    BusinessVerified: ContractEvent<[businessId: BytesLike, stakeAmount: BigNumberish]>;
+    OwnerResponseAdded: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, timestamp: BigNumberish]>;
+    ReviewFlagged: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, moderator: AddressLike]>;
+    ReviewUnflagged: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, moderator: AddressLike]>;
+    ReviewArchived: ContractEvent<[businessId: BytesLike, reviewer: AddressLike, moderator: AddressLike]>;
+    UserBanned: ContractEvent<[user: AddressLike, reason: string]>;
+    UserUnbanned: ContractEvent<[user: AddressLike]>;
+    RoleGranted: ContractEvent<[role: BytesLike, account: AddressLike, sender: AddressLike]>;
+    RoleRevoked: ContractEvent<[role: BytesLike, account: AddressLike, sender: AddressLike]>;
+    Paused: ContractEvent<[account: AddressLike]>;
+    Unpaused: ContractEvent<[account: AddressLike]>;
+  };
+
+  on<E extends keyof YelpReviewV2Events>(event: E, listener: TypedListener<YelpReviewV2Events[E]>): Promise<this>;
+  once<E extends keyof YelpReviewV2Events>(event: E, listener: TypedListener<YelpReviewV2Events[E]>): Promise<this>;
+  off<E extends keyof YelpReviewV2Events>(event: E, listener?: TypedListener<YelpReviewV2Events[E]>): Promise<this>;
+}
+
+export const connectYelpReviewV2 = (address: string, runner?: ContractRunner | null): YelpReviewV2Contract =>
+  new Contract(address, abi, runner) as unknown as YelpReviewV2Contract;
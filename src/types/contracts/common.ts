@@ -0,0 +1,32 @@
+// Generated by scripts/generate-bindings.js - do not edit by hand
+import {
+  ContractEventPayload,
+  ContractTransaction,
+  ContractTransactionResponse,
+  FunctionFragment,
+  Overrides,
+  Result,
+} from 'ethers';
+
+export type StateMutability = 'view' | 'nonpayable' | 'payable';
+
+// Every method accepts transaction overrides as an optional trailing argument
+export type MethodArgs<A extends any[]> = A | [...A, Overrides];
+
+export interface TypedContractMethod<A extends any[], R, S extends StateMutability> {
+  (...args: MethodArgs<A>): Promise<S extends 'view' ? R : ContractTransactionResponse>;
+  name: string;
+  fragment: FunctionFragment;
+  getFragment(...args: MethodArgs<A>): FunctionFragment;
+  populateTransaction(...args: MethodArgs<A>): Promise<ContractTransaction>;
+  staticCall(...args: MethodArgs<A>): Promise<R>;
+  staticCallResult(...args: MethodArgs<A>): Promise<Result>;
+  send(...args: MethodArgs<A>): Promise<ContractTransactionResponse>;
+  estimateGas(...args: MethodArgs<A>): Promise<bigint>;
+}
+
+// Decoded return type of a method, e.g. for batched reads that bypass the method itself
+export type MethodOutput<M> = M extends TypedContractMethod<any, infer R, any> ? R : never;
+
+// Listeners receive the decoded event arguments followed by the raw payload
+export type TypedListener<A extends any[]> = (...args: [...A, ContractEventPayload]) => void;
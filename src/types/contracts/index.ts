@@ -0,0 +1,9 @@
+// Generated by scripts/generate-bindings.js - do not edit by hand
+
+export * from './common';
+export type { ReviewForwarderContract, ReviewForwarderEvents } from './ReviewForwarder';
+export { connectReviewForwarder } from './ReviewForwarder';
+export type { YelpReviewContract, YelpReviewEvents } from './YelpReview';
+export { connectYelpReview } from './YelpReview';
+export type { YelpReviewV2Contract, YelpReviewV2Events } from './YelpReviewV2';
+export { connectYelpReviewV2 } from './YelpReviewV2';
@@ -5,10 +5,102 @@ export interface Review {
   comment: string;
   tags: string[];
   imageHash: string;
+  imageHashes: string[];
   isFlagged: boolean;
   isArchived: boolean;
   ownerResponse: string;
   hasOwnerResponse: boolean;
+  // Only tracked by the V2 contract
+  upvotes?: number;
+  downvotes?: number;
+  isVerified?: boolean;
+  version?: number;
+  lastEditTimestamp?: number;
+  ownerResponseTimestamp?: number;
+  // Set when the body lives in an off-chain review document, committed on-chain by its CID
+  documentCid?: string;
+  // False while the document couldn't be fetched or verified; the review then shows no text
+  documentLoaded?: boolean;
+  // Only review documents carry these
+  subRatings?: Record<string, number>;
+  language?: string;
+}
+
+// Parts of a review only an off-chain review document can hold
+export interface ReviewDetails {
+  subRatings?: Record<string, number>;
+  language?: string;
+}
+
+// A voter's verdict on someone else's review
+export type ReviewVote = 'up' | 'down';
+
+// One revision of a review, reconstructed from the transaction that wrote it
+export interface ReviewVersion {
+  version: number;
+  rating: number;
+  comment: string;
+  tags: string[];
+  timestamp: number;
+  txHash: string;
+}
+
+// A ban or unban, reconstructed from the contract's UserBanned and UserUnbanned events
+export interface BanRecord {
+  user: string;
+  banned: boolean;
+  // Only bans carry a reason
+  reason: string;
+  moderator: string;
+  timestamp: number;
+  txHash: string;
+}
+
+// A moderator decision on a review, reconstructed from the contract's moderation events
+export interface ModerationAction {
+  businessId: string;
+  reviewer: string;
+  action: 'flagged' | 'unflagged' | 'archived';
+  moderator: string;
+  timestamp: number;
+  txHash: string;
+}
+
+// A moderator role grant or revocation, reconstructed from the contract's role events
+export interface ModeratorChange {
+  account: string;
+  granted: boolean;
+  // The admin who signed the change
+  admin: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export type ClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ClaimContact {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+// A request to be recorded as a business's owner, kept off-chain until an admin decides it
+export interface OwnershipClaim {
+  id: string;
+  chainId: number;
+  businessId: string;
+  businessName: string;
+  claimant: string;
+  status: ClaimStatus;
+  submittedAt: number;
+  decidedAt?: number;
+  reason?: string;
+  // The setBusinessOwner transaction of an approved claim
+  txHash?: string;
+  // Only admins see the evidence and who decided
+  contact?: ClaimContact;
+  evidence?: string;
+  decidedBy?: string;
 }
 
 export interface Business {
@@ -17,10 +109,45 @@ export interface Business {
   owner?: string;
 }
 
+// A business as recorded by the V2 registry
+export interface RegisteredBusiness {
+  id: string;
+  name: string;
+  category: string;
+  location: string;
+  description: string;
+  owner: string;
+  isVerified: boolean;
+  createdAt: number;
+}
+
+export interface BusinessStats {
+  reviews: number;
+  rating: number;
+  // Average per rating dimension, from reviews stored as documents
+  subRatings: Record<string, number>;
+}
+
 export type UserRole = 'admin' | 'business_owner' | 'moderator' | 'user';
 
+export type TransactionStage =
+  | 'simulating'
+  | 'awaiting-signature'
+  | 'submitted'
+  | 'mined'
+  | 'confirmed'
+  | 'failed'
+  | 'cancelled';
+
 export interface TransactionStatus {
   type: 'pending' | 'success' | 'error';
+  stage: TransactionStage;
   message: string;
+  // What the user can do about a failure, when there is something
+  remedy?: string;
   txHash?: string;
+  // Estimated network fee in ETH, known once the transaction has been simulated
+  estimatedCost?: string;
+  // Submitted by the gasless relayer, which pays the fee and owns the nonce
+  relayed?: boolean;
 }
\ No newline at end of file
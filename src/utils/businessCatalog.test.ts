@@ -0,0 +1,103 @@
+import { BusinessDetails } from '../data/kenyanBusinesses';
+import { RegisteredBusiness } from '../types';
+import { findCatalogEntry, indexRegistry, mergeBusinessCatalog, normalizeBusinessName } from './businessCatalog';
+
+const seedBusiness = (name: string, city: string): BusinessDetails => ({
+  id: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  category: 'Restaurants',
+  location: 'CBD',
+  city,
+  description: 'Curated entry',
+});
+
+const registration = (overrides: Partial<RegisteredBusiness>): RegisteredBusiness => ({
+  id: '0x01',
+  name: 'Java House',
+  category: 'Cafes & Coffee',
+  location: 'Westlands, Nairobi',
+  description: '',
+  owner: '0xowner',
+  isVerified: false,
+  createdAt: 100,
+  ...overrides,
+});
+
+describe('normalizeBusinessName', () => {
+  it('ignores case and runs of whitespace', () => {
+    expect(normalizeBusinessName('  Java   House ')).toBe(normalizeBusinessName('java house'));
+  });
+});
+
+describe('indexRegistry', () => {
+  it('keeps the verified registration of a name and city, then the earliest', () => {
+    const early = registration({ id: '0x01', createdAt: 100 });
+    const verified = registration({ id: '0x02', createdAt: 200, isVerified: true });
+    const late = registration({ id: '0x03', createdAt: 300 });
+
+    expect(Array.from(indexRegistry([late, early]).values()).map(b => b.id)).toEqual(['0x01']);
+    expect(Array.from(indexRegistry([early, verified, late]).values()).map(b => b.id)).toEqual(['0x02']);
+  });
+
+  it('keeps same-name registrations in different cities apart', () => {
+    const nairobi = registration({ id: '0x01' });
+    const kisumu = registration({ id: '0x02', location: 'Milimani, Kisumu' });
+
+    expect(indexRegistry([nairobi, kisumu]).size).toBe(2);
+  });
+});
+
+describe('mergeBusinessCatalog', () => {
+  const seed = [seedBusiness('Java House', 'Nairobi')];
+
+  it('does not hand a curated business to an unverified registration of its name', () => {
+    const squatter = registration({ id: '0xbad', owner: '0xsquatter' });
+    const catalog = mergeBusinessCatalog(seed, [squatter]);
+
+    expect(catalog).toHaveLength(1);
+    expect(catalog[0].registryId).toBeUndefined();
+    expect(catalog[0].owner).toBeUndefined();
+  });
+
+  it('gives a curated business the ID, owner and badge of a verified registration', () => {
+    const squatter = registration({ id: '0xbad', owner: '0xsquatter', createdAt: 50 });
+    const owner = registration({ id: '0x02', owner: '0xowner', isVerified: true, createdAt: 200 });
+    const [business] = mergeBusinessCatalog(seed, [squatter, owner]);
+
+    expect(business).toMatchObject({ name: 'Java House', registryId: '0x02', owner: '0xowner', isVerified: true });
+  });
+
+  it('lists a same-name business in another city separately, under its city', () => {
+    const kisumu = registration({ id: '0x02', location: 'Milimani, Kisumu' });
+    const catalog = mergeBusinessCatalog(seed, [kisumu]);
+
+    expect(catalog.map(b => b.name)).toEqual(['Java House', 'Java House (Kisumu)']);
+    expect(catalog[1]).toMatchObject({ registryId: '0x02', location: 'Milimani', city: 'Kisumu' });
+  });
+
+  it('lets the verified registration keep the plain name when registrations collide', () => {
+    const first = registration({ id: '0x01', name: 'Mama Oliech', location: 'Hurlingham, Nairobi', createdAt: 100 });
+    const verified = registration({
+      id: '0x02', name: 'Mama Oliech', location: 'Nyali, Mombasa', createdAt: 200, isVerified: true,
+    });
+    const catalog = mergeBusinessCatalog([], [first, verified]);
+
+    // Listed in registration order, named by precedence
+    expect(catalog.map(b => [b.registryId, b.name])).toEqual([
+      ['0x01', 'Mama Oliech (Nairobi)'],
+      ['0x02', 'Mama Oliech'],
+    ]);
+  });
+});
+
+describe('findCatalogEntry', () => {
+  it('matches on name and city, including the city-qualified name', () => {
+    const catalog = mergeBusinessCatalog([seedBusiness('Java House', 'Nairobi')], [
+      registration({ id: '0x02', location: 'Milimani, Kisumu' }),
+    ]);
+
+    expect(findCatalogEntry(catalog, 'java house', 'nairobi')?.name).toBe('Java House');
+    expect(findCatalogEntry(catalog, 'Java House', 'Kisumu')?.registryId).toBe('0x02');
+    expect(findCatalogEntry(catalog, 'Java House', 'Nakuru')).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { BusinessDetails } from '../data/kenyanBusinesses';
+import { RegisteredBusiness } from '../types';
+
+// Businesses are looked up by name, so names that differ only in case or spacing are the same business
+export const normalizeBusinessName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Same-name businesses in different cities are different businesses
+export const getCatalogKey = (name: string, city: string) =>
+  `${normalizeBusinessName(name)}|${normalizeBusinessName(city)}`;
+
+// The registry stores a single location string; the form and seed script write it as "area, city"
+const splitLocation = (location: string) => {
+  const separator = location.lastIndexOf(',');
+  if (separator < 0) return { location, city: location };
+  return { location: location.slice(0, separator).trim(), city: location.slice(separator + 1).trim() };
+};
+
+// Verified registrations come first, then the earliest
+const byPrecedence = (a: RegisteredBusiness, b: RegisteredBusiness) =>
+  Number(b.isVerified) - Number(a.isVerified) || a.createdAt - b.createdAt;
+
+/**
+ * One registry entry per business name and city. Anyone can register any name, so when several
+ * entries share one the verified entry wins, then the earliest registration.
+ */
+export const indexRegistry = (registered: RegisteredBusiness[]): Map<string, RegisteredBusiness> => {
+  const byKey = new Map<string, RegisteredBusiness>();
+  [...registered].sort(byPrecedence).forEach(business => {
+    const key = getCatalogKey(business.name, splitLocation(business.location).city);
+    if (!byKey.has(key)) byKey.set(key, business);
+  });
+  return byKey;
+};
+
+const toBusinessDetails = (business: RegisteredBusiness): BusinessDetails => ({
+  id: business.id,
+  name: business.name,
+  category: business.category,
+  ...splitLocation(business.location),
+  description: business.description,
+  registryId: business.id,
+  owner: business.owner,
+  isVerified: business.isVerified,
+});
+
+/**
+ * The curated seed list plus every registered business it doesn't already cover. A seed entry only
+ * takes on a registration's ID, owner and badge once that registration is verified, so registering a
+ * curated business's name can't redirect its reviews; until then the registration stays out of the list.
+ * Businesses are addressed by name, so a registration sharing its name with an entry in another city
+ * is listed as "Name (City)".
+ */
+export const mergeBusinessCatalog = (
+  seed: BusinessDetails[],
+  registered: RegisteredBusiness[]
+): BusinessDetails[] => {
+  const registry = indexRegistry(registered);
+  const seedKeys = new Set(seed.map(business => getCatalogKey(business.name, business.city)));
+  const names = new Set(seed.map(business => normalizeBusinessName(business.name)));
+
+  const curated = seed.map(business => {
+    const entry = registry.get(getCatalogKey(business.name, business.city));
+    return entry?.isVerified
+      ? { ...business, registryId: entry.id, owner: entry.owner, isVerified: true }
+      : business;
+  });
+
+  // Named in order of precedence, so a verified or earlier registration keeps the plain name
+  const additions = Array.from(registry.entries())
+    .filter(([key]) => !seedKeys.has(key))
+    .map(([, business]) => business)
+    .sort(byPrecedence)
+    .map(business => {
+      const details = toBusinessDetails(business);
+      const name = names.has(normalizeBusinessName(details.name)) ? `${details.name} (${details.city})` : details.name;
+      names.add(normalizeBusinessName(name));
+      return { business, details: { ...details, name } };
+    })
+    .sort((a, b) => a.business.createdAt - b.business.createdAt)
+    .map(({ details }) => details);
+
+  return [...curated, ...additions];
+};
+
+// The catalog entry a registration of this name and city would duplicate, under either form of its name
+export const findCatalogEntry = (catalog: BusinessDetails[], name: string, city: string) => {
+  const names = [name, `${name.trim()} (${city.trim()})`].map(normalizeBusinessName);
+  return catalog.find(business =>
+    normalizeBusinessName(business.city) === normalizeBusinessName(city) &&
+    names.includes(normalizeBusinessName(business.name))
+  );
+};
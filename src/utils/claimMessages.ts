@@ -0,0 +1,44 @@
+// The messages signed for ownership claims, shared by the app and the claims service in the relayer.
+// This module has no imports so the relayer can compile it as is.
+
+export interface ClaimMessageFields {
+  chainId: number;
+  businessId: string;
+  businessName: string;
+  claimant: string;
+  contact: { name: string; email: string; phone: string };
+  evidence: string;
+  issuedAt: number;
+}
+
+export const claimMessage = (claim: ClaimMessageFields) => [
+  'DecentReview ownership claim',
+  `Business: ${claim.businessName}`,
+  `Business ID: ${claim.businessId}`,
+  `Chain: ${claim.chainId}`,
+  `Claimant: ${claim.claimant}`,
+  `Contact: ${claim.contact.name} <${claim.contact.email}>${claim.contact.phone ? ` ${claim.contact.phone}` : ''}`,
+  `Evidence: ${claim.evidence}`,
+  `Issued: ${new Date(claim.issuedAt).toISOString()}`,
+].join('\n');
+
+export const decisionMessage = (
+  id: string,
+  status: 'pending' | 'approved' | 'rejected',
+  reason: string,
+  txHash: string,
+  issuedAt: number
+) => [
+  'DecentReview claim decision',
+  `Claim: ${id}`,
+  `Decision: ${status}`,
+  `Reason: ${reason}`,
+  `Transaction: ${txHash}`,
+  `Issued: ${new Date(issuedAt).toISOString()}`,
+].join('\n');
+
+export const inboxMessage = (admin: string, issuedAt: number) => [
+  'DecentReview claims inbox',
+  `Admin: ${admin}`,
+  `Issued: ${new Date(issuedAt).toISOString()}`,
+].join('\n');
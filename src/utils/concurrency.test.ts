@@ -0,0 +1,31 @@
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order with no more than the limit in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it('rejects with the first failure', async () => {
+    await expect(mapWithConcurrency([1, 2, 3], 3, async item => {
+      if (item === 2) throw new Error('boom');
+      return item;
+    })).rejects.toThrow('boom');
+  });
+
+  it('resolves an empty list without calling back', async () => {
+    const fn = jest.fn();
+    await expect(mapWithConcurrency([], 4, fn)).resolves.toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
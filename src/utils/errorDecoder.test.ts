@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import { classifyContractError, decodeContractError } from './errorDecoder';
+import { RelayerError } from './metaTransactions';
+
+const revertData = (reason: string) =>
+  ethers.concat([ethers.id('Error(string)').slice(0, 10), ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+
+describe('classifyContractError', () => {
+  it('recognises wallet and network failures', () => {
+    expect(classifyContractError(ethers.makeError('user rejected action', 'ACTION_REJECTED'))).toEqual({ code: 'REJECTED' });
+    expect(classifyContractError(ethers.makeError('timeout', 'TIMEOUT'))).toEqual({ code: 'NETWORK' });
+  });
+
+  it('decodes revert strings nested anywhere in the error', () => {
+    const error = { message: 'execution reverted', error: { data: { data: revertData('Already reviewed') } } };
+    expect(classifyContractError(error)).toEqual({ code: 'ALREADY_REVIEWED', detail: 'Already reviewed' });
+  });
+
+  it('decodes custom errors by selector and panics by code', () => {
+    expect(classifyContractError({ data: ethers.id('ReviewArchived()').slice(0, 10) })).toEqual({
+      code: 'REVIEW_ARCHIVED',
+      detail: 'ReviewArchived()',
+    });
+
+    const panic = ethers.concat([ethers.id('Panic(uint256)').slice(0, 10), ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11])]);
+    expect(classifyContractError({ data: panic })).toEqual({ code: 'PANIC', detail: 'Panic(0x11)' });
+  });
+
+  it('matches AccessControl reverts by prefix', () => {
+    const reason = 'AccessControl: account 0xabc is missing role 0x123';
+    expect(classifyContractError({ reason })).toEqual({ code: 'MISSING_ROLE', detail: reason });
+  });
+
+  it('maps relayer refusals', () => {
+    expect(classifyContractError(new RelayerError('Daily relay quota used up', 'quota', 3600))).toEqual({
+      code: 'RELAYER_QUOTA',
+      detail: 'Daily relay quota used up',
+    });
+  });
+
+  it('reads the reason out of a wallet message as a last resort', () => {
+    const error = new Error("VM Exception: reverted with reason string 'Review not flagged'");
+    expect(classifyContractError(error)).toEqual({ code: 'REVIEW_NOT_FLAGGED', detail: 'Review not flagged' });
+  });
+});
+
+describe('decodeContractError', () => {
+  it('fills the remaining time into a timed remedy', () => {
+    const decoded = decodeContractError({ reason: 'Please wait before reviewing again' }, {
+      params: { secondsRemaining: 90 },
+      locale: 'en',
+    });
+    expect(decoded.code).toBe('REVIEW_COOLDOWN');
+    expect(decoded.remedy).toMatch(/^Your cooldown ends in 2 minutes/);
+  });
+
+  it('keeps the caller context and raw reason for unknown failures', () => {
+    expect(decodeContractError({ reason: 'Something odd' }, { fallback: 'Failed to add review', locale: 'en' }).message)
+      .toBe('Failed to add review: Something odd');
+  });
+
+  it('speaks Swahili when asked', () => {
+    expect(decodeContractError({ reason: 'Review not flagged' }, { locale: 'sw' }).message).toBe('Tathmini hii haijaripotiwa');
+  });
+});
@@ -0,0 +1,219 @@
+import { ethers } from 'ethers';
+import { ContractErrorCode, ERROR_MESSAGES, Locale, formatDuration, getLocale } from './errorMessages';
+import { RelayerError, RelayerErrorReason } from './metaTransactions';
+
+// require() messages from YelpReview and the V2 suite (YelpReviewV2, UserProfile,
+// ReputationEngine, GameFi, RewardToken), keyed by the exact revert string
+const REVERT_STRINGS: Record<string, ContractErrorCode> = {
+  'Invalid rating': 'INVALID_RATING',
+  'Comment too long': 'COMMENT_TOO_LONG',
+  'Response too long': 'RESPONSE_TOO_LONG',
+  'Too many tags': 'TOO_MANY_TAGS',
+  'Invalid tag': 'INVALID_TAG',
+  'Too many images': 'TOO_MANY_IMAGES',
+  'Already reviewed': 'ALREADY_REVIEWED',
+  'Please wait before reviewing again': 'REVIEW_COOLDOWN',
+  'Account too new': 'ACCOUNT_TOO_NEW',
+  'User is banned': 'USER_BANNED',
+  'User blacklisted': 'USER_BLACKLISTED',
+  'Blacklisted address': 'USER_BLACKLISTED',
+  'Review does not exist': 'REVIEW_NOT_FOUND',
+  'Review is archived': 'REVIEW_ARCHIVED',
+  'Review not flagged': 'REVIEW_NOT_FLAGGED',
+  'Cannot vote own review': 'CANNOT_VOTE_OWN_REVIEW',
+  'No vote to clear': 'NO_VOTE',
+  'Not business owner': 'NOT_BUSINESS_OWNER',
+  'Not owner': 'NOT_OWNER',
+  'Business already exists': 'BUSINESS_EXISTS',
+  'Business does not exist': 'BUSINESS_NOT_FOUND',
+  'Name required': 'NAME_REQUIRED',
+  'Category required': 'CATEGORY_REQUIRED',
+  'Already verified': 'ALREADY_VERIFIED',
+  'Insufficient fee': 'INSUFFICIENT_FEE',
+  'Profile already exists': 'PROFILE_EXISTS',
+  'Profile does not exist': 'PROFILE_NOT_FOUND',
+  'Bio too long': 'BIO_TOO_LONG',
+  'Username taken': 'USERNAME_TAKEN',
+  'Username reserved': 'USERNAME_RESERVED',
+  'Username too short': 'USERNAME_TOO_SHORT',
+  'Username too long': 'USERNAME_TOO_LONG',
+  'Username must be alphanumeric': 'USERNAME_INVALID',
+  'Username change on cooldown': 'USERNAME_COOLDOWN',
+  'Too many links': 'TOO_MANY_LINKS',
+  'Invalid link': 'INVALID_LINK',
+  'Invalid index': 'INVALID_INDEX',
+  'Only review contract': 'ONLY_REVIEW_CONTRACT',
+  'Cannot endorse yourself': 'CANNOT_ENDORSE_SELF',
+  'Insufficient reputation to endorse': 'INSUFFICIENT_REPUTATION',
+  'Already checked in today': 'ALREADY_CHECKED_IN',
+  'Already claimed today': 'ALREADY_CLAIMED',
+  'Already has badge': 'ALREADY_HAS_BADGE',
+  'Badge not active': 'BADGE_NOT_ACTIVE',
+  'No active season': 'NO_ACTIVE_SEASON',
+  'Season already active': 'SEASON_ALREADY_ACTIVE',
+  'Season not ended': 'SEASON_NOT_ENDED',
+  'Already staking': 'ALREADY_STAKING',
+  'Cannot stake 0': 'CANNOT_STAKE_ZERO',
+  'Insufficient stake': 'INSUFFICIENT_STAKE',
+  'No active stake': 'NO_ACTIVE_STAKE',
+  'Still locked': 'STILL_LOCKED',
+  'Minimum 30 days lock': 'LOCK_TOO_SHORT',
+  'Maximum 365 days lock': 'LOCK_TOO_LONG',
+  'No rewards to claim': 'NO_REWARDS',
+  'Insufficient pool balance': 'INSUFFICIENT_POOL_BALANCE',
+  'No tokens to release': 'NO_TOKENS_TO_RELEASE',
+  'Schedule revoked': 'SCHEDULE_REVOKED',
+  // OpenZeppelin 4.x guards used by the V2 suite
+  'Ownable: caller is not the owner': 'NOT_OWNER',
+  'Pausable: paused': 'PAUSED',
+  'ReentrancyGuard: reentrant call': 'REENTRANT',
+  'ERC20: transfer amount exceeds balance': 'INSUFFICIENT_BALANCE',
+  'ERC20: burn amount exceeds balance': 'INSUFFICIENT_BALANCE',
+  'ERC20: insufficient allowance': 'INSUFFICIENT_BALANCE',
+};
+
+// Revert strings that embed values, e.g. the account and role in AccessControl reverts
+const REVERT_PREFIXES: [string, ContractErrorCode][] = [
+  ['AccessControl: account ', 'MISSING_ROLE'],
+];
+
+// Custom errors, keyed by 4-byte selector so they decode without the declaring ABI
+const CUSTOM_ERRORS: Record<string, { name: string; code: ContractErrorCode }> = Object.fromEntries(
+  ([
+    ['ReviewArchived()', 'REVIEW_ARCHIVED'],
+    ['ReviewFlagged()', 'REVIEW_FLAGGED'],
+  ] as [string, ContractErrorCode][]).map(([signature, code]) => [
+    ethers.id(signature).slice(0, 10),
+    { name: signature, code },
+  ])
+);
+
+const RELAYER_ERRORS: Record<RelayerErrorReason, ContractErrorCode> = {
+  quota: 'RELAYER_QUOTA',
+  rejected: 'RELAYER_REJECTED',
+  unavailable: 'RELAYER_UNAVAILABLE',
+};
+
+const ERROR_STRING_SELECTOR = ethers.id('Error(string)').slice(0, 10);
+const PANIC_SELECTOR = ethers.id('Panic(uint256)').slice(0, 10);
+
+export interface ClassifiedError {
+  code: ContractErrorCode;
+  // Raw revert reason, error name or message, for logs
+  detail?: string;
+}
+
+export interface DecodedContractError extends ClassifiedError {
+  message: string;
+  remedy?: string;
+}
+
+export interface ErrorParams {
+  // Seconds until a cooldown or lock ends, when the caller could look it up
+  secondsRemaining?: number;
+}
+
+const isHexData = (value: unknown): value is string =>
+  typeof value === 'string' && /^0x[0-9a-fA-F]{8}/.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Wallets and RPC providers nest revert data at different depths
+const findRevertData = (error: unknown, depth = 0): string | null => {
+  if (!isRecord(error) || depth > 4) return null;
+  if (isHexData(error.data)) return error.data;
+  const info = isRecord(error.info) ? error.info : {};
+  for (const nested of [error.data, error.error, info.error, error.cause]) {
+    const data = findRevertData(nested, depth + 1);
+    if (data) return data;
+  }
+  return null;
+};
+
+const classifyRevertString = (reason: string): ContractErrorCode | null => {
+  if (REVERT_STRINGS[reason]) return REVERT_STRINGS[reason];
+  const prefix = REVERT_PREFIXES.find(([start]) => reason.startsWith(start));
+  return prefix ? prefix[1] : null;
+};
+
+const classifyRevertData = (data: string): ClassifiedError | null => {
+  const selector = data.slice(0, 10).toLowerCase();
+
+  if (CUSTOM_ERRORS[selector]) {
+    return { code: CUSTOM_ERRORS[selector].code, detail: CUSTOM_ERRORS[selector].name };
+  }
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4));
+      const code = classifyRevertString(reason);
+      return code ? { code, detail: reason } : { code: 'UNKNOWN', detail: reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [panicCode] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], ethers.dataSlice(data, 4));
+      return { code: 'PANIC', detail: `Panic(0x${panicCode.toString(16)})` };
+    }
+  } catch {
+    // Malformed revert data, fall back to the error message
+  }
+  return null;
+};
+
+// Work out which known failure an ethers, wallet or RPC error represents
+export const classifyContractError = (error: unknown): ClassifiedError => {
+  if (ethers.isError(error, 'ACTION_REJECTED')) return { code: 'REJECTED' };
+  if (ethers.isError(error, 'INSUFFICIENT_FUNDS')) return { code: 'INSUFFICIENT_FUNDS' };
+  if (ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'TIMEOUT')) return { code: 'NETWORK' };
+
+  const data = findRevertData(error);
+  if (data) {
+    const classified = classifyRevertData(data);
+    if (classified) return classified;
+  }
+
+  if (error instanceof RelayerError) {
+    return { code: RELAYER_ERRORS[error.reason], detail: error.message };
+  }
+
+  const { reason, shortMessage, message } = (error || {}) as { reason?: string; shortMessage?: string; message?: string };
+  if (reason) {
+    return { code: classifyRevertString(reason) || 'UNKNOWN', detail: reason };
+  }
+
+  // Some wallets only surface the reason inside the message text
+  const text = shortMessage || message || '';
+  const reverted = /reverted(?: with reason string)?:? ['"]?([^'"]+)['"]?/.exec(text);
+  if (reverted) {
+    const code = classifyRevertString(reverted[1].trim());
+    if (code) return { code, detail: reverted[1].trim() };
+  }
+
+  return { code: 'UNKNOWN', detail: text || undefined };
+};
+
+// Localized message and remedy for a classified error
+export const describeContractError = (
+  classified: ClassifiedError,
+  params: ErrorParams = {},
+  locale: Locale = getLocale(),
+  fallback?: string
+): DecodedContractError => {
+  const copy = ERROR_MESSAGES[locale][classified.code];
+  const remedy = copy.timedRemedy && params.secondsRemaining !== undefined && params.secondsRemaining > 0
+    ? copy.timedRemedy.replace('{time}', formatDuration(params.secondsRemaining, locale))
+    : copy.remedy;
+
+  // Unknown failures keep the caller's context ("Failed to add review") and the raw reason
+  if (classified.code === 'UNKNOWN') {
+    const message = fallback || copy.message;
+    return { ...classified, message: classified.detail ? `${message}: ${classified.detail}` : message };
+  }
+
+  return { ...classified, message: copy.message, remedy };
+};
+
+export const decodeContractError = (
+  error: unknown,
+  options: { params?: ErrorParams; locale?: Locale; fallback?: string } = {}
+): DecodedContractError =>
+  describeContractError(classifyContractError(error), options.params, options.locale, options.fallback);
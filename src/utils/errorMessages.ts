@@ -0,0 +1,221 @@
+export type Locale = 'en' | 'sw';
+
+export interface ErrorCopy {
+  message: string;
+  remedy?: string;
+  // Used instead of remedy when the remaining wait is known; {time} is replaced with it
+  timedRemedy?: string;
+}
+
+const en = {
+  // Wallet and network
+  REJECTED: { message: 'Transaction rejected in wallet', remedy: 'Approve the request in your wallet to continue.' },
+  INSUFFICIENT_FUNDS: { message: 'Not enough ETH to pay for gas', remedy: 'Top up your wallet and try again.' },
+  NETWORK: { message: 'Could not reach the network', remedy: 'Check your connection and try again.' },
+  UNKNOWN: { message: 'Transaction failed' },
+
+  // Gasless relayer
+  RELAYER_QUOTA: {
+    message: 'You have used all of your free transactions for today',
+    remedy: 'Add some ETH to your wallet to pay for gas yourself.',
+    timedRemedy: 'More free transactions in {time}, or add ETH to pay for gas yourself.',
+  },
+  RELAYER_REJECTED: { message: 'The relayer refused this request', remedy: 'Only reviews, votes and owner responses can be sent without gas.' },
+  RELAYER_UNAVAILABLE: { message: 'The gasless relayer is unavailable', remedy: 'Try again later, or add ETH to pay for gas yourself.' },
+
+  // OpenZeppelin guards
+  MISSING_ROLE: { message: 'Your account does not have permission for this action', remedy: 'Ask an admin to grant you the required role.' },
+  NOT_OWNER: { message: 'Only the contract owner can do this' },
+  PAUSED: { message: 'The contract is paused', remedy: 'Try again once moderators resume the platform.' },
+  REENTRANT: { message: 'Another call is still in progress', remedy: 'Wait for it to finish and try again.' },
+  PANIC: { message: 'The contract hit an internal error' },
+
+  // Reviews
+  INVALID_RATING: { message: 'Rating must be between 1 and 5 stars' },
+  COMMENT_TOO_LONG: { message: 'Your review is too long', remedy: 'Shorten it to 2000 characters or less.' },
+  RESPONSE_TOO_LONG: { message: 'Your response is too long', remedy: 'Shorten it to 2000 characters or less.' },
+  TOO_MANY_TAGS: { message: 'Too many tags', remedy: 'Remove some tags and try again.' },
+  INVALID_TAG: { message: 'One of the tags is empty or too long', remedy: 'Tags must be 1 to 50 characters.' },
+  TOO_MANY_IMAGES: { message: 'Too many images', remedy: 'Attach at most 5 images.' },
+  ALREADY_REVIEWED: { message: 'You have already reviewed this business', remedy: 'Edit your existing review instead.' },
+  REVIEW_COOLDOWN: {
+    message: 'You are posting reviews too quickly',
+    remedy: 'Reviews are limited to one per hour. Try again later.',
+    timedRemedy: 'Your cooldown ends in {time}.',
+  },
+  ACCOUNT_TOO_NEW: { message: 'This account is too new to post reviews', remedy: 'Fund the account with a little ETH first.' },
+  USER_BANNED: { message: 'This account has been banned from posting', remedy: 'Contact a moderator if you think this is a mistake.' },
+  USER_BLACKLISTED: { message: 'This address is blacklisted', remedy: 'Contact support if you think this is a mistake.' },
+  REVIEW_NOT_FOUND: { message: 'This review no longer exists', remedy: 'Refresh the page to load the latest reviews.' },
+  REVIEW_ARCHIVED: { message: 'This review has been archived' },
+  REVIEW_FLAGGED: { message: 'This review has already been flagged' },
+  REVIEW_NOT_FLAGGED: { message: 'This review is not flagged', remedy: 'Someone may have already cleared the flag. Refresh the moderation queue.' },
+  CANNOT_VOTE_OWN_REVIEW: { message: 'You cannot vote on your own review' },
+  NO_VOTE: { message: 'You have not voted on this review', remedy: 'Refresh the page to load your latest votes.' },
+
+  // Businesses
+  NOT_BUSINESS_OWNER: { message: 'Only the business owner can do this', remedy: 'Claim the business before responding to reviews.' },
+  BUSINESS_EXISTS: { message: 'This business is already registered' },
+  BUSINESS_NOT_FOUND: { message: 'This business is not registered', remedy: 'Register the business first.' },
+  NAME_REQUIRED: { message: 'Business name is required' },
+  CATEGORY_REQUIRED: { message: 'Business category is required' },
+  ALREADY_VERIFIED: { message: 'This business is already verified' },
+  INSUFFICIENT_FEE: { message: 'The fee sent is too low', remedy: 'Send the full fee with the transaction.' },
+
+  // Profiles
+  PROFILE_EXISTS: { message: 'You already have a profile' },
+  PROFILE_NOT_FOUND: { message: 'Profile not found', remedy: 'Create a profile first.' },
+  BIO_TOO_LONG: { message: 'Your bio is too long', remedy: 'Shorten it to 500 characters or less.' },
+  USERNAME_TAKEN: { message: 'That username is taken', remedy: 'Pick a different username.' },
+  USERNAME_RESERVED: { message: 'That username is reserved', remedy: 'Pick a different username.' },
+  USERNAME_TOO_SHORT: { message: 'Username is too short' },
+  USERNAME_TOO_LONG: { message: 'Username is too long', remedy: 'Use 20 characters or less.' },
+  USERNAME_INVALID: { message: 'Usernames may only contain letters and numbers' },
+  USERNAME_COOLDOWN: { message: 'You changed your username recently', remedy: 'Usernames can be changed once every 30 days.' },
+  TOO_MANY_LINKS: { message: 'Too many social links', remedy: 'Remove a link before adding another.' },
+  INVALID_LINK: { message: 'That link is not valid' },
+  INVALID_INDEX: { message: 'That item no longer exists', remedy: 'Refresh and try again.' },
+  ONLY_REVIEW_CONTRACT: { message: 'This action can only be triggered by posting a review' },
+
+  // Reputation
+  CANNOT_ENDORSE_SELF: { message: 'You cannot endorse yourself' },
+  INSUFFICIENT_REPUTATION: { message: 'Your reputation is too low to endorse others', remedy: 'Reach a reputation score of 500 first.' },
+
+  // Gamification
+  ALREADY_CHECKED_IN: { message: 'You have already checked in today', remedy: 'Come back tomorrow.' },
+  ALREADY_CLAIMED: { message: 'You have already claimed today\'s reward', remedy: 'Come back tomorrow.' },
+  ALREADY_HAS_BADGE: { message: 'You already have this badge' },
+  BADGE_NOT_ACTIVE: { message: 'This badge is no longer available' },
+  NO_ACTIVE_SEASON: { message: 'There is no active season' },
+  SEASON_ALREADY_ACTIVE: { message: 'A season is already running' },
+  SEASON_NOT_ENDED: { message: 'The current season has not ended yet' },
+
+  // Tokens and staking
+  ALREADY_STAKING: { message: 'You already have an active stake', remedy: 'Unstake before starting a new stake.' },
+  CANNOT_STAKE_ZERO: { message: 'Stake amount must be greater than zero' },
+  INSUFFICIENT_STAKE: { message: 'Your stake is too small for this action' },
+  NO_ACTIVE_STAKE: { message: 'You have no active stake' },
+  STILL_LOCKED: { message: 'Your stake is still locked', remedy: 'Wait until the lock period ends.' },
+  LOCK_TOO_SHORT: { message: 'Lock period is too short', remedy: 'Lock for at least 30 days.' },
+  LOCK_TOO_LONG: { message: 'Lock period is too long', remedy: 'Lock for at most 365 days.' },
+  NO_REWARDS: { message: 'You have no rewards to claim' },
+  INSUFFICIENT_POOL_BALANCE: { message: 'The reward pool is empty', remedy: 'Try again after the pool is refilled.' },
+  INSUFFICIENT_BALANCE: { message: 'Insufficient token balance' },
+  NO_TOKENS_TO_RELEASE: { message: 'No vested tokens to release yet' },
+  SCHEDULE_REVOKED: { message: 'This vesting schedule was revoked' },
+};
+
+export type ContractErrorCode = keyof typeof en;
+
+const sw: Record<ContractErrorCode, ErrorCopy> = {
+  REJECTED: { message: 'Muamala umekataliwa kwenye pochi', remedy: 'Idhinisha ombi kwenye pochi yako ili kuendelea.' },
+  INSUFFICIENT_FUNDS: { message: 'Huna ETH ya kutosha kulipia gesi', remedy: 'Ongeza salio kwenye pochi yako kisha ujaribu tena.' },
+  NETWORK: { message: 'Imeshindwa kufikia mtandao', remedy: 'Angalia muunganisho wako kisha ujaribu tena.' },
+  UNKNOWN: { message: 'Muamala umeshindwa' },
+
+  RELAYER_QUOTA: {
+    message: 'Umetumia miamala yako yote ya bure ya leo',
+    remedy: 'Ongeza ETH kwenye pochi yako ili ulipie gesi mwenyewe.',
+    timedRemedy: 'Miamala mingine ya bure baada ya {time}, au ongeza ETH ili ulipie gesi mwenyewe.',
+  },
+  RELAYER_REJECTED: { message: 'Huduma ya kutuma bila gesi imekataa ombi hili', remedy: 'Maoni, kura na majibu ya wamiliki pekee ndiyo yanaweza kutumwa bila gesi.' },
+  RELAYER_UNAVAILABLE: { message: 'Huduma ya kutuma bila gesi haipatikani', remedy: 'Jaribu tena baadaye, au ongeza ETH ili ulipie gesi mwenyewe.' },
+
+  MISSING_ROLE: { message: 'Akaunti yako haina ruhusa ya kitendo hiki', remedy: 'Mwombe msimamizi akupe jukumu linalohitajika.' },
+  NOT_OWNER: { message: 'Ni mmiliki wa mkataba pekee anayeweza kufanya hivi' },
+  PAUSED: { message: 'Mkataba umesitishwa kwa muda', remedy: 'Jaribu tena wasimamizi watakapoufungua.' },
+  REENTRANT: { message: 'Ombi lingine bado linaendelea', remedy: 'Subiri likamilike kisha ujaribu tena.' },
+  PANIC: { message: 'Mkataba umepata hitilafu ya ndani' },
+
+  INVALID_RATING: { message: 'Ukadiriaji lazima uwe kati ya nyota 1 na 5' },
+  COMMENT_TOO_LONG: { message: 'Maoni yako ni marefu mno', remedy: 'Yafupishe yasizidi herufi 2000.' },
+  RESPONSE_TOO_LONG: { message: 'Jibu lako ni refu mno', remedy: 'Lifupishe lisizidi herufi 2000.' },
+  TOO_MANY_TAGS: { message: 'Lebo ni nyingi mno', remedy: 'Ondoa baadhi ya lebo kisha ujaribu tena.' },
+  INVALID_TAG: { message: 'Mojawapo ya lebo ni tupu au ndefu mno', remedy: 'Lebo ziwe na herufi 1 hadi 50.' },
+  TOO_MANY_IMAGES: { message: 'Picha ni nyingi mno', remedy: 'Ambatisha picha zisizozidi 5.' },
+  ALREADY_REVIEWED: { message: 'Tayari umeitathmini biashara hii', remedy: 'Hariri tathmini yako iliyopo badala yake.' },
+  REVIEW_COOLDOWN: {
+    message: 'Unatuma tathmini kwa haraka mno',
+    remedy: 'Unaruhusiwa tathmini moja kwa saa. Jaribu tena baadaye.',
+    timedRemedy: 'Muda wako wa kusubiri utaisha baada ya {time}.',
+  },
+  ACCOUNT_TOO_NEW: { message: 'Akaunti hii ni mpya mno kutuma tathmini', remedy: 'Weka ETH kidogo kwenye akaunti kwanza.' },
+  USER_BANNED: { message: 'Akaunti hii imepigwa marufuku kutuma', remedy: 'Wasiliana na msimamizi ikiwa unadhani ni kosa.' },
+  USER_BLACKLISTED: { message: 'Anwani hii imeorodheshwa kuzuiwa', remedy: 'Wasiliana na huduma kwa wateja ikiwa unadhani ni kosa.' },
+  REVIEW_NOT_FOUND: { message: 'Tathmini hii haipo tena', remedy: 'Onyesha upya ukurasa ili kupata tathmini za karibuni.' },
+  REVIEW_ARCHIVED: { message: 'Tathmini hii imehifadhiwa kwenye kumbukumbu' },
+  REVIEW_FLAGGED: { message: 'Tathmini hii tayari imeripotiwa' },
+  REVIEW_NOT_FLAGGED: { message: 'Tathmini hii haijaripotiwa', remedy: 'Huenda mtu mwingine ameshaondoa ripoti. Onyesha upya foleni ya udhibiti.' },
+  CANNOT_VOTE_OWN_REVIEW: { message: 'Huwezi kupigia kura tathmini yako mwenyewe' },
+  NO_VOTE: { message: 'Hujapiga kura kwenye tathmini hii', remedy: 'Onyesha upya ukurasa ili kupata kura zako za karibuni.' },
+
+  NOT_BUSINESS_OWNER: { message: 'Ni mmiliki wa biashara pekee anayeweza kufanya hivi', remedy: 'Dai umiliki wa biashara kabla ya kujibu tathmini.' },
+  BUSINESS_EXISTS: { message: 'Biashara hii tayari imesajiliwa' },
+  BUSINESS_NOT_FOUND: { message: 'Biashara hii haijasajiliwa', remedy: 'Sajili biashara kwanza.' },
+  NAME_REQUIRED: { message: 'Jina la biashara linahitajika' },
+  CATEGORY_REQUIRED: { message: 'Aina ya biashara inahitajika' },
+  ALREADY_VERIFIED: { message: 'Biashara hii tayari imethibitishwa' },
+  INSUFFICIENT_FEE: { message: 'Ada iliyotumwa ni ndogo mno', remedy: 'Tuma ada kamili pamoja na muamala.' },
+
+  PROFILE_EXISTS: { message: 'Tayari una wasifu' },
+  PROFILE_NOT_FOUND: { message: 'Wasifu haujapatikana', remedy: 'Unda wasifu kwanza.' },
+  BIO_TOO_LONG: { message: 'Maelezo yako binafsi ni marefu mno', remedy: 'Yafupishe yasizidi herufi 500.' },
+  USERNAME_TAKEN: { message: 'Jina hilo la mtumiaji limechukuliwa', remedy: 'Chagua jina lingine.' },
+  USERNAME_RESERVED: { message: 'Jina hilo la mtumiaji limehifadhiwa', remedy: 'Chagua jina lingine.' },
+  USERNAME_TOO_SHORT: { message: 'Jina la mtumiaji ni fupi mno' },
+  USERNAME_TOO_LONG: { message: 'Jina la mtumiaji ni refu mno', remedy: 'Tumia herufi zisizozidi 20.' },
+  USERNAME_INVALID: { message: 'Jina la mtumiaji liwe na herufi na namba pekee' },
+  USERNAME_COOLDOWN: { message: 'Ulibadilisha jina lako la mtumiaji hivi karibuni', remedy: 'Jina linaweza kubadilishwa mara moja kila siku 30.' },
+  TOO_MANY_LINKS: { message: 'Viungo vya mitandao ya kijamii ni vingi mno', remedy: 'Ondoa kiungo kimoja kabla ya kuongeza kingine.' },
+  INVALID_LINK: { message: 'Kiungo hicho si sahihi' },
+  INVALID_INDEX: { message: 'Kipengele hicho hakipo tena', remedy: 'Onyesha upya kisha ujaribu tena.' },
+  ONLY_REVIEW_CONTRACT: { message: 'Kitendo hiki hutokea tu unapotuma tathmini' },
+
+  CANNOT_ENDORSE_SELF: { message: 'Huwezi kujipendekeza mwenyewe' },
+  INSUFFICIENT_REPUTATION: { message: 'Sifa yako ni ndogo mno kuwapendekeza wengine', remedy: 'Fikia alama 500 za sifa kwanza.' },
+
+  ALREADY_CHECKED_IN: { message: 'Tayari umeingia leo', remedy: 'Rudi kesho.' },
+  ALREADY_CLAIMED: { message: 'Tayari umechukua zawadi ya leo', remedy: 'Rudi kesho.' },
+  ALREADY_HAS_BADGE: { message: 'Tayari una beji hii' },
+  BADGE_NOT_ACTIVE: { message: 'Beji hii haipatikani tena' },
+  NO_ACTIVE_SEASON: { message: 'Hakuna msimu unaoendelea' },
+  SEASON_ALREADY_ACTIVE: { message: 'Tayari kuna msimu unaoendelea' },
+  SEASON_NOT_ENDED: { message: 'Msimu wa sasa bado haujaisha' },
+
+  ALREADY_STAKING: { message: 'Tayari una hisa inayoendelea', remedy: 'Toa hisa yako kabla ya kuweka nyingine.' },
+  CANNOT_STAKE_ZERO: { message: 'Kiasi cha hisa lazima kiwe zaidi ya sifuri' },
+  INSUFFICIENT_STAKE: { message: 'Hisa yako ni ndogo mno kwa kitendo hiki' },
+  NO_ACTIVE_STAKE: { message: 'Huna hisa inayoendelea' },
+  STILL_LOCKED: { message: 'Hisa yako bado imefungwa', remedy: 'Subiri hadi muda wa kufungwa uishe.' },
+  LOCK_TOO_SHORT: { message: 'Muda wa kufunga ni mfupi mno', remedy: 'Funga kwa angalau siku 30.' },
+  LOCK_TOO_LONG: { message: 'Muda wa kufunga ni mrefu mno', remedy: 'Funga kwa siku zisizozidi 365.' },
+  NO_REWARDS: { message: 'Huna zawadi za kuchukua' },
+  INSUFFICIENT_POOL_BALANCE: { message: 'Hazina ya zawadi imeisha', remedy: 'Jaribu tena hazina itakapojazwa.' },
+  INSUFFICIENT_BALANCE: { message: 'Salio la tokeni halitoshi' },
+  NO_TOKENS_TO_RELEASE: { message: 'Bado hakuna tokeni za kutolewa' },
+  SCHEDULE_REVOKED: { message: 'Ratiba hii ya utoaji imefutwa' },
+};
+
+export const ERROR_MESSAGES: Record<Locale, Record<ContractErrorCode, ErrorCopy>> = { en, sw };
+
+const DURATION_UNITS: Record<Locale, { minute: [string, string]; hour: [string, string]; day: [string, string] }> = {
+  en: { minute: ['{n} minute', '{n} minutes'], hour: ['{n} hour', '{n} hours'], day: ['{n} day', '{n} days'] },
+  sw: { minute: ['dakika {n}', 'dakika {n}'], hour: ['saa {n}', 'saa {n}'], day: ['siku {n}', 'siku {n}'] },
+};
+
+// "42 minutes", "saa 2"; rounded up so a short wait never reads as zero
+export const formatDuration = (seconds: number, locale: Locale): string => {
+  const minutes = Math.max(1, Math.ceil(seconds / 60));
+  const [unit, value] = minutes < 60
+    ? ['minute', minutes] as const
+    : minutes < 60 * 24
+      ? ['hour', Math.ceil(minutes / 60)] as const
+      : ['day', Math.ceil(minutes / (60 * 24))] as const;
+  const [singular, plural] = DURATION_UNITS[locale][unit];
+  return (value === 1 ? singular : plural).replace('{n}', String(value));
+};
+
+export const getLocale = (): Locale => {
+  const language = typeof navigator !== 'undefined' ? navigator.language : 'en';
+  return language.toLowerCase().startsWith('sw') ? 'sw' : 'en';
+};
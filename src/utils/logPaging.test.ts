@@ -0,0 +1,41 @@
+import { pageLogs } from './logPaging';
+
+describe('pageLogs', () => {
+  it('walks the block range in order, one page per range', async () => {
+    const ranges: [number, number][] = [];
+    const pages: number[][] = [];
+    await pageLogs(0, 25000, async (from, to) => {
+      ranges.push([from, to]);
+      return [from];
+    }, logs => {
+      pages.push(logs);
+    });
+
+    expect(ranges).toEqual([[0, 9999], [10000, 19999], [20000, 25000]]);
+    expect(pages).toEqual([[0], [10000], [20000]]);
+  });
+
+  it('halves the range when the RPC rejects one', async () => {
+    const ranges: [number, number][] = [];
+    await pageLogs(0, 4999, async (from, to) => {
+      if (to - from + 1 > 2500) throw new Error('block range too large');
+      ranges.push([from, to]);
+      return [];
+    }, () => undefined);
+
+    expect(ranges).toEqual([[0, 2499], [2500, 4999]]);
+  });
+
+  it('gives up once the smallest range is rejected', async () => {
+    const getLogs = jest.fn().mockRejectedValue(new Error('rate limited'));
+    await expect(pageLogs(0, 100000, getLogs, () => undefined)).rejects.toThrow('rate limited');
+    // 10000, 5000, 2500, 1250, 625 and 500 blocks
+    expect(getLogs).toHaveBeenCalledTimes(6);
+  });
+
+  it('fetches nothing when the range is empty', async () => {
+    const getLogs = jest.fn();
+    await pageLogs(10, 9, getLogs, () => undefined);
+    expect(getLogs).not.toHaveBeenCalled();
+  });
+});
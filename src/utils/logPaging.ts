@@ -0,0 +1,52 @@
+import { ethers } from 'ethers';
+
+const MAX_LOG_RANGE = 10000;
+const MIN_LOG_RANGE = 500;
+
+/**
+ * Fetch logs from fromBlock to toBlock one block range at a time, handing each range to onRange in order.
+ * Most RPC providers cap the range or result size of eth_getLogs, so a rejected range is halved and retried.
+ */
+export const pageLogs = async <T>(
+  fromBlock: number,
+  toBlock: number,
+  getLogs: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  onRange: (logs: T[], toBlock: number) => Promise<void> | void
+): Promise<void> => {
+  let range = MAX_LOG_RANGE;
+
+  while (fromBlock <= toBlock) {
+    const rangeEnd = Math.min(fromBlock + range - 1, toBlock);
+
+    let logs: T[];
+    try {
+      logs = await getLogs(fromBlock, rangeEnd);
+    } catch (error) {
+      if (range > MIN_LOG_RANGE) {
+        range = Math.max(MIN_LOG_RANGE, Math.floor(range / 2));
+        continue;
+      }
+      throw error;
+    }
+
+    await onRange(logs, rangeEnd);
+    fromBlock = rangeEnd + 1;
+  }
+};
+
+// Every log of an event from fromBlock up to the chain head, fetched in ranges the RPC accepts
+export const queryLogsPaged = async (
+  contract: ethers.BaseContract,
+  event: ethers.ContractEventName,
+  fromBlock: number
+): Promise<Array<ethers.EventLog | ethers.Log>> => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error('The contract has no provider to read logs from');
+
+  const latestBlock = await provider.getBlockNumber();
+  const logs: Array<ethers.EventLog | ethers.Log> = [];
+  await pageLogs(fromBlock, latestBlock, (from, to) => contract.queryFilter(event, from, to), range => {
+    logs.push(...range);
+  });
+  return logs;
+};
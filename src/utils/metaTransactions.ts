@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import { ReviewForwarderContract } from '../types/contracts';
+
+// EIP-712 types of OpenZeppelin's MinimalForwarder, which ReviewForwarder extends
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+// Headroom over the estimate; the forwarder reverts if it can't pass on the requested gas
+const FORWARDED_GAS_BUFFER_PERCENT = 20;
+
+// Numbers are decimal strings so the request survives JSON on its way to the relayer
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  data: string;
+}
+
+export interface SignedForwardRequest {
+  request: ForwardRequest;
+  signature: string;
+}
+
+export type RelayerErrorReason = 'quota' | 'rejected' | 'unavailable';
+
+export class RelayerError extends Error {
+  constructor(
+    message: string,
+    readonly reason: RelayerErrorReason,
+    // Seconds until the quota frees up again
+    readonly retryAfter?: number,
+    // Revert data when the relayer's simulation of the call failed
+    readonly data?: string
+  ) {
+    super(message);
+    this.name = 'RelayerError';
+  }
+}
+
+// The call exactly as the forwarder makes it: EIP-2771 appends the signer's address to the calldata
+const asForwardedCall = (forwarder: string, from: string, request: ethers.ContractTransaction): ethers.TransactionRequest => ({
+  to: request.to,
+  from: forwarder,
+  data: ethers.concat([request.data, from]),
+});
+
+// Whether the signer lacks the ETH to pay for the call itself
+export const cannotAffordGas = async (signer: ethers.Signer, request: ethers.ContractTransaction): Promise<boolean> => {
+  const provider = signer.provider;
+  if (!provider) throw new Error('Signer is not connected to a provider');
+
+  const from = await signer.getAddress();
+  const balance = await provider.getBalance(from);
+  if (balance === BigInt(0)) return true;
+
+  const [gasLimit, feeData] = await Promise.all([signer.estimateGas(request), provider.getFeeData()]);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  return balance < gasLimit * gasPrice;
+};
+
+// Simulate the relayed call and work out how much gas the forwarder should pass on
+export const estimateForwardedGas = async (
+  provider: ethers.Provider,
+  forwarder: ReviewForwarderContract,
+  from: string,
+  request: ethers.ContractTransaction
+): Promise<bigint> => {
+  const call = asForwardedCall(await forwarder.getAddress(), from, request);
+  await provider.call(call);
+  const gas = await provider.estimateGas(call);
+  return gas * BigInt(100 + FORWARDED_GAS_BUFFER_PERCENT) / BigInt(100);
+};
+
+// Sign the call as EIP-712 typed data against the forwarder's own domain
+export const signForwardRequest = async (
+  signer: ethers.Signer,
+  forwarder: ReviewForwarderContract,
+  request: ethers.ContractTransaction,
+  gas: bigint
+): Promise<SignedForwardRequest> => {
+  const from = await signer.getAddress();
+  const [nonce, domain] = await Promise.all([forwarder.getNonce(from), forwarder.eip712Domain()]);
+
+  const forwardRequest: ForwardRequest = {
+    from,
+    to: request.to,
+    value: '0',
+    gas: gas.toString(),
+    nonce: nonce.toString(),
+    data: request.data,
+  };
+
+  const signature = await signer.signTypedData(
+    { name: domain.name, version: domain.version, chainId: domain.chainId, verifyingContract: domain.verifyingContract },
+    FORWARD_REQUEST_TYPES,
+    forwardRequest
+  );
+  return { request: forwardRequest, signature };
+};
+
+/**
+ * Whether a relayed call took effect. MinimalForwarder.execute doesn't revert when the call it forwards does,
+ * so a mined transaction proves nothing by itself; every relayable function emits an event, so the target
+ * contract must have logged something.
+ */
+export const forwardedCallSucceeded = (receipt: ethers.TransactionReceipt, target: string): boolean =>
+  receipt.status === 1 && receipt.logs.some(log => log.address.toLowerCase() === target.toLowerCase());
+
+// Hand a signed request to the relayer; resolves to the hash of the transaction it submitted
+export const submitToRelayer = async (relayerUrl: string, signed: SignedForwardRequest): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${relayerUrl}/relay`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(signed),
+    });
+  } catch (error) {
+    throw new RelayerError(`Relayer unreachable: ${(error as Error).message}`, 'unavailable');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const reason: RelayerErrorReason = body.code === 'quota' ? 'quota' : response.status >= 500 ? 'unavailable' : 'rejected';
+    throw new RelayerError(body.error || `Relayer responded with ${response.status}`, reason, body.retryAfter, body.revertData);
+  }
+  return body.txHash;
+};
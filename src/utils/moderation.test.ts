@@ -0,0 +1,72 @@
+import { ModerationAction, ModeratorChange } from '../types';
+import { makeReview } from '../testFixtures';
+import { buildModerationQueue, countResolutions, getCurrentModerators, scoreFlag } from './moderation';
+
+const action = (overrides: Partial<ModerationAction>): ModerationAction => ({
+  businessId: '0xbusiness',
+  reviewer: '0xreviewer',
+  action: 'flagged',
+  moderator: '0xMod',
+  timestamp: 2000,
+  txHash: '0xtx',
+  ...overrides,
+});
+
+describe('scoreFlag', () => {
+  it('adds up net downvotes, links, shouting, one-star ratings and other flags', () => {
+    expect(scoreFlag(makeReview(), 0)).toBe(0);
+    expect(scoreFlag(makeReview({ upvotes: 1, downvotes: 4 }), 0)).toBe(3);
+    expect(scoreFlag(makeReview({ comment: 'Cheap pills at www.example.com' }), 0)).toBe(3);
+    expect(scoreFlag(makeReview({ comment: 'THIS IS THE WORST PLACE IN TOWN', rating: 1 }), 0)).toBe(3);
+    expect(scoreFlag(makeReview(), 5)).toBe(3);
+  });
+
+  it('caps the downvote contribution', () => {
+    expect(scoreFlag(makeReview({ downvotes: 50 }), 0)).toBe(5);
+  });
+});
+
+describe('buildModerationQueue', () => {
+  it('lists open flags with the latest flag event and a severity', () => {
+    const reviews = [
+      makeReview({ isFlagged: true, comment: 'Visit https://spam.example now', downvotes: 3 }),
+      makeReview({ isFlagged: true, reviewer: '0xother', isArchived: true }),
+      makeReview({ reviewer: '0xthird' }),
+    ];
+    const log = [action({ timestamp: 1500, moderator: '0xFirst' }), action({ timestamp: 2500, moderator: '0xSecond' })];
+
+    const [item, ...rest] = buildModerationQueue(reviews, log);
+    expect(rest).toHaveLength(0);
+    expect(item).toMatchObject({ flaggedAt: 2500, flaggedBy: '0xSecond', severity: 'high', severityScore: 6 });
+  });
+
+  it('falls back to the review time when the flag predates the log', () => {
+    const [item] = buildModerationQueue([makeReview({ isFlagged: true })], []);
+    expect(item).toMatchObject({ flaggedAt: 1000, flaggedBy: null, severity: 'low' });
+  });
+});
+
+describe('countResolutions', () => {
+  it('credits whoever closed each open flag, once', () => {
+    const log = [
+      action({}),
+      action({ action: 'unflagged', moderator: '0xMOD' }),
+      action({ action: 'archived', moderator: '0xmod' }),
+      action({ reviewer: '0xother' }),
+      action({ reviewer: '0xother', action: 'archived', moderator: '0xAdmin' }),
+    ];
+
+    expect(countResolutions(log)).toEqual(new Map([['0xmod', 1], ['0xadmin', 1]]));
+  });
+});
+
+describe('getCurrentModerators', () => {
+  const change = (account: string, granted: boolean, timestamp: number): ModeratorChange => ({
+    account, granted, admin: '0xadmin', timestamp, txHash: '0xtx',
+  });
+
+  it('keeps accounts whose latest change is a grant', () => {
+    const history = [change('0xA', true, 1), change('0xB', true, 2), change('0xa', false, 3), change('0xC', false, 4)];
+    expect(getCurrentModerators(history).map(moderator => moderator.account)).toEqual(['0xB']);
+  });
+});
@@ -0,0 +1,88 @@
+import { ModerationAction, ModeratorChange } from '../types';
+import { CachedReview, getReviewKey } from './reviewStore';
+
+export type FlagSeverity = 'high' | 'medium' | 'low';
+
+export interface QueueItem {
+  review: CachedReview;
+  flaggedAt: number;
+  // Unknown when the flag predates the events we can see
+  flaggedBy: string | null;
+  severity: FlagSeverity;
+  severityScore: number;
+}
+
+const LINK_PATTERN = /https?:\/\/|www\./i;
+
+// Mostly capital letters reads as shouting; short comments are too small to judge
+const isShouting = (text: string) => {
+  const letters = text.replace(/[^a-z]/gi, '');
+  return letters.length >= 20 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7;
+};
+
+/**
+ * Flags carry no severity on chain, so estimate one from what readers and the review itself say:
+ * net downvotes, links (the usual spam), shouting, and reviewers with other flagged reviews.
+ */
+export const scoreFlag = (review: CachedReview, otherFlagsByReviewer: number): number => {
+  let score = Math.max(0, Math.min(5, (review.downvotes ?? 0) - (review.upvotes ?? 0)));
+  if (LINK_PATTERN.test(review.comment)) score += 3;
+  if (isShouting(review.comment)) score += 2;
+  if (review.rating === 1) score += 1;
+  score += Math.min(3, otherFlagsByReviewer * 2);
+  return score;
+};
+
+const toSeverity = (score: number): FlagSeverity => (score >= 5 ? 'high' : score >= 2 ? 'medium' : 'low');
+
+// Open flags: reviews that are flagged and not yet archived, with when and by whom they were flagged
+export const buildModerationQueue = (reviews: CachedReview[], log: ModerationAction[]): QueueItem[] => {
+  const lastFlag = new Map<string, ModerationAction>();
+  log.forEach(action => {
+    if (action.action === 'flagged') lastFlag.set(getReviewKey(action.businessId, action.reviewer), action);
+  });
+
+  const open = reviews.filter(review => review.isFlagged && !review.isArchived);
+  const flagsByReviewer = new Map<string, number>();
+  open.forEach(review => {
+    const reviewer = review.reviewer.toLowerCase();
+    flagsByReviewer.set(reviewer, (flagsByReviewer.get(reviewer) || 0) + 1);
+  });
+
+  return open.map(review => {
+    const flag = lastFlag.get(getReviewKey(review.businessId, review.reviewer));
+    const severityScore = scoreFlag(review, (flagsByReviewer.get(review.reviewer.toLowerCase()) || 1) - 1);
+    return {
+      review,
+      flaggedAt: flag?.timestamp ?? review.timestamp,
+      flaggedBy: flag?.moderator ?? null,
+      severity: toSeverity(severityScore),
+      severityScore,
+    };
+  });
+};
+
+// Flags each moderator has closed, by archiving or unflagging; keyed by lowercase address
+export const countResolutions = (log: ModerationAction[]): Map<string, number> => {
+  const openFlags = new Set<string>();
+  const resolved = new Map<string, number>();
+
+  log.forEach(action => {
+    const key = getReviewKey(action.businessId, action.reviewer);
+    if (action.action === 'flagged') {
+      openFlags.add(key);
+    } else if (openFlags.delete(key)) {
+      const moderator = action.moderator.toLowerCase();
+      resolved.set(moderator, (resolved.get(moderator) || 0) + 1);
+    }
+  });
+
+  return resolved;
+};
+
+// Replays role grants and revocations; each current moderator with the grant that made them one
+export const getCurrentModerators = (history: ModeratorChange[]): ModeratorChange[] => {
+  const latest = new Map<string, ModeratorChange>();
+  history.forEach(change => latest.set(change.account.toLowerCase(), change));
+  return Array.from(latest.values()).filter(change => change.granted);
+};
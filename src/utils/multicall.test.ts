@@ -0,0 +1,95 @@
+import { ethers } from 'ethers';
+import { MULTICALL3_ADDRESS } from '../config/contract';
+import { batchCall } from './multicall';
+
+const target = new ethers.Interface(['function double(uint256) view returns (uint256)', 'function fail() view']);
+const multicall = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+
+const TARGET_ADDRESS = '0x00000000000000000000000000000000000000aa';
+const REVERT_DATA = ethers.concat([
+  ethers.id('Error(string)').slice(0, 10),
+  ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['nope']),
+]);
+
+// Answers what the target contract would, as [success, returnData]
+const respond = (data: string): [boolean, string] => {
+  const parsed = target.parseTransaction({ data })!;
+  if (parsed.name === 'fail') return [false, REVERT_DATA];
+  return [true, target.encodeFunctionResult('double', [parsed.args[0] * BigInt(2)])];
+};
+
+// A provider on its own chain, with or without Multicall3, that counts what it is asked
+const createProvider = (chainId: number, { deployed = true, aggregateFails = false } = {}) => {
+  const provider = {
+    getNetwork: async () => ({ chainId: BigInt(chainId) }),
+    getCode: jest.fn(async () => (deployed ? '0x6080' : '0x')),
+    call: jest.fn(async (tx: { to: string; data: string }) => {
+      if (tx.to.toLowerCase() !== MULTICALL3_ADDRESS.toLowerCase()) {
+        const [success, returnData] = respond(tx.data);
+        if (!success) throw new Error('execution reverted');
+        return returnData;
+      }
+      if (aggregateFails) throw new Error('aggregate3 is out of gas');
+      const [calls] = multicall.decodeFunctionData('aggregate3', tx.data);
+      return multicall.encodeFunctionResult('aggregate3', [calls.map((call: ethers.Result) => respond(call.callData))]);
+    }),
+    get provider() {
+      return provider;
+    },
+  };
+  const contract = new ethers.Contract(TARGET_ADDRESS, target, provider as unknown as ethers.Provider);
+  return { provider, contract };
+};
+
+const isAggregate = ([tx]: [{ to: string }]) => tx.to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase();
+
+describe('batchCall', () => {
+  it('aggregates calls in chunks and returns results in call order', async () => {
+    const { provider, contract } = createProvider(101);
+    const calls = [1, 2, 3, 4, 5].map(n => ({ contract, method: 'double', args: [n] }));
+
+    const results = await batchCall<bigint>(calls, { chunkSize: 2 });
+
+    expect(results.map(result => result.value)).toEqual([2, 4, 6, 8, 10].map(BigInt));
+    expect(provider.call).toHaveBeenCalledTimes(3);
+    expect(provider.call.mock.calls.every(isAggregate)).toBe(true);
+  });
+
+  it('reports a call that reverts without failing the others', async () => {
+    const { contract } = createProvider(102);
+
+    const [failed, doubled] = await batchCall([{ contract, method: 'fail' }, { contract, method: 'double', args: [21] }]);
+
+    expect(failed.success).toBe(false);
+    expect(failed.error?.message).toMatch(/^fail reverted/);
+    expect(doubled).toEqual({ success: true, value: BigInt(42) });
+  });
+
+  it('retries a chunk one call at a time when the aggregate call fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { provider, contract } = createProvider(103, { aggregateFails: true });
+
+    const results = await batchCall<bigint>([1, 2].map(n => ({ contract, method: 'double', args: [n] })));
+
+    expect(results.map(result => result.value)).toEqual([BigInt(2), BigInt(4)]);
+    expect(provider.call.mock.calls.filter(isAggregate)).toHaveLength(1);
+    expect(provider.call).toHaveBeenCalledTimes(3);
+  });
+
+  it('calls one by one on chains without Multicall3, checking for it only once', async () => {
+    const { provider, contract } = createProvider(104, { deployed: false });
+
+    await batchCall([{ contract, method: 'double', args: [1] }]);
+    const results = await batchCall([{ contract, method: 'double', args: [2] }, { contract, method: 'fail' }]);
+
+    expect(results.map(result => result.success)).toEqual([true, false]);
+    expect(provider.getCode).toHaveBeenCalledTimes(1);
+    expect(provider.call.mock.calls.some(isAggregate)).toBe(false);
+  });
+
+  it('resolves an empty batch straight away', async () => {
+    await expect(batchCall([])).resolves.toEqual([]);
+  });
+});
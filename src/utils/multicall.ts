@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+import { MULTICALL3_ADDRESS } from '../config/contract';
+
+// Minimal Multicall3 ABI - only aggregate3 is needed for batched reads
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+const DEFAULT_CHUNK_SIZE = 100;
+
+export interface ContractCall {
+  contract: ethers.BaseContract;
+  method: string;
+  args?: unknown[];
+}
+
+export interface CallResult<T = any> {
+  success: boolean;
+  value?: T;
+  error?: Error;
+}
+
+export interface BatchCallOptions {
+  chunkSize?: number;
+}
+
+// Multicall availability per chain, so getCode is only checked once
+const multicallAvailability = new Map<string, Promise<boolean>>();
+
+const isMulticallDeployed = async (provider: ethers.Provider): Promise<boolean> => {
+  const network = await provider.getNetwork();
+  const key = network.chainId.toString();
+  if (!multicallAvailability.has(key)) {
+    multicallAvailability.set(
+      key,
+      provider.getCode(MULTICALL3_ADDRESS)
+        .then(code => code !== '0x')
+        .catch(() => false)
+    );
+  }
+  return multicallAvailability.get(key)!;
+};
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Unwrap single-output functions so callers get the value, not a Result
+const unwrapResult = (result: ethers.Result) => (result.length === 1 ? result[0] : result);
+
+const decodeFailure = (call: ContractCall, returnData: string): Error => {
+  try {
+    const parsed = call.contract.interface.parseError(returnData);
+    if (parsed) {
+      return new Error(`${call.method} reverted with ${parsed.name}`);
+    }
+  } catch {
+    // Fall through to the generic message
+  }
+  return new Error(`${call.method} reverted`);
+};
+
+// Run calls one by one against the contract itself
+const callSequentially = async (calls: ContractCall[]): Promise<CallResult[]> => {
+  const results: CallResult[] = [];
+  for (const call of calls) {
+    try {
+      const value = await call.contract.getFunction(call.method).staticCall(...(call.args || []));
+      results.push({ success: true, value });
+    } catch (error) {
+      results.push({ success: false, error: error as Error });
+    }
+  }
+  return results;
+};
+
+const callAggregated = async (
+  multicall: ethers.Contract,
+  calls: ContractCall[]
+): Promise<CallResult[]> => {
+  const encodedCalls = await Promise.all(calls.map(async call => ({
+    target: await call.contract.getAddress(),
+    allowFailure: true,
+    callData: call.contract.interface.encodeFunctionData(call.method, call.args || []),
+  })));
+
+  const responses = await multicall.aggregate3.staticCall(encodedCalls);
+
+  return calls.map((call, index) => {
+    const { success, returnData } = responses[index];
+    if (!success) {
+      return { success: false, error: decodeFailure(call, returnData) };
+    }
+    try {
+      const decoded = call.contract.interface.decodeFunctionResult(call.method, returnData);
+      return { success: true, value: unwrapResult(decoded) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  });
+};
+
+/**
+ * Execute many read-only contract calls with as few RPC round-trips as possible.
+ * Calls are aggregated through Multicall3 in chunks; a chunk that fails as a whole
+ * is retried sequentially, and chains without Multicall3 fall back to sequential calls.
+ * Results are returned in the same order as the calls, one entry per call.
+ */
+export const batchCall = async <T = any,>(
+  calls: ContractCall[],
+  options: BatchCallOptions = {}
+): Promise<CallResult<T>[]> => {
+  if (calls.length === 0) return [];
+
+  const provider = calls[0].contract.runner?.provider;
+  if (!provider || !(await isMulticallDeployed(provider))) {
+    return callSequentially(calls);
+  }
+
+  const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: CallResult<T>[] = [];
+
+  for (const group of chunk(calls, options.chunkSize || DEFAULT_CHUNK_SIZE)) {
+    try {
+      results.push(...await callAggregated(multicall, group));
+    } catch (error) {
+      console.warn('Multicall chunk failed, retrying sequentially:', error);
+      results.push(...await callSequentially(group));
+    }
+  }
+
+  return results;
+};
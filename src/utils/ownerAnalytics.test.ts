@@ -0,0 +1,63 @@
+import { makeReview } from '../testFixtures';
+import { buildOwnerAnalytics, formatDuration } from './ownerAnalytics';
+
+const now = new Date(2024, 5, 15);
+const at = (year: number, month: number, day: number) => Math.floor(new Date(year, month, day).getTime() / 1000);
+
+describe('buildOwnerAnalytics', () => {
+  it('summarises ratings, leaving archived reviews out', () => {
+    const analytics = buildOwnerAnalytics([
+      makeReview({ rating: 5 }),
+      makeReview({ rating: 3 }),
+      makeReview({ rating: 1, isArchived: true }),
+    ], new Map(), now);
+
+    expect(analytics.totalReviews).toBe(2);
+    expect(analytics.averageRating).toBe(4);
+    expect(analytics.ratingDistribution).toEqual([0, 0, 1, 0, 1]);
+  });
+
+  it('averages each of the last six months, including empty ones', () => {
+    const { ratingTrend } = buildOwnerAnalytics([
+      makeReview({ rating: 2, timestamp: at(2024, 0, 10) }),
+      makeReview({ rating: 4, timestamp: at(2024, 0, 20) }),
+      makeReview({ rating: 5, timestamp: at(2024, 5, 2) }),
+      makeReview({ rating: 1, timestamp: at(2023, 11, 31) }),
+    ], new Map(), now);
+
+    expect(ratingTrend.map(point => point.month)).toEqual([0, 1, 2, 3, 4, 5].map(month => at(2024, month, 1)));
+    expect(ratingTrend.map(point => [point.average, point.count])).toEqual([[3, 2], [0, 0], [0, 0], [0, 0], [0, 0], [5, 1]]);
+  });
+
+  it('measures responses from the event times, falling back to the stored response time', () => {
+    const posted = at(2024, 5, 1);
+    const analytics = buildOwnerAnalytics([
+      makeReview({ reviewer: '0xA', timestamp: posted, hasOwnerResponse: true }),
+      makeReview({ reviewer: '0xB', timestamp: posted, hasOwnerResponse: true, ownerResponseTimestamp: posted + 7200 }),
+      makeReview({ reviewer: '0xC', timestamp: posted + 60 }),
+      makeReview({ reviewer: '0xD', timestamp: posted - 60 }),
+    ], new Map([['0xa', posted + 3600]]), now);
+
+    expect(analytics.responseRate).toBe(0.5);
+    expect(analytics.medianResponseTime).toBe(5400);
+    expect(analytics.unanswered.map(r => r.reviewer)).toEqual(['0xD', '0xC']);
+  });
+
+  it('counts tags case-insensitively, most used first', () => {
+    const { topTags } = buildOwnerAnalytics([
+      makeReview({ tags: ['Coffee', 'wifi'] }),
+      makeReview({ tags: ['coffee ', ' '] }),
+    ], new Map(), now);
+
+    expect(topTags).toEqual([{ tag: 'coffee', count: 2 }, { tag: 'wifi', count: 1 }]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('rounds to minutes, hours or days', () => {
+    expect(formatDuration(10)).toBe('1m');
+    expect(formatDuration(1800)).toBe('30m');
+    expect(formatDuration(5400)).toBe('2h');
+    expect(formatDuration(3 * 86400)).toBe('3d');
+  });
+});
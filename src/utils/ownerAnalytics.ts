@@ -0,0 +1,106 @@
+import { Review } from '../types';
+
+export interface RatingTrendPoint {
+  // First day of the month, as a Unix timestamp
+  month: number;
+  average: number;
+  count: number;
+}
+
+export interface OwnerAnalytics {
+  totalReviews: number;
+  averageRating: number;
+  // Reviews per star, index 0 is one star
+  ratingDistribution: number[];
+  ratingTrend: RatingTrendPoint[];
+  // Share of reviews with an owner response, 0-1
+  responseRate: number;
+  // Seconds from review to response; null until a response time is known
+  medianResponseTime: number | null;
+  // Oldest first, so the longest-waiting customers come up first
+  unanswered: Review[];
+  topTags: { tag: string; count: number }[];
+}
+
+const TREND_MONTHS = 6;
+const TOP_TAGS = 8;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+// Monthly average rating for the last few months, including months without reviews
+const buildTrend = (reviews: Review[], now: Date): RatingTrendPoint[] => {
+  const current = startOfMonth(now);
+  const months = Array.from({ length: TREND_MONTHS }, (_, index) =>
+    new Date(current.getFullYear(), current.getMonth() - (TREND_MONTHS - 1 - index), 1)
+  );
+
+  return months.map((start, index) => {
+    const end = months[index + 1] ?? new Date(current.getFullYear(), current.getMonth() + 1, 1);
+    const inMonth = reviews.filter(review => {
+      const time = review.timestamp * 1000;
+      return time >= start.getTime() && time < end.getTime();
+    });
+    return {
+      month: Math.floor(start.getTime() / 1000),
+      average: inMonth.length ? inMonth.reduce((sum, review) => sum + review.rating, 0) / inMonth.length : 0,
+      count: inMonth.length,
+    };
+  });
+};
+
+/**
+ * Everything the owner dashboard shows, from a business's reviews and the times its owner answered them.
+ * Archived reviews are left out; response times come from OwnerResponseAdded events keyed by reviewer.
+ */
+export const buildOwnerAnalytics = (
+  reviews: Review[],
+  responseTimes: Map<string, number>,
+  now: Date = new Date()
+): OwnerAnalytics => {
+  const active = reviews.filter(review => !review.isArchived);
+
+  const ratingDistribution = [0, 0, 0, 0, 0];
+  active.forEach(review => {
+    if (review.rating >= 1 && review.rating <= 5) ratingDistribution[review.rating - 1]++;
+  });
+
+  const answered = active.filter(review => review.hasOwnerResponse);
+  const delays = answered.flatMap(review => {
+    const respondedAt = responseTimes.get(review.reviewer.toLowerCase()) ?? review.ownerResponseTimestamp;
+    return respondedAt && respondedAt >= review.timestamp ? [respondedAt - review.timestamp] : [];
+  });
+
+  const tagCounts = new Map<string, number>();
+  active.forEach(review => review.tags.forEach(tag => {
+    const key = tag.trim().toLowerCase();
+    if (key) tagCounts.set(key, (tagCounts.get(key) || 0) + 1);
+  }));
+
+  return {
+    totalReviews: active.length,
+    averageRating: active.length ? active.reduce((sum, review) => sum + review.rating, 0) / active.length : 0,
+    ratingDistribution,
+    ratingTrend: buildTrend(active, now),
+    responseRate: active.length ? answered.length / active.length : 0,
+    medianResponseTime: median(delays),
+    unanswered: active.filter(review => !review.hasOwnerResponse).sort((a, b) => a.timestamp - b.timestamp),
+    topTags: Array.from(tagCounts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, TOP_TAGS),
+  };
+};
+
+// "3h", "2d" - coarse, since owners care about hours and days rather than minutes
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 3600) return `${Math.max(1, Math.round(seconds / 60))}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+};
@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import { ClaimContact, ClaimStatus, OwnershipClaim } from '../types';
+import { claimMessage, decisionMessage, inboxMessage } from './claimMessages';
+
+// What the claimant fills in and signs
+export interface ClaimDraft {
+  chainId: number;
+  businessId: string;
+  businessName: string;
+  claimant: string;
+  contact: ClaimContact;
+  evidence: string;
+  issuedAt: number;
+}
+
+// Signed inbox access, reusable until the claims service considers it stale
+export interface InboxAuth {
+  admin: string;
+  signature: string;
+  issuedAt: number;
+}
+
+// The claims service refuses signatures older than ten minutes; renew a little before that
+export const INBOX_AUTH_TTL_MS = 9 * 60 * 1000;
+
+export class ClaimsError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'ClaimsError';
+  }
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new ClaimsError(`Claims service unreachable: ${(error as Error).message}`);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ClaimsError(body.error || `Claims service responded with ${response.status}`, response.status);
+  }
+  return body as T;
+};
+
+// Fields are trimmed before signing so the service checks exactly what was signed
+export const submitClaim = async (claimsUrl: string, signer: ethers.Signer, draft: ClaimDraft) => {
+  const claim: ClaimDraft = {
+    ...draft,
+    businessId: draft.businessId.toLowerCase(),
+    businessName: draft.businessName.trim(),
+    claimant: ethers.getAddress(draft.claimant),
+    contact: {
+      name: draft.contact.name.trim(),
+      email: draft.contact.email.trim(),
+      phone: draft.contact.phone.trim(),
+    },
+    evidence: draft.evidence.trim(),
+  };
+  const signature = await signer.signMessage(claimMessage(claim));
+
+  return request<OwnershipClaim>(`${claimsUrl}/claims`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ claim, signature }),
+  });
+};
+
+export const getClaimsByClaimant = (claimsUrl: string, claimant: string) =>
+  request<OwnershipClaim[]>(`${claimsUrl}/claims?claimant=${claimant}`);
+
+export const signInboxAuth = async (signer: ethers.Signer): Promise<InboxAuth> => {
+  const admin = ethers.getAddress(await signer.getAddress());
+  const issuedAt = Date.now();
+  return { admin, issuedAt, signature: await signer.signMessage(inboxMessage(admin, issuedAt)) };
+};
+
+export const getClaimsInbox = (claimsUrl: string, auth: InboxAuth) =>
+  request<OwnershipClaim[]>(`${claimsUrl}/claims`, {
+    headers: {
+      'X-Claims-Admin': auth.admin,
+      'X-Claims-Signature': auth.signature,
+      'X-Claims-Issued': String(auth.issuedAt),
+    },
+  });
+
+export const decideClaim = async (
+  claimsUrl: string,
+  signer: ethers.Signer,
+  id: string,
+  decision: { status: Exclude<ClaimStatus, 'pending'>; reason: string; txHash: string }
+) => {
+  const issuedAt = Date.now();
+  const reason = decision.reason.trim();
+  const signature = await signer.signMessage(decisionMessage(id, decision.status, reason, decision.txHash, issuedAt));
+
+  return request<OwnershipClaim>(`${claimsUrl}/claims/${id}/decision`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...decision, reason, issuedAt, signature }),
+  });
+};
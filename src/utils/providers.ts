@@ -0,0 +1,9 @@
+import { ethers } from 'ethers';
+import { getChainConfig } from '../config/contractsV2';
+
+// Read-only provider for a supported chain, used to browse without a wallet
+export const createReadProvider = (chainId: number): ethers.JsonRpcProvider => {
+  const chain = getChainConfig(chainId);
+  // The chain is known up front, so skip network detection on every request
+  return new ethers.JsonRpcProvider(chain.rpcUrl, chain.id, { staticNetwork: true });
+};
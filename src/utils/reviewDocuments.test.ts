@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { getGatewayResolver } from '../content';
+import { makeReview } from '../testFixtures';
+import { canonicalJson, createReviewDocument, getDocumentCid, hydrateReviewBody, toDocumentUri } from './reviewDocuments';
+
+jest.mock('../content', () => ({
+  ...jest.requireActual('../content'),
+  getGatewayResolver: jest.fn(),
+}));
+
+const DOC_CID = 'bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq';
+const IMAGE_CID = 'QmXoypizjW3WknFiJnKLwHCnL72vedxjQkDDP1mXWo6uco';
+const DOC_URI = toDocumentUri(DOC_CID);
+
+const serveDocument = (content: string) => {
+  (getGatewayResolver as jest.Mock).mockReturnValue({
+    fetch: jest.fn().mockResolvedValue({ text: async () => content }),
+  });
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys, drops undefined and has no whitespace', () => {
+    expect(canonicalJson({ b: [1, { d: true, c: null }], a: 'x', skipped: undefined })).toBe(
+      '{"a":"x","b":[1,{"c":null,"d":true}]}'
+    );
+  });
+
+  it('refuses numbers JSON cannot hold', () => {
+    expect(() => canonicalJson({ score: NaN })).toThrow('non-finite');
+  });
+});
+
+describe('getDocumentCid', () => {
+  it('reads the CID from a document URI and ignores anything else', () => {
+    expect(getDocumentCid(toDocumentUri(DOC_CID))).toBe(DOC_CID);
+    expect(getDocumentCid('Great coffee')).toBeNull();
+    expect(getDocumentCid('ipfs://notacid')).toBeNull();
+  });
+});
+
+describe('createReviewDocument', () => {
+  it('carries the body and details', () => {
+    expect(createReviewDocument(
+      { comment: 'Great', tags: ['coffee'], imageHashes: [IMAGE_CID] },
+      { subRatings: { food: 5 }, language: 'sw' }
+    )).toEqual({ version: 1, text: 'Great', tags: ['coffee'], images: [IMAGE_CID], ratings: { food: 5 }, language: 'sw' });
+  });
+
+  it('rejects sub-ratings off the rating scale', () => {
+    expect(() => createReviewDocument({ comment: 'Great', tags: [], imageHashes: [] }, { subRatings: { food: 9 }, language: 'en' }))
+      .toThrow('Invalid ratings');
+  });
+});
+
+describe('hydrateReviewBody', () => {
+  it('leaves inline reviews alone', async () => {
+    const inline = makeReview({ comment: 'Great coffee' });
+    await expect(hydrateReviewBody(inline)).resolves.toBe(inline);
+  });
+
+  it('fills in the body from the document, after any images posted on-chain', async () => {
+    serveDocument(canonicalJson({
+      version: 1, text: 'Great', tags: ['coffee'], images: [IMAGE_CID], ratings: { food: 5 }, language: 'en',
+    }));
+    const onChainImage = 'bafkqaaa';
+
+    expect(await hydrateReviewBody(makeReview({ comment: DOC_URI, imageHash: onChainImage, imageHashes: [onChainImage] }))).toMatchObject({
+      comment: 'Great',
+      tags: ['coffee'],
+      imageHashes: [onChainImage, IMAGE_CID],
+      imageHash: onChainImage,
+      documentCid: DOC_CID,
+      documentLoaded: true,
+      subRatings: { food: 5 },
+      language: 'en',
+    });
+  });
+
+  it('shows no text when the document is unreadable', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    serveDocument('{"version":2}');
+
+    expect(await hydrateReviewBody(makeReview({ comment: DOC_URI }))).toMatchObject({ comment: '', tags: [], documentCid: DOC_CID, documentLoaded: false });
+  });
+});
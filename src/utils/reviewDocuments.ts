@@ -0,0 +1,163 @@
+import { getContentStore, getGatewayResolver, parseCid } from '../content';
+import { MAX_RATING_DIMENSIONS } from '../data/ratingDimensions';
+import { Review, ReviewDetails } from '../types';
+import { DOCUMENT_LIMITS, REVIEW_LIMITS, utf8Length } from './reviewSchema';
+
+export const REVIEW_DOCUMENT_VERSION = 1;
+
+// What goes on-chain in place of the comment when the body lives off-chain
+const DOCUMENT_URI = /^ipfs:\/\/([A-Za-z0-9]+)$/;
+
+const MAX_LANGUAGE_LENGTH = 35;
+
+/**
+ * The full body of a review, pinned to IPFS as canonical JSON.
+ * Only its CID is written on-chain, so any change to the document is a new CID.
+ */
+export interface ReviewDocument {
+  version: typeof REVIEW_DOCUMENT_VERSION;
+  text: string;
+  tags: string[];
+  // CIDs, in gallery order
+  images: string[];
+  // Scores per rating dimension, e.g. { food: 4, service: 5 }
+  ratings: Record<string, number>;
+  // BCP 47 tag of the language the text is written in
+  language: string;
+}
+
+// The parts of a review its document can supply
+type ReviewBody = Pick<Review, 'comment' | 'tags' | 'imageHashes'>;
+
+export class ReviewDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewDocumentError';
+  }
+}
+
+export const toDocumentUri = (cid: string) => `ipfs://${cid}`;
+
+// The document CID a comment commits to, or null for an ordinary inline comment
+export const getDocumentCid = (comment: string): string | null => {
+  const match = DOCUMENT_URI.exec(comment);
+  if (!match) return null;
+  try {
+    parseCid(match[1]);
+    return match[1];
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * JSON with object keys sorted and no whitespace, so the same document always has the same bytes
+ * and therefore the same CID.
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new ReviewDocumentError('Review documents cannot hold non-finite numbers');
+  }
+  return JSON.stringify(value);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Checks a parsed document field by field; anything unexpected makes it unreadable
+const validateDocument = (value: unknown): ReviewDocument => {
+  const doc = value as Partial<ReviewDocument> | null;
+  if (!doc || typeof doc !== 'object') throw new ReviewDocumentError('Not a review document');
+  if (doc.version !== REVIEW_DOCUMENT_VERSION) throw new ReviewDocumentError(`Unsupported document version ${doc.version}`);
+  // Documents cost no gas, but readers shouldn't have to load anything unbounded
+  const { maxCommentLength, maxTags, maxTagLength, maxImages } = DOCUMENT_LIMITS;
+  if (typeof doc.text !== 'string' || utf8Length(doc.text) > maxCommentLength) throw new ReviewDocumentError('Invalid text');
+  if (!isStringArray(doc.tags) || doc.tags.length > maxTags || doc.tags.some(tag => utf8Length(tag) > maxTagLength)) {
+    throw new ReviewDocumentError('Invalid tags');
+  }
+  if (!isStringArray(doc.images) || doc.images.length > maxImages) {
+    throw new ReviewDocumentError('Invalid images');
+  }
+  doc.images.forEach(image => parseCid(image));
+
+  // The same scale as the overall rating
+  const { minRating, maxRating } = REVIEW_LIMITS.v2;
+  if (!doc.ratings || typeof doc.ratings !== 'object' || Array.isArray(doc.ratings) ||
+    Object.keys(doc.ratings).length > MAX_RATING_DIMENSIONS ||
+    Object.values(doc.ratings).some(score => !Number.isInteger(score) || score < minRating || score > maxRating)) {
+    throw new ReviewDocumentError('Invalid ratings');
+  }
+  if (typeof doc.language !== 'string' || doc.language.length > MAX_LANGUAGE_LENGTH) {
+    throw new ReviewDocumentError('Invalid language');
+  }
+  return doc as ReviewDocument;
+};
+
+export const createReviewDocument = (
+  { comment, tags, imageHashes }: ReviewBody,
+  { subRatings = {}, language = navigator.language || 'und' }: ReviewDetails = {}
+): ReviewDocument => validateDocument({
+  version: REVIEW_DOCUMENT_VERSION,
+  text: comment,
+  tags,
+  images: imageHashes,
+  ratings: subRatings,
+  language,
+});
+
+// Pins a document and resolves to its CID; the poster can read it back straight away from the cache
+export const publishReviewDocument = async (doc: ReviewDocument): Promise<string> => {
+  const blob = new Blob([canonicalJson(doc)], { type: 'application/json' });
+  const cid = await getContentStore().put(blob);
+  getGatewayResolver().remember(cid, blob);
+  return cid;
+};
+
+// Fetches a document through the verifying gateway resolver and checks its contents
+export const loadReviewDocument = async (cid: string): Promise<ReviewDocument> => {
+  const text = await (await getGatewayResolver().fetch(cid)).text();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ReviewDocumentError('Document is not valid JSON');
+  }
+  return validateDocument(parsed);
+};
+
+/**
+ * Fills in a review body committed as a document. Inline bodies come back unchanged; a document that can't be
+ * loaded leaves the text empty and documentLoaded false, so it can be retried later.
+ */
+export const hydrateReviewBody = async <T extends ReviewBody>(review: T): Promise<T & Partial<Review>> => {
+  const cid = getDocumentCid(review.comment);
+  if (!cid) return review;
+
+  try {
+    const doc = await loadReviewDocument(cid);
+    // Images posted on-chain before the review moved off-chain stay first
+    const imageHashes = [...new Set([...review.imageHashes, ...doc.images])];
+    return {
+      ...review,
+      comment: doc.text,
+      tags: doc.tags,
+      imageHashes,
+      ...('imageHash' in review ? { imageHash: imageHashes[0] || '' } : {}),
+      documentCid: cid,
+      documentLoaded: true,
+      subRatings: doc.ratings,
+      language: doc.language,
+    };
+  } catch (error) {
+    console.warn(`Could not load review document ${cid}:`, error);
+    return { ...review, comment: '', tags: [], documentCid: cid, documentLoaded: false };
+  }
+};
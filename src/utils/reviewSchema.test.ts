@@ -0,0 +1,75 @@
+import { DOCUMENT_LIMITS, REVIEW_LIMITS, getReviewLimits, utf8Length, validateField, validateReview } from './reviewSchema';
+
+const limits = REVIEW_LIMITS.v2;
+
+describe('utf8Length', () => {
+  it('counts the bytes the contract measures', () => {
+    expect(utf8Length('abc')).toBe(3);
+    expect(utf8Length('é')).toBe(2);
+    expect(utf8Length('€')).toBe(3);
+    expect(utf8Length('😀')).toBe(4);
+  });
+});
+
+describe('getReviewLimits', () => {
+  it('uses the table for the contract version', () => {
+    expect(getReviewLimits('v1', 'inline')).toEqual(REVIEW_LIMITS.v1);
+    expect(getReviewLimits('v2', 'inline')).toEqual(REVIEW_LIMITS.v2);
+  });
+
+  it('prefers the limits read from the contract', () => {
+    expect(getReviewLimits('v2', 'inline', { maxCommentLength: 500, maxTags: 3 })).toEqual({
+      ...REVIEW_LIMITS.v2,
+      maxCommentLength: 500,
+      maxTags: 3,
+    });
+  });
+
+  it('lifts the content limits for documents but keeps the rating range', () => {
+    expect(getReviewLimits('v1', 'document', { maxRating: 10, maxCommentLength: 500 })).toEqual({
+      ...REVIEW_LIMITS.v1,
+      ...DOCUMENT_LIMITS,
+      maxRating: 10,
+    });
+  });
+});
+
+describe('validateField', () => {
+  it('rejects ratings outside the range or between stars', () => {
+    expect(validateField('rating', 0, limits)).toBe('Rating must be between 1 and 5');
+    expect(validateField('rating', 6, limits)).toBe('Rating must be between 1 and 5');
+    expect(validateField('rating', 2.5, limits)).toBe('Rating must be between 1 and 5');
+    expect(validateField('rating', 5, limits)).toBeNull();
+  });
+
+  it('rejects blank comments and comments over the byte limit', () => {
+    expect(validateField('comment', '   ', limits)).toBe('Comment cannot be empty');
+    expect(validateField('comment', '€'.repeat(700), limits)).toBe('Comment must be 2000 characters or less');
+    expect(validateField('comment', 'a'.repeat(2000), limits)).toBeNull();
+  });
+
+  it('reports only the first tag rule broken', () => {
+    const tooMany = Array.from({ length: 11 }, () => '');
+    expect(validateField('tags', tooMany, limits)).toBe('Maximum 10 tags allowed');
+    expect(validateField('tags', ['ok', ' '], limits)).toBe('Tags cannot be empty');
+    expect(validateField('tags', ['a'.repeat(51)], limits)).toBe('Tags must be 50 characters or less');
+  });
+
+  it('words the image limit for one or several images', () => {
+    expect(validateField('imageHashes', ['a', 'b'], REVIEW_LIMITS.v1)).toBe('You can attach up to 1 image');
+    expect(validateField('imageHashes', Array(6).fill('a'), limits)).toBe('You can attach up to 5 images');
+  });
+});
+
+describe('validateReview', () => {
+  it('lists every problem in field order', () => {
+    expect(validateReview({ rating: 0, comment: '', tags: [], imageHashes: [] }, limits)).toEqual([
+      { field: 'rating', message: 'Rating must be between 1 and 5' },
+      { field: 'comment', message: 'Comment cannot be empty' },
+    ]);
+  });
+
+  it('skips fields that are left out', () => {
+    expect(validateReview({ rating: 4, comment: 'Great' }, limits)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+// The rules a review must meet, shared by the review forms, useContract and the gasless relayer.
+// This module has no imports so the relayer can compile it as is.
+
+export interface ReviewLimits {
+  minRating: number;
+  maxRating: number;
+  // Lengths are in UTF-8 bytes, which is what the contract measures
+  maxCommentLength: number;
+  maxTags: number;
+  maxTagLength: number;
+  maxImages: number;
+}
+
+export interface ReviewValues {
+  rating: number;
+  comment: string;
+  tags: string[];
+  imageHashes: string[];
+}
+
+export type ReviewField = keyof ReviewValues;
+
+export interface ReviewIssue {
+  field: ReviewField;
+  message: string;
+}
+
+/**
+ * The limits each review contract enforces, used where the deployed contract can't be asked. V2 mirrors
+ * the constants in YelpReviewV2.sol (its per-tag limit is inline in addReview); V1's source isn't in
+ * this repo, so its entry holds the limits the app has always applied to it.
+ */
+export const REVIEW_LIMITS = {
+  v1: {
+    minRating: 1,
+    maxRating: 5,
+    maxCommentLength: 1000,
+    maxTags: 5,
+    maxTagLength: 20,
+    maxImages: 1,
+  },
+  v2: {
+    minRating: 1,
+    maxRating: 5,
+    maxCommentLength: 2000,
+    maxTags: 10,
+    maxTagLength: 50,
+    maxImages: 5,
+  },
+};
+
+export type ReviewContractVersion = keyof typeof REVIEW_LIMITS;
+
+// The public constant V2 declares for each limit it exposes, so a deployment's own values can be read
+export const LIMIT_CONSTANTS = {
+  minRating: 'MIN_RATING',
+  maxRating: 'MAX_RATING',
+  maxCommentLength: 'MAX_COMMENT_LENGTH',
+  maxTags: 'MAX_TAGS',
+  maxImages: 'MAX_IMAGES',
+} as const;
+
+export type ContractLimits = Partial<Pick<ReviewLimits, keyof typeof LIMIT_CONSTANTS>>;
+
+// A review stored as a document only puts its rating and CID on-chain, so the rest is bound by these instead
+export const DOCUMENT_LIMITS: Omit<ReviewLimits, 'minRating' | 'maxRating'> = {
+  maxCommentLength: 20000,
+  maxTags: 10,
+  maxTagLength: 50,
+  maxImages: 5,
+};
+
+// Limits read from the deployed contract take the place of the table's
+export const getReviewLimits = (
+  version: ReviewContractVersion,
+  storage: 'inline' | 'document',
+  contractLimits: ContractLimits = {}
+): ReviewLimits => {
+  const limits = { ...REVIEW_LIMITS[version], ...contractLimits };
+  return storage === 'document' ? { ...limits, ...DOCUMENT_LIMITS } : limits;
+};
+
+export const utf8Length = (text: string): number => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) length += 1;
+    else if (code < 0x800) length += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // A surrogate pair is one four-byte character
+      length += 4;
+      i++;
+    } else length += 3;
+  }
+  return length;
+};
+
+interface Rule<F extends ReviewField> {
+  test: (value: ReviewValues[F], limits: ReviewLimits) => boolean;
+  message: (limits: ReviewLimits) => string;
+}
+
+// Checked in order; a field reports only the first rule it breaks
+const SCHEMA: { [F in ReviewField]: Rule<F>[] } = {
+  rating: [
+    {
+      test: (rating, { minRating, maxRating }) => Number.isInteger(rating) && rating >= minRating && rating <= maxRating,
+      message: ({ minRating, maxRating }) => `Rating must be between ${minRating} and ${maxRating}`,
+    },
+  ],
+  comment: [
+    {
+      test: comment => comment.trim().length > 0,
+      message: () => 'Comment cannot be empty',
+    },
+    {
+      test: (comment, { maxCommentLength }) => utf8Length(comment) <= maxCommentLength,
+      message: ({ maxCommentLength }) => `Comment must be ${maxCommentLength} characters or less`,
+    },
+  ],
+  tags: [
+    {
+      test: (tags, { maxTags }) => tags.length <= maxTags,
+      message: ({ maxTags }) => `Maximum ${maxTags} tags allowed`,
+    },
+    {
+      test: tags => tags.every(tag => tag.trim().length > 0),
+      message: () => 'Tags cannot be empty',
+    },
+    {
+      test: (tags, { maxTagLength }) => tags.every(tag => utf8Length(tag) <= maxTagLength),
+      message: ({ maxTagLength }) => `Tags must be ${maxTagLength} characters or less`,
+    },
+  ],
+  imageHashes: [
+    {
+      test: (imageHashes, { maxImages }) => imageHashes.length <= maxImages,
+      message: ({ maxImages }) => `You can attach up to ${maxImages} image${maxImages === 1 ? '' : 's'}`,
+    },
+  ],
+};
+
+// The message for the first rule the value breaks, or null when it is valid
+export const validateField = <F extends ReviewField>(field: F, value: ReviewValues[F], limits: ReviewLimits): string | null => {
+  const rules = SCHEMA[field] as Rule<F>[];
+  const broken = rules.find(rule => !rule.test(value, limits));
+  return broken ? broken.message(limits) : null;
+};
+
+// Every problem with the fields given, in field order; fields left out aren't checked
+export const validateReview = (values: Partial<ReviewValues>, limits: ReviewLimits): ReviewIssue[] => {
+  const issues: ReviewIssue[] = [];
+  (Object.keys(SCHEMA) as ReviewField[]).forEach(field => {
+    if (values[field] === undefined) return;
+    const message = validateField(field, values[field] as ReviewValues[typeof field], limits);
+    if (message) issues.push({ field, message });
+  });
+  return issues;
+};
@@ -0,0 +1,86 @@
+import { RegisteredBusiness, Review } from '../types';
+
+const DB_NAME = 'decent-review-cache';
+const DB_VERSION = 4;
+const SNAPSHOT_STORE = 'snapshots';
+
+export interface CachedReview extends Review {
+  businessId: string;
+}
+
+// Everything we know about one deployment, rebuilt from its event log
+export interface ReviewSnapshot {
+  key: string;
+  deployBlock: number;
+  lastSyncedBlock: number;
+  reviews: Record<string, CachedReview>;
+  businessOwners: Record<string, string>;
+  // Registry entries keyed by lowercase business ID; always empty on V1
+  businesses: Record<string, RegisteredBusiness>;
+}
+
+export const getReviewKey = (businessId: string, reviewer: string) =>
+  `${businessId.toLowerCase()}:${reviewer.toLowerCase()}`;
+
+export const createEmptySnapshot = (key: string, deployBlock: number): ReviewSnapshot => ({
+  key,
+  deployBlock,
+  lastSyncedBlock: deployBlock - 1,
+  reviews: {},
+  businessOwners: {},
+  businesses: {},
+});
+
+const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  // Snapshots are rebuildable from the chain, so schema changes simply drop them
+  request.onupgradeneeded = () => {
+    if (request.result.objectStoreNames.contains(SNAPSHOT_STORE)) {
+      request.result.deleteObjectStore(SNAPSHOT_STORE);
+    }
+    request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async <T,>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(SNAPSHOT_STORE, mode).objectStore(SNAPSHOT_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Load a persisted snapshot; resolves to null when nothing is stored or IndexedDB is unavailable
+export const loadSnapshot = async (key: string): Promise<ReviewSnapshot | null> => {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const snapshot = await runTransaction<ReviewSnapshot | undefined>('readonly', store => store.get(key));
+    return snapshot || null;
+  } catch (error) {
+    console.error('Error loading review cache:', error);
+    return null;
+  }
+};
+
+export const saveSnapshot = async (snapshot: ReviewSnapshot): Promise<void> => {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    await runTransaction('readwrite', store => store.put(snapshot));
+  } catch (error) {
+    console.error('Error saving review cache:', error);
+  }
+};
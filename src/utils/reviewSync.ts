@@ -0,0 +1,134 @@
+import { ethers } from 'ethers';
+import { ReviewRef, ReviewRepository } from '../repositories';
+import { pageLogs } from './logPaging';
+import { ReviewSnapshot, createEmptySnapshot, getReviewKey, saveSnapshot } from './reviewStore';
+
+// Find the block a contract was deployed in by binary searching eth_getCode
+export const findDeployBlock = async (
+  provider: ethers.Provider,
+  address: string,
+  latestBlock: number
+): Promise<number> => {
+  let low = 0;
+  let high = latestBlock;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const code = await provider.getCode(address, mid);
+    if (code === '0x') {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+// Reload the current state of every review touched by a block range
+const hydrateReviews = async (repository: ReviewRepository, snapshot: ReviewSnapshot, refs: ReviewRef[]) => {
+  const reviews = await repository.getReviewsByRef(refs);
+  reviews.forEach((review, index) => {
+    if (review) {
+      const { businessId, reviewer } = refs[index];
+      snapshot.reviews[getReviewKey(businessId, reviewer)] = { ...review, businessId };
+    }
+  });
+};
+
+// Reload registry entries whose registration or verification changed
+const hydrateBusinesses = async (repository: ReviewRepository, snapshot: ReviewSnapshot, businessIds: string[]) => {
+  const businesses = await repository.getBusinesses(businessIds);
+  // Copied only when something changed, so the registry keeps its identity between syncs
+  snapshot.businesses = { ...snapshot.businesses };
+  businesses.forEach(business => {
+    if (business) {
+      snapshot.businesses[business.id.toLowerCase()] = business;
+    }
+  });
+};
+
+/**
+ * Replay the contract's event log from the snapshot's last synced block up to the chain head.
+ * Progress is persisted after every block range so an interrupted sync resumes where it stopped.
+ */
+export const syncSnapshot = async (
+  repository: ReviewRepository,
+  snapshot: ReviewSnapshot,
+  onProgress?: (snapshot: ReviewSnapshot) => void
+): Promise<ReviewSnapshot> => {
+  const { contract } = repository;
+  const provider = contract.runner?.provider;
+  if (!provider) return snapshot;
+
+  const address = await contract.getAddress();
+  const latestBlock = await provider.getBlockNumber();
+  let current: ReviewSnapshot = { ...snapshot };
+
+  // The chain is behind the snapshot, e.g. a restarted local node: start over
+  if (current.lastSyncedBlock > latestBlock) {
+    current = createEmptySnapshot(current.key, repository.deployBlock);
+  }
+
+  // No deploy block configured: locate it once and remember it in the snapshot
+  if (current.deployBlock === 0 && current.lastSyncedBlock < 0) {
+    console.warn(`No deploy block is configured for ${address}; searching for it, which needs an archive RPC node`);
+    let deployBlock: number;
+    try {
+      deployBlock = await findDeployBlock(provider, address, latestBlock);
+    } catch (error) {
+      throw new Error(`Could not find the block ${address} was deployed in; configure its deployBlock: ${(error as Error).message}`);
+    }
+    current = { ...current, deployBlock, lastSyncedBlock: deployBlock - 1 };
+  }
+
+  // Off-chain review documents that couldn't be loaded last time get another try
+  const unloaded = Object.values(current.reviews)
+    .filter(review => review.documentLoaded === false)
+    .map(({ businessId, reviewer }) => ({ businessId, reviewer }));
+  if (unloaded.length > 0) {
+    current = { ...current, reviews: { ...current.reviews } };
+    await hydrateReviews(repository, current, unloaded);
+    if (unloaded.some(ref => current.reviews[getReviewKey(ref.businessId, ref.reviewer)]?.documentLoaded)) {
+      await saveSnapshot(current);
+      onProgress?.(current);
+    }
+  }
+
+  const getLogs = (fromBlock: number, toBlock: number) => provider.getLogs({ address, fromBlock, toBlock });
+  await pageLogs(current.lastSyncedBlock + 1, latestBlock, getLogs, async (logs, toBlock) => {
+    const next: ReviewSnapshot = {
+      ...current,
+      reviews: { ...current.reviews },
+      businessOwners: { ...current.businessOwners },
+    };
+    // Events only say which review changed; the review itself is re-read in one batch
+    const staleReviews = new Map<string, ReviewRef>();
+    const staleBusinesses = new Set<string>();
+
+    for (const log of logs) {
+      const event = repository.parseEvent(log);
+      if (event?.review) {
+        staleReviews.set(getReviewKey(event.review.businessId, event.review.reviewer), event.review);
+      }
+      if (event?.businessOwner) {
+        next.businessOwners[event.businessOwner.businessId.toLowerCase()] = event.businessOwner.owner;
+      }
+      if (event?.business) {
+        staleBusinesses.add(event.business);
+      }
+    }
+
+    if (staleReviews.size > 0) {
+      await hydrateReviews(repository, next, Array.from(staleReviews.values()));
+    }
+    if (staleBusinesses.size > 0) {
+      await hydrateBusinesses(repository, next, Array.from(staleBusinesses));
+    }
+
+    next.lastSyncedBlock = toBlock;
+    current = next;
+    await saveSnapshot(current);
+    onProgress?.(current);
+  });
+
+  return current;
+};
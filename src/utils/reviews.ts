@@ -0,0 +1,50 @@
+import { ethers } from 'ethers';
+import { getRegisteredBusinessId } from '../config/contractsV2';
+import { Review, ReviewVote } from '../types';
+
+// Generate businessId from business name, unless the chain has it registered under another ID
+export const getBusinessId = (businessName: string, chainId?: number): string => {
+  const registered = chainId !== undefined ? getRegisteredBusinessId(chainId, businessName) : undefined;
+  return registered || ethers.keccak256(ethers.toUtf8Bytes(businessName));
+};
+
+// Net helpful votes, used to rank reviews by how useful readers found them
+export const getHelpfulness = (review: Review): number => (review.upvotes ?? 0) - (review.downvotes ?? 0);
+
+// Every photo attached to visible reviews, newest review first and in each review's own order
+export const getReviewPhotos = <T extends Review>(reviews: T[]): { hash: string; review: T }[] =>
+  reviews
+    .filter(review => !review.isArchived)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .flatMap(review => review.imageHashes.map(hash => ({ hash, review })));
+
+// Average score per rating dimension, over the reviews that scored it
+export const getSubRatingAverages = (reviews: Review[]): Record<string, number> => {
+  const totals: Record<string, { sum: number; count: number }> = {};
+  for (const review of reviews) {
+    Object.entries(review.subRatings || {}).forEach(([key, score]) => {
+      totals[key] = totals[key] || { sum: 0, count: 0 };
+      totals[key].sum += score;
+      totals[key].count++;
+    });
+  }
+  return Object.fromEntries(Object.entries(totals).map(([key, { sum, count }]) => [key, sum / count]));
+};
+
+// Vote totals after a voter moves from one vote to another, mirroring the contract's bookkeeping.
+// null is no vote, so moving to it withdraws the previous one
+export const applyVote = (
+  review: Review,
+  previous: ReviewVote | null,
+  next: ReviewVote | null
+): { upvotes: number; downvotes: number } => {
+  let upvotes = review.upvotes ?? 0;
+  let downvotes = review.downvotes ?? 0;
+  if (previous === next) return { upvotes, downvotes };
+
+  if (previous === 'up') upvotes--;
+  if (previous === 'down') downvotes--;
+  if (next === 'up') upvotes++;
+  if (next === 'down') downvotes++;
+  return { upvotes, downvotes };
+};
@@ -0,0 +1,29 @@
+import { diffWords } from './textDiff';
+
+const join = (segments: ReturnType<typeof diffWords>, keep: 'added' | 'removed') =>
+  segments.filter(segment => segment.type !== keep).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  it('marks words that were swapped, keeping the rest as is', () => {
+    expect(diffWords('The food was cold', 'The food was great')).toEqual([
+      { type: 'same', text: 'The food was ' },
+      { type: 'removed', text: 'cold' },
+      { type: 'added', text: 'great' },
+    ]);
+  });
+
+  it('rebuilds both versions exactly, whitespace included', () => {
+    const before = 'Slow  service,\nbut friendly staff';
+    const after = 'Quick service,\nand very friendly staff ';
+    const segments = diffWords(before, after);
+
+    expect(join(segments, 'added')).toBe(before);
+    expect(join(segments, 'removed')).toBe(after);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
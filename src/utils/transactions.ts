@@ -0,0 +1,97 @@
+import { ethers } from 'ethers';
+
+// Blocks to wait after inclusion before a transaction counts as confirmed
+export const CONFIRMATIONS = 2;
+
+// Nodes reject replacements that don't outbid the original by at least 10%
+const REPLACEMENT_FEE_BUMP_PERCENT = 20;
+
+export type ReplacementMode = 'speed-up' | 'cancel';
+
+export interface CostEstimate {
+  gasLimit: bigint;
+  cost: bigint;
+}
+
+export interface MinedTransaction {
+  receipt: ethers.TransactionReceipt;
+  cancelled: boolean;
+}
+
+// Run the transaction as a static call so a revert surfaces before the wallet is prompted
+export const simulateTransaction = async (
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest
+): Promise<void> => {
+  await signer.call(request);
+};
+
+export const estimateTransactionCost = async (
+  signer: ethers.Signer,
+  request: ethers.TransactionRequest
+): Promise<CostEstimate> => {
+  const provider = signer.provider;
+  if (!provider) throw new Error('Signer is not connected to a provider');
+
+  const [gasLimit, feeData] = await Promise.all([signer.estimateGas(request), provider.getFeeData()]);
+  const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+  return { gasLimit, cost: gasLimit * gasPrice };
+};
+
+const bumpFee = (previous: bigint, current: bigint | null) => {
+  const bumped = previous * BigInt(100 + REPLACEMENT_FEE_BUMP_PERCENT) / BigInt(100);
+  return current !== null && current > bumped ? current : bumped;
+};
+
+/**
+ * Replace a pending transaction by sending another one with the same nonce and higher fees.
+ * A speed-up resends the original call; a cancel sends an empty transfer to ourselves.
+ */
+export const replaceTransaction = async (
+  signer: ethers.Signer,
+  pending: ethers.TransactionResponse,
+  mode: ReplacementMode
+): Promise<ethers.TransactionResponse> => {
+  const provider = signer.provider;
+  if (!provider) throw new Error('Signer is not connected to a provider');
+
+  const feeData = await provider.getFeeData();
+  const fees: Partial<ethers.TransactionRequest> = pending.maxFeePerGas !== null && pending.maxPriorityFeePerGas !== null
+    ? {
+        maxFeePerGas: bumpFee(pending.maxFeePerGas, feeData.maxFeePerGas),
+        maxPriorityFeePerGas: bumpFee(pending.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas),
+      }
+    : { gasPrice: bumpFee(pending.gasPrice, feeData.gasPrice) };
+
+  const call: ethers.TransactionRequest = mode === 'speed-up'
+    ? { to: pending.to, data: pending.data, value: pending.value, gasLimit: pending.gasLimit }
+    : { to: await signer.getAddress(), data: '0x', value: 0, gasLimit: 21000 };
+
+  return signer.sendTransaction({ ...call, ...fees, nonce: pending.nonce });
+};
+
+// Wait for the transaction's nonce to be mined, following any speed-up or cancel that replaced it
+export const waitForMined = async (response: ethers.TransactionResponse): Promise<MinedTransaction> => {
+  try {
+    const receipt = await response.wait(1);
+    if (!receipt) throw new Error('Transaction was dropped');
+    return { receipt, cancelled: false };
+  } catch (error) {
+    if (!ethers.isError(error, 'TRANSACTION_REPLACED')) throw error;
+
+    const { receipt, cancelled } = error;
+    // ethers only checks the status of the transaction it was waiting for, so a reverted speed-up fails the same way here
+    if (!cancelled && receipt.status !== 1) {
+      throw ethers.makeError('transaction execution reverted', 'CALL_EXCEPTION', {
+        action: 'sendTransaction',
+        data: null,
+        reason: null,
+        invocation: null,
+        revert: null,
+        transaction: { to: receipt.to, from: receipt.from, data: '' },
+        receipt,
+      });
+    }
+    return { receipt, cancelled };
+  }
+};
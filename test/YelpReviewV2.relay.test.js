@@ -0,0 +1,82 @@
+// Gasless first reviews: a signer without ETH reviews through ReviewForwarder, and only a relayer
+// holding RELAYER_ROLE may sponsor that
+// Usage: npm run test:contracts
+const assert = require("assert");
+const { ethers, upgrades } = require("hardhat");
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "data", type: "bytes" }
+  ]
+};
+
+describe("YelpReviewV2 relayed reviews", () => {
+  let forwarder;
+  let review;
+  let relayer;
+  let stranger;
+  let businessId;
+
+  beforeEach(async () => {
+    [, relayer, stranger] = await ethers.getSigners();
+
+    forwarder = await ethers.deployContract("ReviewForwarder");
+    const YelpReviewV2 = await ethers.getContractFactory("YelpReviewV2");
+    review = await upgrades.deployProxy(YelpReviewV2, [ethers.ZeroAddress, ethers.ZeroAddress, ethers.ZeroAddress], {
+      kind: "uups",
+      initializer: "initialize",
+      constructorArgs: [await forwarder.getAddress()],
+      unsafeAllow: ["constructor", "state-variable-immutable"]
+    });
+    await review.grantRole(await review.RELAYER_ROLE(), relayer.address);
+
+    await review.registerBusiness("Java House", "Cafes & Coffee", "Westlands, Nairobi", "");
+    [businessId] = await review.getAllBusinessIds();
+  });
+
+  // A forward request for addReview, signed by a fresh key that has never held ETH
+  const signFirstReview = async () => {
+    const signer = ethers.Wallet.createRandom();
+    const { chainId } = await ethers.provider.getNetwork();
+    const request = {
+      from: signer.address,
+      to: await review.getAddress(),
+      value: 0,
+      gas: 500000,
+      nonce: await forwarder.getNonce(signer.address),
+      data: review.interface.encodeFunctionData("addReview", [businessId, 5, "Great coffee", [], []])
+    };
+    const domain = { name: "MinimalForwarder", version: "0.0.1", chainId, verifyingContract: await forwarder.getAddress() };
+    const signature = await signer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+    return { signer, request, signature };
+  };
+
+  it("posts a first review from a zero-balance signer when a trusted relayer submits it", async () => {
+    const { signer, request, signature } = await signFirstReview();
+    assert.equal(await ethers.provider.getBalance(signer.address), 0n);
+
+    const [success] = await forwarder.connect(relayer).execute.staticCall(request, signature);
+    assert.equal(success, true);
+    await (await forwarder.connect(relayer).execute(request, signature)).wait();
+
+    const posted = await review.getReview(businessId, signer.address);
+    assert.equal(posted.reviewer, signer.address);
+    assert.equal(posted.comment, "Great coffee");
+    assert.equal(await review.userReviewCount(signer.address), 1n);
+  });
+
+  it("refuses a relayed first review from a zero-balance signer submitted by anyone else", async () => {
+    const { signer, request, signature } = await signFirstReview();
+
+    // The forwarder reports the inner revert instead of reverting itself
+    const [success, returnData] = await forwarder.connect(stranger).execute.staticCall(request, signature);
+    assert.equal(success, false);
+    assert.equal(review.interface.parseError(returnData).args[0], "Account too new");
+    assert.equal(await review.userReviewCount(signer.address), 0n);
+  });
+});